@@ -1,101 +1,98 @@
 import * as THREE from 'three';
 import { GameObject } from './types';
-import { PlayState } from './playState';
-import * as BufferGeometryUtils from 'three/addons/utils/BufferGeometryUtils.js';
-
+import { GameSimulation } from './gameSimulation';
+import { RandomService } from './random';
+import {
+  Bounds,
+  CollisionShape,
+  createShapeHelper,
+  disposeShapeHelper,
+  shapeBounds,
+} from './collision';
+import { AlienSide, AlienSize, AlienType, getAlienTypeDefinition } from './alienTypes';
+import { createReturnPath } from './divePaths';
+
+export type { AlienType } from './alienTypes';
+
+// What an alien is doing: holding its formation slot, diving at the paddle, or
+// flying back to its slot after a dive
+export type AlienBehavior = 'formation' | 'diving' | 'returning';
+
+// Simulation state of one alien. AlienRenderer draws the whole swarm with
+// instanced meshes, so an alien has no mesh of its own.
 export class Alien implements GameObject {
-  private game: PlayState;
-  public mesh: THREE.Mesh;
+  private game: GameSimulation;
   public position: THREE.Vector3;
   public velocity: THREE.Vector3;
-  public size: { width: number; height: number; depth: number };
+  public size: AlienSize;
+  public readonly type: AlienType;
   public isDestroyed: boolean = false;
   public points: number; // Points awarded when destroyed
+  public fireRate: number; // Projectiles per second while at the bottom of its column
+
+  // Ball hits left before the alien is destroyed
+  public hitPoints: number;
+  public readonly maxHitPoints: number;
+  private vulnerableSides: AlienSide[] | null;
+
+  // Column of the formation the alien was placed in
+  public formationColumn: number = 0;
+
+  // Position at the start of the current tick, used to interpolate rendering
+  public previousPosition: THREE.Vector3;
+
+  // Outline the ball collides with, matched to the silhouette of the alien type
+  public collisionShape: CollisionShape;
 
   // Add collision helper
-  public collisionHelper: THREE.Mesh | null = null;
+  public collisionHelper: THREE.Object3D | null = null;
 
-  private animationMixer: THREE.AnimationMixer | null = null;
-  private animations: THREE.AnimationAction[] = [];
   private hoverAmplitude: number = 0.2; // How much to hover up and down
   private hoverFrequency: number = 2; // Hover cycles per second
   private hoverOffset: number = 0; // Random offset so aliens don't all hover in sync
-  private initialY: number = 0; // Initial Y position
+
+  // Where the alien sits in the formation (before hovering). The swarm moves the
+  // slot even while the alien is away from it.
+  public readonly slot: THREE.Vector2;
+  public behavior: AlienBehavior = 'formation';
+
+  // Dive or return path being followed, and how far along it the alien is
+  private flightPath: THREE.Curve<THREE.Vector2> | null = null;
+  private flightDistance: number = 0;
+  private flightSpeed: number = 0;
+  // Slot position (hover included) when the return path was planned
+  private returnTarget: THREE.Vector2 = new THREE.Vector2();
+  private elapsedTime: number = 0; // Simulation time, advanced only by ticks
 
   constructor(
-    game: PlayState,
-    size: { width: number; height: number; depth: number },
+    game: GameSimulation,
+    random: RandomService,
     position: { x: number; y: number; z: number },
-    type: 'small' | 'medium' | 'large' = 'medium'
+    type: AlienType = 'medium'
   ) {
+    const definition = getAlienTypeDefinition(type);
     this.game = game;
-    this.size = size;
-    this.initialY = position.y;
-    this.hoverOffset = Math.random() * Math.PI * 2; // Random start position in hover cycle
+    this.size = { ...definition.size };
+    this.type = type;
+    this.slot = new THREE.Vector2(position.x, position.y);
+    // Random start position in hover cycle; hovering moves the hit box, so this is gameplay
+    this.hoverOffset = random.gameplay.range(0, Math.PI * 2);
 
     // Initialize position and velocity vectors (formerly in SimplePhysicsBody)
     this.position = new THREE.Vector3(position.x, position.y, position.z);
+    this.previousPosition = this.position.clone();
     this.velocity = new THREE.Vector3(0, 0, 0);
 
-    // Set points based on alien type
-    switch (type) {
-      case 'small':
-        this.points = 30;
-        break;
-      case 'large':
-        this.points = 10;
-        break;
-      case 'medium':
-      default:
-        this.points = 20;
-        break;
-    }
-
-    // Create alien geometry - different shapes based on type
-    let geometry: THREE.BufferGeometry;
-
-    switch (type) {
-      case 'small':
-        // Create small alien - octahedron shape
-        geometry = new THREE.OctahedronGeometry(size.width / 2, 1);
-        break;
-      case 'large':
-        // Create large alien - sphere with tentacles (using lathe)
-        geometry = this.createTentacledAlien(size.width / 2);
-        break;
-      case 'medium':
-      default:
-        // Create medium alien - classic flying saucer shape
-        geometry = this.createFlyingSaucerGeometry(size.width / 2, size.height / 2);
-        break;
-    }
-
-    // Create material with color based on type
-    const materialColor = this.getAlienColor(type);
-    const material = new THREE.MeshStandardMaterial({
-      color: materialColor,
-      emissive: materialColor,
-      emissiveIntensity: 0.5,
-      metalness: 0.8,
-      roughness: 0.2,
-    });
-
-    // Create mesh
-    this.mesh = new THREE.Mesh(geometry, material);
-    this.mesh.castShadow = true;
-    this.mesh.receiveShadow = true;
-    this.mesh.position.set(position.x, position.y, position.z);
-
-    // Create animation mixer if needed
-    this.animationMixer = new THREE.AnimationMixer(this.mesh);
-    this.setupAnimations();
-
-    // Add eyes/details based on alien type
-    this.addAlienDetails(type);
+    // Points, fire rate, toughness and shape all come from the type definition
+    this.points = definition.points;
+    this.fireRate = definition.fireRate;
+    this.hitPoints = definition.hitPoints;
+    this.maxHitPoints = definition.hitPoints;
+    this.vulnerableSides = definition.vulnerableSides ?? null;
+    this.collisionShape = definition.createCollisionShape(this.size);
 
     // Add debug collision helper if enabled
-    // Import DEBUG_COLLISION_BOUNDARIES from playState
-    if ((game as any).debugCollisionBoundaries === true) {
+    if (game.debugCollisionBoundaries) {
       this.createCollisionHelper();
     }
   }
@@ -109,417 +106,157 @@ export class Alien implements GameObject {
     this.position.set(position.x, position.y, position.z);
   }
 
-  private getAlienColor(type: 'small' | 'medium' | 'large'): number {
-    switch (type) {
-      case 'small':
-        return 0xff5500; // Orange-red
-      case 'medium':
-        return 0x00ff66; // Green
-      case 'large':
-        return 0xaa22ff; // Purple
-      default:
-        return 0x00ff66; // Default green
-    }
+  // Remember where the alien was at the start of the tick
+  storePreviousPosition(): void {
+    this.previousPosition.copy(this.position);
   }
 
-  private createFlyingSaucerGeometry(radius: number, height: number): THREE.BufferGeometry {
-    // Create points for a flying saucer shape
-    const points = [];
-
-    // Bottom point
-    points.push(new THREE.Vector2(0, -height / 2));
-
-    // Bottom curve
-    for (let i = 0; i <= 5; i++) {
-      const angle = (Math.PI / 5) * i;
-      const x = radius * Math.sin(angle);
-      const y = -height / 2 + height * 0.3 * (1 - Math.cos(angle));
-      points.push(new THREE.Vector2(x, y));
-    }
+  update(deltaTime: number): void {
+    if (this.isDestroyed) return;
 
-    // Middle (widest part)
-    points.push(new THREE.Vector2(radius, 0));
+    this.elapsedTime += deltaTime;
 
-    // Top curve
-    for (let i = 4; i >= 0; i--) {
-      const angle = (Math.PI / 5) * i;
-      const x = radius * Math.sin(angle);
-      const y = height / 2 - height * 0.2 * (1 - Math.cos(angle));
-      points.push(new THREE.Vector2(x, y));
+    if (this.behavior !== 'formation') {
+      this.fly(deltaTime);
+      return;
     }
 
-    // Top center point
-    points.push(new THREE.Vector2(0, height / 2));
-
-    // Create lathe geometry from points
-    return new THREE.LatheGeometry(points, 32);
+    // Hover in the formation slot
+    const position = this.formationPosition();
+    this.setTranslation({ x: position.x, y: position.y, z: this.position.z });
   }
 
-  private createTentacledAlien(radius: number): THREE.BufferGeometry {
-    // Create a group to hold all geometries
-    const tentacleGroup = new THREE.Group();
-
-    // Create center sphere
-    const bodyGeometry = new THREE.SphereGeometry(radius * 0.7, 16, 16);
-    const body = new THREE.Mesh(bodyGeometry);
-    tentacleGroup.add(body);
-
-    // Create tentacles
-    const tentacleCount = 6;
-    const tentacleLength = radius * 1.2;
-    const tentacleWidth = radius * 0.2;
-
-    for (let i = 0; i < tentacleCount; i++) {
-      const angle = ((Math.PI * 2) / tentacleCount) * i;
-      const x = Math.cos(angle) * radius * 0.5;
-      const z = Math.sin(angle) * radius * 0.5;
-      const y = -radius * 0.5;
-
-      const tentacleGeometry = new THREE.CylinderGeometry(
-        tentacleWidth,
-        tentacleWidth * 0.5,
-        tentacleLength,
-        8,
-        3,
-        true
-      );
-
-      const tentacle = new THREE.Mesh(tentacleGeometry);
-      tentacle.position.set(x, y - tentacleLength / 2, z);
-      tentacle.rotation.x = Math.PI / 6; // Angle tentacles slightly outward
-      tentacle.rotation.z = angle;
-
-      tentacleGroup.add(tentacle);
-    }
-
-    // Convert group to buffer geometry
-    const finalGeometry = new THREE.BufferGeometry();
-    const geometries: THREE.BufferGeometry[] = [];
-
-    tentacleGroup.traverse((child) => {
-      if (child instanceof THREE.Mesh) {
-        const cloned = child.geometry.clone();
-        cloned.applyMatrix4(child.matrixWorld);
-        geometries.push(cloned);
-      }
-    });
-
-    // Merge all geometries
-    return BufferGeometryUtils.mergeGeometries(geometries);
+  // The slot plus the current hover offset
+  private formationPosition(): THREE.Vector2 {
+    const time = this.elapsedTime;
+    const hoverY = Math.sin(time * this.hoverFrequency + this.hoverOffset) * this.hoverAmplitude;
+    return new THREE.Vector2(this.slot.x, this.slot.y + hoverY);
   }
 
-  private addAlienDetails(type: 'small' | 'medium' | 'large'): void {
-    switch (type) {
-      case 'small':
-        this.addAlienEyes(0.1, 0.15, 0xff0000);
-        break;
-      case 'medium':
-        this.addAlienEyes(0.15, 0.2, 0xffff00);
-        break;
-      case 'large':
-        this.addAlienEyes(0.2, 0.3, 0xff00ff);
-        // Add an antenna to large aliens
-        this.addAlienAntenna(0.5);
-        break;
-    }
+  // Leave the formation and follow a dive path, which should start at the
+  // alien's position. Once it ends the alien flies back to its slot.
+  startDive(path: THREE.Curve<THREE.Vector2>, speed: number): void {
+    this.behavior = 'diving';
+    this.flightPath = path;
+    this.flightDistance = 0;
+    this.flightSpeed = speed;
   }
 
-  private addAlienEyes(size: number, spacing: number, color: number): void {
-    // Create eye geometry
-    const eyeGeometry = new THREE.SphereGeometry(size, 16, 16);
-    const eyeMaterial = new THREE.MeshBasicMaterial({ color: color });
-
-    // Create left eye
-    const leftEye = new THREE.Mesh(eyeGeometry, eyeMaterial);
-    leftEye.position.set(-spacing, size * 1.5, size * 4);
-    this.mesh.add(leftEye);
+  // Advance along the dive or return path
+  private fly(deltaTime: number): void {
+    const path = this.flightPath!;
+    this.flightDistance += this.flightSpeed * deltaTime;
+    const progress = Math.min(this.flightDistance / path.getLength(), 1);
+    const point = path.getPointAt(progress);
+
+    if (this.behavior === 'returning') {
+      // The slot keeps moving with the swarm; blend that movement in so the
+      // path ends exactly on it
+      point.addScaledVector(this.formationPosition().sub(this.returnTarget), progress);
+    }
+    this.setTranslation({ x: point.x, y: point.y, z: this.position.z });
 
-    // Create right eye
-    const rightEye = new THREE.Mesh(eyeGeometry, eyeMaterial);
-    rightEye.position.set(spacing, size * 1.5, size * 4);
-    this.mesh.add(rightEye);
-  }
+    if (progress < 1) return;
 
-  private addAlienAntenna(height: number): void {
-    const antennaGeometry = new THREE.CylinderGeometry(0.05, 0.05, height, 8);
-    const antennaMaterial = new THREE.MeshStandardMaterial({
-      color: 0xffff00,
-      emissive: 0xffff00,
-      emissiveIntensity: 0.8,
-    });
-
-    const antenna = new THREE.Mesh(antennaGeometry, antennaMaterial);
-    antenna.position.set(0, height / 2 + 0.2, 0);
-    this.mesh.add(antenna);
-
-    // Add a blinking light to the antenna
-    const light = new THREE.PointLight(0xffff00, 0.8, 3);
-    light.position.set(0, height, 0);
-    this.mesh.add(light);
-
-    // Make the light blink
-    const blinkInterval = 0.5 + Math.random() * 0.5;
-    setInterval(() => {
-      light.visible = !light.visible;
-    }, blinkInterval * 1000);
+    if (this.behavior === 'diving') {
+      this.behavior = 'returning';
+      this.returnTarget = this.formationPosition();
+      this.flightPath = createReturnPath(point, path.getTangentAt(1), this.returnTarget);
+      this.flightDistance = 0;
+    } else {
+      this.behavior = 'formation';
+      this.flightPath = null;
+    }
   }
 
-  private setupAnimations(): void {
-    // Setup alien spin animation
-    const spinTrack = new THREE.NumberKeyframeTrack(
-      '.rotation[y]', // Property to animate
-      [0, 1], // Keyframe times
-      [0, Math.PI * 2] // Values
-    );
-
-    // Create animation clip
-    const spinClip = new THREE.AnimationClip('spin', 5, [spinTrack]);
-
-    // Create animation action
-    const spinAction = this.animationMixer!.clipAction(spinClip);
-    spinAction.setLoop(THREE.LoopRepeat, Infinity);
-    spinAction.play();
-
-    this.animations.push(spinAction);
+  // Place the collision helper between the previous and current tick positions
+  updateCollisionHelper(alpha: number): void {
+    this.collisionHelper?.position.lerpVectors(this.previousPosition, this.position, alpha);
   }
 
-  update(deltaTime: number): void {
-    if (this.isDestroyed) return;
-
-    // Update animations
-    if (this.animationMixer) {
-      this.animationMixer.update(deltaTime);
+  // Area the collision shape can cover until the swarm next moves, hovering
+  // included. Aliens away from their slot move every tick, so for them it is
+  // just where they are now.
+  getSwarmBounds(): Bounds {
+    if (this.behavior !== 'formation') {
+      return shapeBounds(this.position, this.collisionShape);
     }
 
-    // Apply hovering motion
-    const time = performance.now() / 1000;
-    const hoverY = Math.sin(time * this.hoverFrequency + this.hoverOffset) * this.hoverAmplitude;
-
-    // Get current position
-    const position = this.translation();
-
-    // Update position with hover effect
-    this.setTranslation({
-      x: position.x,
-      y: this.initialY + hoverY,
-      z: position.z,
-    });
+    const bounds = shapeBounds(this.slot, this.collisionShape);
+    bounds.minY -= this.hoverAmplitude;
+    bounds.maxY += this.hoverAmplitude;
+    return bounds;
+  }
 
-    // Update mesh position
-    this.mesh.position.set(position.x, this.initialY + hoverY, position.z);
+  // Move the formation slot sideways; an alien in formation moves with it
+  moveSideways(amount: number): void {
+    this.slot.x += amount;
 
-    // Update collision helper position
-    if (this.collisionHelper) {
-      this.collisionHelper.position.copy(this.mesh.position);
+    if (this.behavior === 'formation') {
+      const position = this.translation();
+      this.setTranslation({ x: this.slot.x, y: position.y, z: position.z });
     }
   }
 
-  // Move the alien down by a specific amount
+  // Move the formation slot down by a specific amount
   moveDown(amount: number): void {
-    this.initialY -= amount;
+    this.slot.y -= amount;
 
     // Update position
-    const position = this.translation();
-    this.setTranslation({
-      x: position.x,
-      y: this.initialY,
-      z: position.z,
-    });
+    if (this.behavior === 'formation') {
+      const position = this.translation();
+      this.setTranslation({
+        x: position.x,
+        y: this.slot.y,
+        z: position.z,
+      });
+    }
   }
 
-  // Handle alien being destroyed
-  destroy(): void {
-    if (this.isDestroyed) return;
-    this.isDestroyed = true;
-
-    // Remove collision helper immediately if it exists
-    if (this.collisionHelper && this.collisionHelper.parent) {
-      this.collisionHelper.parent.remove(this.collisionHelper);
-      if (this.collisionHelper.geometry) this.collisionHelper.geometry.dispose();
-      if (this.collisionHelper.material instanceof THREE.Material) {
-        this.collisionHelper.material.dispose();
-      }
-      this.collisionHelper = null;
-    }
+  // Move the formation slot to a new position, for swarm patterns that place
+  // slots directly; an alien in formation moves with it and keeps hovering
+  moveSlotTo(x: number, y: number): void {
+    const dx = x - this.slot.x;
+    const dy = y - this.slot.y;
+    this.slot.set(x, y);
 
-    // Make the alien blink before disappearing
-    if (this.mesh.material instanceof THREE.MeshStandardMaterial) {
-      const material = this.mesh.material;
-      const originalEmissiveIntensity = material.emissiveIntensity;
-
-      // Flash before destroying
-      let flashCount = 0;
-      const maxFlashes = 3;
-      const flashInterval = setInterval(() => {
-        material.emissiveIntensity = flashCount % 2 === 0 ? 1.5 : originalEmissiveIntensity;
-        flashCount++;
-
-        if (flashCount >= maxFlashes * 2) {
-          clearInterval(flashInterval);
-          this.explode();
-        }
-      }, 100);
-    } else {
-      // If material manipulation not possible, just explode
-      this.explode();
+    if (this.behavior === 'formation') {
+      const position = this.translation();
+      this.setTranslation({ x: position.x + dx, y: position.y + dy, z: position.z });
     }
   }
 
-  private explode(): void {
-    // Create explosion effect (particles, light flash, etc.)
-    this.createExplosionEffect();
-
-    // Hide the mesh
-    this.mesh.visible = false;
+  // Whether a hit on the given side does damage; armor and shields deflect the rest
+  isVulnerableFrom(side: AlienSide): boolean {
+    return this.vulnerableSides === null || this.vulnerableSides.includes(side);
   }
 
-  private createExplosionEffect(): void {
-    const position = this.translation();
+  // Take a hit point of damage. Returns true once none are left; destroying the
+  // alien is up to AlienManager.
+  takeDamage(): boolean {
+    if (this.isDestroyed) return false;
 
-    // Create explosion particles
-    const particleCount = 30;
-    const particleGeometry = new THREE.BufferGeometry();
-    const particlePositions = new Float32Array(particleCount * 3);
-
-    // All particles start at center
-    for (let i = 0; i < particleCount; i++) {
-      particlePositions[i * 3] = 0;
-      particlePositions[i * 3 + 1] = 0;
-      particlePositions[i * 3 + 2] = 0;
-    }
+    this.hitPoints = Math.max(this.hitPoints - 1, 0);
+    return this.hitPoints === 0;
+  }
 
-    particleGeometry.setAttribute('position', new THREE.BufferAttribute(particlePositions, 3));
-
-    // Create particle material
-    const particleMaterial = new THREE.PointsMaterial({
-      color:
-        this.mesh.material instanceof THREE.MeshStandardMaterial
-          ? this.mesh.material.color
-          : 0x00ff66,
-      size: 0.2,
-      transparent: true,
-      opacity: 1.0,
-    });
-
-    // Create particle system
-    const particles = new THREE.Points(particleGeometry, particleMaterial);
-    particles.position.copy(this.mesh.position);
-
-    // Get parent scene
-    const scene = this.mesh.parent;
-    if (scene) {
-      scene.add(particles);
-
-      // Create velocities for particles
-      const velocities = [];
-      for (let i = 0; i < particleCount; i++) {
-        // Random direction
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.random() * Math.PI;
-        const speed = Math.random() * 5 + 2;
-
-        velocities.push({
-          x: Math.sin(phi) * Math.cos(theta) * speed,
-          y: Math.sin(phi) * Math.sin(theta) * speed,
-          z: Math.cos(phi) * speed,
-        });
-      }
-
-      // Animate particles
-      const startTime = Date.now();
-      const duration = 1000; // ms
-
-      const animateExplosion = function () {
-        const elapsed = Date.now() - startTime;
-        const progress = elapsed / duration;
-
-        if (progress < 1.0) {
-          const positions = particles.geometry.getAttribute('position').array;
-
-          for (let i = 0; i < particleCount; i++) {
-            const idx = i * 3;
-            positions[idx] += velocities[i].x * 0.016;
-            positions[idx + 1] += velocities[i].y * 0.016;
-            positions[idx + 2] += velocities[i].z * 0.016;
-          }
-
-          particles.geometry.getAttribute('position').needsUpdate = true;
-
-          // Fade out
-          if (particles.material instanceof THREE.PointsMaterial) {
-            particles.material.opacity = 1.0 - progress;
-          }
-
-          requestAnimationFrame(animateExplosion);
-        } else {
-          // Clean up
-          scene.remove(particles);
-          particles.geometry.dispose();
-
-          if (particles.material instanceof THREE.Material) {
-            particles.material.dispose();
-          }
-        }
-      };
-
-      // Start animation
-      animateExplosion();
-
-      // Add flash of light
-      const flash = new THREE.PointLight(
-        this.mesh.material instanceof THREE.MeshStandardMaterial
-          ? this.mesh.material.color
-          : 0x00ff66,
-        2,
-        10
-      );
-      flash.position.copy(this.mesh.position);
-      scene.add(flash);
-
-      // Remove flash after a short time
-      setTimeout(() => {
-        scene.remove(flash);
-      }, 200);
-    }
+  // Mark the alien destroyed; AlienRenderer plays its explosion
+  destroy(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+    this.removeCollisionHelper();
   }
 
   // Check if alien has reached the bottom of the play area
   hasReachedBottom(bottomY: number): boolean {
-    return this.initialY <= bottomY;
+    return this.slot.y <= bottomY;
   }
 
   dispose(): void {
-    // Clean up collision helper if it exists
-    if (this.collisionHelper) {
-      if (this.collisionHelper.parent) {
-        this.collisionHelper.parent.remove(this.collisionHelper);
-      }
-      if (this.collisionHelper.geometry) {
-        this.collisionHelper.geometry.dispose();
-      }
-      if (this.collisionHelper.material instanceof THREE.Material) {
-        this.collisionHelper.material.dispose();
-      }
-      this.collisionHelper = null;
-    }
-
-    // Clean up resources
-    if (this.mesh.parent) {
-      this.mesh.parent.remove(this.mesh);
-    }
-
-    if (this.mesh.geometry) {
-      this.mesh.geometry.dispose();
-    }
-
-    if (this.mesh.material instanceof THREE.Material) {
-      this.mesh.material.dispose();
-    } else if (Array.isArray(this.mesh.material)) {
-      this.mesh.material.forEach((material) => material.dispose());
-    }
+    this.removeCollisionHelper();
   }
 
-  // Create a wireframe box to visualize the collision boundary
+  // Create a wireframe outline of the collision shape
   public createCollisionHelper(): void {
     if (this.isDestroyed) {
       return;
@@ -527,26 +264,15 @@ export class Alien implements GameObject {
     if (this.collisionHelper) {
       return;
     }
-    // Create a spherical helper that represents the alien's collision boundary
-    const helperGeometry = new THREE.SphereGeometry(this.size.width / 2, 16, 8);
-    const helperMaterial = new THREE.MeshBasicMaterial({
-      color: 0x00ff00,
-      wireframe: true,
-    });
-
-    this.collisionHelper = new THREE.Mesh(helperGeometry, helperMaterial);
-    this.collisionHelper.position.copy(this.mesh.position);
+    this.collisionHelper = createShapeHelper(this.collisionShape, 0x00ff00);
+    this.collisionHelper.position.copy(this.position);
     this.game.scene.add(this.collisionHelper);
   }
 
   public removeCollisionHelper(): void {
     // Remove alien helpers
     if (this.collisionHelper) {
-      this.game.scene.remove(this.collisionHelper);
-      if (this.collisionHelper.geometry) this.collisionHelper.geometry.dispose();
-      if (this.collisionHelper.material instanceof THREE.Material) {
-        this.collisionHelper.material.dispose();
-      }
+      disposeShapeHelper(this.collisionHelper);
       this.collisionHelper = null;
     }
   }
@@ -1,26 +1,57 @@
 import * as THREE from 'three';
 import { Alien } from './Alien';
-import { PlayState } from './playState';
-import { Ball } from './Ball';
-
-// Direction of alien swarm movement
-type SwarmDirection = 'left' | 'right';
+import { AlienRenderer } from './AlienRenderer';
+import { contactSide } from './alienTypes';
+import { GameSimulation, GameState } from './gameSimulation';
+import { Bounds, Sweep, SweepHit, shapeBounds, sweepBounds, sweepVsShape } from './collision';
+import { createDivePath } from './divePaths';
+import { Paddle } from './Paddle';
+import { SpatialGrid } from './spatialGrid';
+import { RandomService } from './random';
+import { SwarmPattern, createSwarmPattern } from './swarmPatterns';
+import {
+  AlienFireHazard,
+  DEFAULT_MIN_MOVE_INTERVAL,
+  LevelDefinition,
+  accelerationProgress,
+  findHazard,
+  getFormationPlacements,
+} from './levels';
+
+// What a ball hit did to an alien
+export type AlienHitResult = 'blocked' | 'damaged' | 'destroyed';
+
+// Dive settings for levels whose dive hazard leaves them out
+const DEFAULT_DIVE_INTERVAL = 6;
+const DEFAULT_MAX_DIVERS = 2;
+const DEFAULT_DIVE_SPEED = 9;
+// How far below the paddle a dive carries on before the alien turns home
+const DIVE_EXIT_DEPTH = 2;
 
 export class AlienManager {
-  private game: PlayState;
+  private game: GameSimulation;
+  private random: RandomService;
   private aliens: Alien[] = [];
-  private scene: THREE.Scene;
-
-  private rows: number = 5;
-  private columns: number = 9;
-  private horizontalSpacing: number = 2;
-  private verticalSpacing: number = 1.5;
-  private horizontalSpeed: number = 1.5; // How fast the aliens move sideways
-  private moveDownAmount: number = 0.5; // How far down aliens move when reaching edge
-  private currentDirection: SwarmDirection = 'right';
+  private renderer: AlienRenderer;
+
+  // Broadphase over living aliens, rebuilt whenever the swarm moves
+  private grid: SpatialGrid<Alien> = new SpatialGrid(2);
+
+  // Formation, swarm speed and hazards of the current level
+  private level: LevelDefinition;
+  private pattern: SwarmPattern = createSwarmPattern();
   private moveTimer: number = 0;
   private moveInterval: number = 1.0; // Time between alien movements
-  private speedIncreasePerAlien: number = 0.025; // How much to speed up per dead alien
+
+  // Firing: on levels with an alienFire hazard the bottom alien of each column
+  // shoots at its type's rate times the hazard's multiplier
+  private fireCooldowns: Map<Alien, number> = new Map(); // Seconds until each shooter fires
+
+  // Diving: on levels with a dive hazard an alien leaves the formation every so
+  // often. Aliens away from their slot move every tick, so they are kept here and
+  // moved in the broadphase each tick instead of on swarm steps.
+  private diveTimer: number = 0;
+  private divers: Set<Alien> = new Set();
   private worldBounds: { min: number; max: number };
 
   // Bottom boundary for game over condition
@@ -29,25 +60,32 @@ export class AlienManager {
   // Track if the swarm has reached the bottom
   private hasReachedBottom: boolean = false;
 
-  // Reference to the callback function for reaching bottom
-  private onReachBottom: (() => void) | null = null;
-
   constructor(
-    game: PlayState,
+    game: GameSimulation,
+    random: RandomService,
     scene: THREE.Scene,
     worldSize: number,
+    level: LevelDefinition,
     bottomBoundary: number = 1.0
   ) {
     this.game = game;
-    this.scene = scene;
+    this.random = random;
+    this.renderer = new AlienRenderer(
+      scene,
+      random,
+      game.particles,
+      game.scheduler,
+      game.effectsEnabled
+    );
     this.worldBounds = {
       min: -worldSize / 2 + 1.5, // Add margin from edge
       max: worldSize / 2 - 1.5,
     };
     this.bottomBoundary = bottomBoundary;
+    this.level = level;
 
     // Create initial alien formation
-    this.createAlienFormation();
+    this.reset();
   }
 
   public createCollisionHelpers(): void {
@@ -62,57 +100,51 @@ export class AlienManager {
     });
   }
 
-  // Create a formation of aliens in rows and columns
+  // Create the current level's formation
   private createAlienFormation(): void {
-    // Start position for the grid (centered)
-    const startX = -((this.columns - 1) * this.horizontalSpacing) / 2;
-    const startY = 15; // Start height
-    const startZ = 0; // Start depth position
-
-    for (let row = 0; row < this.rows; row++) {
-      for (let col = 0; col < this.columns; col++) {
-        // Determine alien type based on row
-        let type: 'small' | 'medium' | 'large';
-        if (row === 0) {
-          type = 'small'; // Top row has small aliens worth more points
-        } else if (row < 3) {
-          type = 'medium'; // Middle rows have medium aliens
-        } else {
-          type = 'large'; // Bottom rows have large aliens
-        }
-
-        // Calculate position
-        const x = startX + col * this.horizontalSpacing;
-        const y = startY - row * this.verticalSpacing;
-        const z = startZ;
-
-        // Create alien with size based on type
-        let size: { width: number; height: number; depth: number };
-        switch (type) {
-          case 'small':
-            size = { width: 1.0, height: 0.8, depth: 1.0 };
-            break;
-          case 'medium':
-            size = { width: 1.3, height: 0.6, depth: 1.3 };
-            break;
-          case 'large':
-            size = { width: 1.5, height: 1.0, depth: 1.5 };
-            break;
-        }
-
-        // Create alien
-        const alien = new Alien(this.game, size, { x, y, z }, type);
-
-        // Add to scene and aliens array
-        this.scene.add(alien.mesh);
-        this.aliens.push(alien);
-      }
+    for (const { type, x, y, column } of getFormationPlacements(this.level.formation)) {
+      const alien = new Alien(this.game, this.random, { x, y, z: 0 }, type);
+      alien.formationColumn = column;
+      this.aliens.push(alien);
     }
+
+    this.renderer.setAliens(this.aliens);
+    this.rebuildGrid();
+  }
+
+  // Re-register every living alien with the broadphase
+  private rebuildGrid(): void {
+    this.grid.clear();
+    this.aliens.forEach((alien) => {
+      if (!alien.isDestroyed) {
+        this.grid.insert(alien, alien.getSwarmBounds());
+      }
+    });
+  }
+
+  // Remember every alien's position at the start of the tick
+  storePreviousPositions(): void {
+    this.aliens.forEach((alien) => alien.storePreviousPosition());
+  }
+
+  // Interpolate alien meshes between the last two ticks
+  updateMeshes(alpha: number): void {
+    this.renderer.updateMeshes(alpha);
+    this.aliens.forEach((alien) => alien.updateCollisionHelper(alpha));
   }
 
   update(deltaTime: number): void {
-    // Update each alien
+    // Update each alien, and the flashes and explosions they show
     this.aliens.forEach((alien) => alien.update(deltaTime));
+    this.renderer.update(deltaTime);
+
+    // Keep divers findable where they are now; drop the ones back in formation
+    this.divers.forEach((alien) => {
+      this.grid.insert(alien, alien.getSwarmBounds());
+      if (alien.behavior === 'formation') {
+        this.divers.delete(alien);
+      }
+    });
 
     // Move swarm over time
     this.moveTimer += deltaTime;
@@ -125,163 +157,257 @@ export class AlienManager {
     this.checkBottomReached();
   }
 
-  // Move the entire alien formation
+  // Move the entire alien formation one step along the level's pattern
   private moveSwarm(): void {
-    // Calculate movement distance
-    const movementDistance = this.horizontalSpeed * this.moveInterval;
-
-    // Find the alien at the edge in the current direction
-    let edgeAlien: Alien | null = null;
-    if (this.currentDirection === 'right') {
-      // Find rightmost alien
-      let maxX = -Infinity;
-      this.aliens.forEach((alien) => {
-        if (!alien.isDestroyed) {
-          const position = alien.translation();
-          if (position.x > maxX) {
-            maxX = position.x;
-            edgeAlien = alien;
-          }
-        }
-      });
-    } else {
-      // Find leftmost alien
-      let minX = Infinity;
-      this.aliens.forEach((alien) => {
-        if (!alien.isDestroyed) {
-          const position = alien.translation();
-          if (position.x < minX) {
-            minX = position.x;
-            edgeAlien = alien;
-          }
-        }
-      });
-    }
+    const living = this.aliens.filter((alien) => !alien.isDestroyed);
+    if (living.length === 0) return;
+
+    const modifiers = this.game.difficulty.getModifiers();
+    this.pattern.step({
+      aliens: living,
+      elapsed: this.moveInterval,
+      horizontalSpeed: this.level.swarm.horizontalSpeed * modifiers.swarmSpeed,
+      moveDownAmount: this.level.swarm.moveDownAmount * modifiers.moveDownAmount,
+      bounds: this.worldBounds,
+    });
+
+    this.rebuildGrid();
+  }
+
+  // Let the bottom-most living alien of each column fire down at the paddle.
+  // Divers don't fire; the alien above takes over while they are away.
+  updateFiring(deltaTime: number): void {
+    const fire = findHazard(this.level, 'alienFire');
+    if (!fire) return;
 
-    // Check if swarm needs to change direction
-    let shouldMoveDown = false;
-    if (edgeAlien) {
-      const position = edgeAlien.translation();
-      const alienHalfWidth = edgeAlien.size.width / 2;
-
-      if (
-        this.currentDirection === 'right' &&
-        position.x + alienHalfWidth + movementDistance > this.worldBounds.max
-      ) {
-        this.currentDirection = 'left';
-        shouldMoveDown = true;
-      } else if (
-        this.currentDirection === 'left' &&
-        position.x - alienHalfWidth - movementDistance < this.worldBounds.min
-      ) {
-        this.currentDirection = 'right';
-        shouldMoveDown = true;
+    const shooters = new Map<number, Alien>();
+    for (const alien of this.aliens) {
+      if (alien.isDestroyed || alien.behavior !== 'formation') continue;
+      const current = shooters.get(alien.formationColumn);
+      if (!current || alien.position.y < current.position.y) {
+        shooters.set(alien.formationColumn, alien);
       }
     }
 
-    // Move all aliens
-    this.aliens.forEach((alien) => {
-      if (!alien.isDestroyed) {
-        // Move horizontally
-        const position = alien.translation();
-        const movement = this.currentDirection === 'right' ? movementDistance : -movementDistance;
-
-        alien.setTranslation({
-          x: position.x + movement,
-          y: position.y,
-          z: position.z,
-        });
-
-        // Move down if needed
-        if (shouldMoveDown) {
-          alien.moveDown(this.moveDownAmount);
-        }
+    // Aliens that stopped being shooters start a fresh cooldown if they become one again
+    this.fireCooldowns.forEach((_cooldown, alien) => {
+      if (shooters.get(alien.formationColumn) !== alien) {
+        this.fireCooldowns.delete(alien);
       }
     });
-  }
 
-  // Check if ball has hit any aliens
-  checkCollisions(ball: Ball): number {
-    let pointsScored = 0;
-    const ballPosition = ball.position;
-    const ballRadius = ball.size.radius;
+    shooters.forEach((alien) => {
+      const cooldown =
+        (this.fireCooldowns.get(alien) ?? this.nextFireCooldown(alien, fire)) - deltaTime;
+      if (cooldown > 0) {
+        this.fireCooldowns.set(alien, cooldown);
+        return;
+      }
 
-    this.aliens.forEach((alien) => {
-      if (!alien.isDestroyed) {
-        const alienPos = alien.translation();
-        const alienRadius = alien.size.width / 2;
+      this.game.projectiles.fire(
+        { x: alien.position.x, y: alien.position.y - alien.size.height / 2, z: 0 },
+        fire.projectileSpeed ?? 8
+      );
+      this.fireCooldowns.set(alien, this.nextFireCooldown(alien, fire));
+    });
+  }
+
+  // Randomised delay before a shooter fires, averaging one shot per 1 / rate seconds
+  private nextFireCooldown(alien: Alien, fire: AlienFireHazard): number {
+    const rate =
+      alien.fireRate *
+      (fire.rateMultiplier ?? 1) *
+      this.game.difficulty.getModifiers().projectileRate;
+    return this.random.gameplay.range(0.5, 1.5) / rate;
+  }
 
-        // Calculate distance between ball and alien (ignoring z coordinate for 2D collision)
-        const distance = Math.sqrt(
-          Math.pow(ballPosition.x - alienPos.x, 2) + Math.pow(ballPosition.y - alienPos.y, 2)
+  // Send aliens diving at the paddle now and then, and crash divers that reach it
+  updateDives(deltaTime: number): void {
+    const dive = findHazard(this.level, 'dive');
+    if (!dive) return;
+
+    this.diveTimer -= deltaTime;
+    if (this.diveTimer <= 0) {
+      this.diveTimer = this.nextDiveDelay(dive.interval ?? DEFAULT_DIVE_INTERVAL);
+
+      const candidates = this.aliens.filter(
+        (alien) => !alien.isDestroyed && alien.behavior === 'formation'
+      );
+      if (candidates.length > 0 && this.divers.size < (dive.maxDivers ?? DEFAULT_MAX_DIVERS)) {
+        this.startDive(
+          this.random.gameplay.pick(candidates),
+          this.random.gameplay.pick(this.game.paddles),
+          dive.speed ?? DEFAULT_DIVE_SPEED
         );
+      }
+    }
+
+    // A diver that reaches a paddle crashes into it
+    for (const alien of this.divers) {
+      if (alien.behavior !== 'diving') continue;
 
-        // If collision detected
-        if (distance < ballRadius + alienRadius) {
-          // Calculate normal vector (direction from alien to ball)
-          const normal = new THREE.Vector3(
-            ballPosition.x - alienPos.x,
-            ballPosition.y - alienPos.y,
-            0 // Set z component to 0 to keep bounce reflections in the xy plane
-          ).normalize();
-
-          // Calculate dot product for reflection
-          const dot = ball.velocity.dot(normal);
-
-          // Update ball velocity (reflect)
-          ball.velocity.x -= 2 * dot * normal.x;
-          ball.velocity.y -= 2 * dot * normal.y;
-          ball.velocity.z -= 2 * dot * normal.z;
-
-          // Slightly boost the ball speed after hitting an alien
-          const speedBoost = 1.05;
-          ball.velocity.multiplyScalar(speedBoost);
-
-          // Destroy the alien and score points
-          alien.destroy();
-          pointsScored += alien.points;
-
-          // Increase speed as aliens are destroyed
-          this.increaseSpeed();
-        }
+      const paddle = this.game.paddles.find((paddle) => this.touchesPaddle(alien, paddle));
+      if (paddle) {
+        this.destroyAlien(alien, 0);
+        this.game.handlePaddleRammed(paddle, alien);
+        if (this.game.getState() !== GameState.PLAYING) return;
       }
+    }
+  }
+
+  // Randomised delay before the next dive, averaging the level's interval
+  private nextDiveDelay(interval: number): number {
+    return this.random.gameplay.range(0.5, 1.5) * interval;
+  }
+
+  // Peel off towards the nearer wall, then swoop through where the paddle is now
+  private startDive(alien: Alien, paddle: Paddle, speed: number): void {
+    const side = alien.position.x < 0 ? -1 : 1;
+    const path = createDivePath(alien.position, paddle.position, side, DIVE_EXIT_DEPTH);
+    alien.startDive(path, speed);
+    this.divers.add(alien);
+
+    this.game.events.emit('alienDiveStarted', {
+      type: alien.type,
+      position: { x: alien.position.x, y: alien.position.y, z: alien.position.z },
+    });
+  }
+
+  private touchesPaddle(alien: Alien, paddle: Paddle): boolean {
+    const bounds = shapeBounds(alien.position, alien.collisionShape);
+    return (
+      bounds.maxX > paddle.position.x - paddle.size.width / 2 &&
+      bounds.minX < paddle.position.x + paddle.size.width / 2 &&
+      bounds.maxY > paddle.position.y - paddle.size.height / 2 &&
+      bounds.minY < paddle.position.y + paddle.size.height / 2
+    );
+  }
+
+  // Find the first living alien the ball would touch while moving along the sweep
+  sweepBall(sweep: Sweep): { alien: Alien; hit: SweepHit } | null {
+    let closest: { alien: Alien; hit: SweepHit } | null = null;
+
+    for (const alien of this.queryAliens(sweepBounds(sweep))) {
+      // Each alien type has its own outline in the XY plane
+      const hit = sweepVsShape(sweep, alien.position, alien.collisionShape);
+      if (hit && (!closest || hit.time < closest.hit.time)) {
+        closest = { alien, hit };
+      }
+    }
+
+    return closest;
+  }
+
+  // Living aliens that may overlap the given area, for balls, projectiles and
+  // power-ups. Candidates only; run the exact shape test on each.
+  queryAliens(bounds: Bounds): Alien[] {
+    return this.grid.query(bounds);
+  }
+
+  // Apply a ball hit. Armor and shields deflect hits on their protected sides;
+  // otherwise the alien loses a hit point and is destroyed when none are left.
+  hitAlien(alien: Alien, normal: { x: number; y: number }): AlienHitResult {
+    if (alien.isDestroyed) return 'blocked';
+
+    const position = { x: alien.position.x, y: alien.position.y, z: alien.position.z };
+    const side = contactSide(normal);
+    if (!alien.isVulnerableFrom(side)) {
+      this.game.particles.emit('spark', position, 0xffffff);
+      this.game.events.emit('alienHitBlocked', { type: alien.type, side, position });
+      return 'blocked';
+    }
+
+    if (alien.takeDamage()) {
+      this.destroyAlien(alien);
+      return 'destroyed';
+    }
+
+    this.renderer.flash(alien);
+    this.game.events.emit('alienDamaged', {
+      type: alien.type,
+      hitPoints: alien.hitPoints,
+      position,
     });
+    return 'damaged';
+  }
+
+  // Destroy an alien outright; scoring happens through the alienDestroyed event
+  destroyAlien(alien: Alien, points: number = alien.points): void {
+    if (alien.isDestroyed) return;
+
+    alien.destroy();
+    this.renderer.destroy(alien);
+    this.grid.remove(alien);
+    this.divers.delete(alien);
+
+    // Increase speed as aliens are destroyed
+    this.increaseSpeed();
 
-    return pointsScored;
+    this.game.events.emit('alienDestroyed', {
+      type: alien.type,
+      points,
+      position: { x: alien.position.x, y: alien.position.y, z: alien.position.z },
+    });
   }
 
-  // Increase swarm speed as aliens are destroyed
+  // Increase swarm speed along the level's acceleration curve as aliens are destroyed
   private increaseSpeed(): void {
-    const aliveCount = this.getAliveCount();
-    const totalCount = this.rows * this.columns;
+    const { moveInterval, acceleration } = this.level.swarm;
+    if (!acceleration) return;
 
     // Calculate new movement interval based on how many aliens are left
-    const destroyedCount = totalCount - aliveCount;
-    const speedIncrease = destroyedCount * this.speedIncreasePerAlien;
+    const destroyedFraction = 1 - this.getAliveCount() / this.aliens.length;
+    const speedIncrease =
+      acceleration.amount * accelerationProgress(acceleration.curve, destroyedFraction);
 
     // Don't let the interval go below a minimum threshold
-    const minInterval = 0.2;
-    this.moveInterval = Math.max(1.0 - speedIncrease, minInterval);
+    const minInterval = acceleration.minMoveInterval ?? DEFAULT_MIN_MOVE_INTERVAL;
+    this.moveInterval = Math.max(moveInterval * (1 - speedIncrease), minInterval);
   }
 
   // Check if the formation has reached the bottom boundary
   private checkBottomReached(): void {
+    if (this.game.getInvasionRule() !== 'gameOver') {
+      this.landAliens();
+      return;
+    }
     if (this.hasReachedBottom) return;
 
     for (const alien of this.aliens) {
       if (!alien.isDestroyed && alien.hasReachedBottom(this.bottomBoundary)) {
         this.hasReachedBottom = true;
-        if (this.onReachBottom) {
-          this.onReachBottom();
-        }
+        this.game.events.emit('swarmReachedBottom', {});
         break;
       }
     }
   }
 
-  // Set callback for when aliens reach the bottom
-  setOnReachBottomCallback(callback: () => void): void {
-    this.onReachBottom = callback;
+  // Under the shield and lives rules the lowest alien to reach the bottom
+  // lands: it explodes and costs shield or a life, and the rest of the swarm,
+  // its row included, is pushed back up. Aliens land one at a time, so a whole
+  // row arriving together doesn't cost everything at once.
+  private landAliens(): void {
+    if (this.game.getState() !== GameState.PLAYING) return;
+
+    let landed: Alien | null = null;
+    for (const alien of this.aliens) {
+      if (alien.isDestroyed || !alien.hasReachedBottom(this.bottomBoundary)) continue;
+      if (!landed || alien.slot.y < landed.slot.y) landed = alien;
+    }
+    if (!landed) return;
+
+    this.destroyAlien(landed, 0);
+    this.game.handleAlienLanded(landed);
+    if (this.game.getState() !== GameState.PLAYING) return;
+
+    const living = this.aliens.filter((alien) => !alien.isDestroyed);
+    this.pattern.raise(living, this.game.config.invasionPushBack);
+    this.rebuildGrid();
+  }
+
+  // Every alien in the formation, destroyed ones included
+  getAliens(): readonly Alien[] {
+    return this.aliens;
   }
 
   // Get the number of aliens still alive
@@ -304,20 +430,23 @@ export class AlienManager {
 
     // Create new formation
     this.createAlienFormation();
+    this.pattern = createSwarmPattern(this.level.swarm.pattern);
+    this.pattern.start(this.aliens);
 
     // Reset state
     this.moveTimer = 0;
-    this.currentDirection = 'right';
-    this.moveInterval = 1.0;
+    this.moveInterval = this.level.swarm.moveInterval;
     this.hasReachedBottom = false;
+    this.fireCooldowns.clear();
+    this.divers.clear();
+    const dive = findHazard(this.level, 'dive');
+    this.diveTimer = dive ? this.nextDiveDelay(dive.interval ?? DEFAULT_DIVE_INTERVAL) : 0;
   }
 
-  // Set the difficulty level (used for new levels)
-  setDifficulty(level: number): void {
-    // Increase speed and movement based on level
-    this.horizontalSpeed = 1.5 + (level - 1) * 0.3;
-    this.moveDownAmount = 0.5 + (level - 1) * 0.1;
-    this.speedIncreasePerAlien = 0.025 + (level - 1) * 0.005;
+  // Switch to another level's formation, swarm speed and hazards
+  setLevel(level: LevelDefinition): void {
+    this.level = level;
+    this.reset();
   }
 
   // Clean up resources
@@ -326,5 +455,8 @@ export class AlienManager {
       alien.dispose();
     });
     this.aliens = [];
+    this.renderer.dispose();
+    this.grid.clear();
+    this.divers.clear();
   }
 }
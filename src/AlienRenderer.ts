@@ -0,0 +1,378 @@
+import * as THREE from 'three';
+import { Alien } from './Alien';
+import { AlienType, AlienTypeDefinition, getAlienTypeDefinition } from './alienTypes';
+import { RandomService } from './random';
+import { ParticleSystem } from './particles';
+import { ScheduledTask, Scheduler } from './scheduler';
+
+// Every few seconds the whole swarm does a quick spin
+const SPIN_PERIOD = 5;
+const SPIN_DURATION = 1;
+
+// Brightness of a flashing alien, relative to its normal glow
+const FLASH_BRIGHTNESS = 3;
+const HIT_FLASH_DURATION = 0.1;
+// A destroyed alien flashes a few times before it explodes
+const DEATH_FLASHES = 3;
+const DEATH_FLASH_INTERVAL = 0.1;
+
+const BASE_EMISSIVE_INTENSITY = 0.5;
+const CRACKS_PER_HIT = 3;
+
+// Scale that hides an instance
+const HIDDEN = new THREE.Matrix4().makeScale(0, 0, 0);
+const SCALE_ONE = new THREE.Vector3(1, 1, 1);
+
+// One piece of a type's model, drawn once per alien of that type
+interface AlienPart {
+  mesh: THREE.InstancedMesh;
+  offset: THREE.Matrix4; // Transform relative to the alien
+  kind: 'body' | 'detail' | 'antennaTip';
+}
+
+// Everything drawn for the aliens of one type
+interface TypeBatch {
+  aliens: Alien[];
+  parts: AlienPart[];
+  cracks: THREE.InstancedMesh[]; // One mesh per damage stage, the first for one hit taken
+}
+
+// Cosmetic state of a single alien
+interface AlienLook {
+  batch: TypeBatch;
+  index: number; // Instance index in every mesh of the batch
+  blinkInterval: number; // Seconds between antenna blinks
+  crackAngle: number; // Turns the shared crack pattern so damaged aliens differ
+  flashing: boolean;
+  dying: boolean; // Destroyed, but still flashing before it explodes
+  task: ScheduledTask | null; // Pending end of a flash, or the next death flash
+}
+
+// Draws the swarm with one instanced mesh per alien type and model part, so
+// draw calls stay the same however many aliens there are. Aliens only hold
+// simulation state; the spin, hit flashes, damage cracks, blinking antennas and
+// the flash-then-explode of destroyed aliens all live here. Instance colours
+// scale the glow as well as the surface, which is how flashes and damage show.
+export class AlienRenderer {
+  private scene: THREE.Scene;
+  private random: RandomService;
+  private particles: ParticleSystem;
+  private scheduler: Scheduler;
+  private effectsEnabled: boolean;
+  private batches: Map<AlienType, TypeBatch> = new Map();
+  private looks: Map<Alien, AlienLook> = new Map();
+  private time: number = 0;
+
+  private matrix = new THREE.Matrix4();
+  private partMatrix = new THREE.Matrix4();
+  private rotation = new THREE.Quaternion();
+  private color = new THREE.Color();
+  private position = new THREE.Vector3();
+
+  constructor(
+    scene: THREE.Scene,
+    random: RandomService,
+    particles: ParticleSystem,
+    scheduler: Scheduler,
+    effectsEnabled: boolean
+  ) {
+    this.scene = scene;
+    this.random = random;
+    this.particles = particles;
+    this.scheduler = scheduler;
+    this.effectsEnabled = effectsEnabled;
+  }
+
+  // Build the meshes for a new formation, replacing the previous one
+  setAliens(aliens: readonly Alien[]): void {
+    this.clear();
+
+    const byType = new Map<AlienType, Alien[]>();
+    for (const alien of aliens) {
+      const group = byType.get(alien.type) ?? [];
+      group.push(alien);
+      byType.set(alien.type, group);
+    }
+
+    byType.forEach((group, type) => {
+      const batch = this.createBatch(getAlienTypeDefinition(type), group);
+      this.batches.set(type, batch);
+      group.forEach((alien, index) => {
+        this.looks.set(alien, {
+          batch,
+          index,
+          blinkInterval: this.random.cosmetic.range(0.5, 1.0),
+          crackAngle: this.random.cosmetic.range(0, Math.PI * 2),
+          flashing: false,
+          dying: false,
+          task: null,
+        });
+      });
+    });
+    this.updateMeshes(1);
+  }
+
+  private createBatch(definition: AlienTypeDefinition, aliens: Alien[]): TypeBatch {
+    const count = aliens.length;
+    const size = aliens[0].size;
+    const parts: AlienPart[] = [];
+    const addPart = (
+      geometry: THREE.BufferGeometry,
+      material: THREE.Material,
+      offset: THREE.Matrix4,
+      kind: AlienPart['kind']
+    ): THREE.InstancedMesh => {
+      const mesh = new THREE.InstancedMesh(geometry, material, count);
+      // Instances move all over the play field, so the mesh's bounds never hold for long
+      mesh.frustumCulled = false;
+      this.scene.add(mesh);
+      parts.push({ mesh, offset, kind });
+      return mesh;
+    };
+
+    const bodyMaterial = new THREE.MeshStandardMaterial({
+      color: definition.color,
+      emissive: definition.color,
+      emissiveIntensity: BASE_EMISSIVE_INTENSITY,
+      metalness: 0.8,
+      roughness: 0.2,
+    });
+    bodyMaterial.onBeforeCompile = tintEmissive;
+    const body = addPart(
+      definition.createGeometry(size),
+      bodyMaterial,
+      new THREE.Matrix4(),
+      'body'
+    );
+    body.castShadow = true;
+    body.receiveShadow = true;
+    for (let i = 0; i < count; i++) {
+      body.setColorAt(i, this.color.setScalar(1));
+    }
+
+    const { eyes } = definition;
+    const eyeGeometry = new THREE.SphereGeometry(eyes.size, 16, 16);
+    const eyeMaterial = new THREE.MeshBasicMaterial({ color: eyes.color });
+    for (const side of [-1, 1]) {
+      const offset = new THREE.Matrix4().makeTranslation(
+        side * eyes.spacing,
+        eyes.size * 1.5,
+        eyes.size * 4
+      );
+      addPart(eyeGeometry, eyeMaterial, offset, 'detail');
+    }
+
+    if (definition.antennaHeight !== undefined) {
+      const height = definition.antennaHeight;
+      const antennaMaterial = new THREE.MeshStandardMaterial({
+        color: 0xffff00,
+        emissive: 0xffff00,
+        emissiveIntensity: 0.8,
+      });
+      addPart(
+        new THREE.CylinderGeometry(0.05, 0.05, height, 8),
+        antennaMaterial,
+        new THREE.Matrix4().makeTranslation(0, height / 2 + 0.2, 0),
+        'detail'
+      );
+      addPart(
+        new THREE.SphereGeometry(0.1, 8, 8),
+        new THREE.MeshBasicMaterial({ color: 0xffff66 }),
+        new THREE.Matrix4().makeTranslation(0, height + 0.2, 0),
+        'antennaTip'
+      );
+    }
+
+    for (const detail of definition.createDetails?.(size) ?? []) {
+      detail.updateMatrix();
+      addPart(detail.geometry, detail.material as THREE.Material, detail.matrix.clone(), 'detail');
+    }
+
+    // Cracks spread with each hit taken, up to one hit short of destruction
+    const cracks: THREE.InstancedMesh[] = [];
+    const crackMaterial = new THREE.MeshBasicMaterial({ color: 0x111111 });
+    let crackVertices: number[] = [];
+    for (let stage = 1; stage < definition.hitPoints; stage++) {
+      crackVertices = crackVertices.concat(this.createCrackVertices(size, CRACKS_PER_HIT));
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute(crackVertices, 3));
+      const mesh = new THREE.InstancedMesh(geometry, crackMaterial, count);
+      mesh.frustumCulled = false;
+      this.scene.add(mesh);
+      cracks.push(mesh);
+    }
+
+    return { aliens, parts, cracks };
+  }
+
+  // Jagged dark lines across the front of an alien, each a short random walk
+  // out from near the centre, as thin strips of two triangles per segment
+  private createCrackVertices(
+    size: { width: number; height: number; depth: number },
+    count: number
+  ): number[] {
+    const random = this.random.cosmetic;
+    const segmentLength = size.width * 0.12;
+    const halfThickness = 0.015;
+    const z = size.depth * 0.4;
+
+    const vertices: number[] = [];
+    for (let i = 0; i < count; i++) {
+      let x = random.range(-0.15, 0.15) * size.width;
+      let y = random.range(-0.15, 0.15) * size.height;
+      let angle = random.range(0, Math.PI * 2);
+
+      for (let segment = 0; segment < 4; segment++) {
+        angle += random.range(-0.7, 0.7);
+        const nextX = x + Math.cos(angle) * segmentLength;
+        const nextY = y + Math.sin(angle) * segmentLength;
+        const nx = -Math.sin(angle) * halfThickness;
+        const ny = Math.cos(angle) * halfThickness;
+        vertices.push(x - nx, y - ny, z, nextX - nx, nextY - ny, z, nextX + nx, nextY + ny, z);
+        vertices.push(x - nx, y - ny, z, nextX + nx, nextY + ny, z, x + nx, y + ny, z);
+        x = nextX;
+        y = nextY;
+      }
+    }
+    return vertices;
+  }
+
+  // Flash an alien that took a hit and survived
+  flash(alien: Alien): void {
+    const look = this.looks.get(alien);
+    if (!look) return;
+
+    look.task?.cancel();
+    look.flashing = true;
+    look.task = this.scheduler.after(HIT_FLASH_DURATION, () => {
+      look.flashing = false;
+      look.task = null;
+    });
+  }
+
+  // A destroyed alien flashes a few times and then explodes. Without effects
+  // (headless runs) it simply vanishes.
+  destroy(alien: Alien): void {
+    const look = this.looks.get(alien);
+    if (!look || !this.effectsEnabled) return;
+
+    look.task?.cancel();
+    look.dying = true;
+    look.flashing = true;
+    const runs = DEATH_FLASHES * 2;
+    look.task = this.scheduler.every(
+      DEATH_FLASH_INTERVAL,
+      (run) => {
+        look.flashing = run % 2 === 0;
+        if (run < runs) return;
+
+        look.dying = false;
+        look.task = null;
+        this.particles.emit('explosion', alien.position, getAlienTypeDefinition(alien.type).color);
+      },
+      runs
+    );
+  }
+
+  // Advance the swarm's spin and antenna blinks by a simulation tick
+  update(deltaTime: number): void {
+    this.time += deltaTime;
+  }
+
+  // Write every alien's transform and colour, interpolated between the last two ticks
+  updateMeshes(alpha: number): void {
+    const spin = Math.min((this.time % SPIN_PERIOD) / SPIN_DURATION, 1) * Math.PI * 2;
+    this.rotation.setFromAxisAngle(THREE.Object3D.DEFAULT_UP, spin);
+
+    this.looks.forEach((look, alien) => {
+      const { batch, index } = look;
+      const visible = !alien.isDestroyed || look.dying;
+
+      this.position.lerpVectors(alien.previousPosition, alien.position, alpha);
+      this.matrix.compose(this.position, this.rotation, SCALE_ONE);
+
+      for (const part of batch.parts) {
+        const shown = visible && (part.kind !== 'antennaTip' || this.isAntennaLit(look));
+        part.mesh.setMatrixAt(
+          index,
+          shown ? this.partMatrix.multiplyMatrices(this.matrix, part.offset) : HIDDEN
+        );
+        if (part.kind === 'body') {
+          part.mesh.setColorAt(index, this.color.setScalar(this.brightness(alien, look)));
+        }
+      }
+
+      // Only the crack stage matching the damage taken is shown
+      const stage = alien.maxHitPoints - alien.hitPoints - 1;
+      batch.cracks.forEach((mesh, crackStage) => {
+        if (!visible || crackStage !== stage) {
+          mesh.setMatrixAt(index, HIDDEN);
+          return;
+        }
+        this.partMatrix.makeRotationZ(look.crackAngle).premultiply(this.matrix);
+        mesh.setMatrixAt(index, this.partMatrix);
+      });
+    });
+
+    this.batches.forEach((batch) => {
+      for (const { mesh } of batch.parts) {
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+      }
+      batch.cracks.forEach((mesh) => (mesh.instanceMatrix.needsUpdate = true));
+    });
+  }
+
+  // The antenna light toggles every blink interval, starting lit
+  private isAntennaLit(look: AlienLook): boolean {
+    return Math.floor(this.time / look.blinkInterval) % 2 === 0;
+  }
+
+  // Instance colour of the body: the glow dims as hit points drop and flares
+  // while flashing
+  private brightness(alien: Alien, look: AlienLook): number {
+    if (look.flashing) return FLASH_BRIGHTNESS;
+    if (look.dying) return 1;
+
+    const health = alien.hitPoints / alien.maxHitPoints;
+    return 0.2 + 0.8 * health;
+  }
+
+  // Remove every mesh and cancel pending flashes
+  clear(): void {
+    this.looks.forEach((look) => look.task?.cancel());
+
+    // Parts can share geometry and materials, e.g. the two eyes
+    const resources = new Set<{ dispose(): void }>();
+    this.batches.forEach((batch) => {
+      for (const mesh of [...batch.parts.map((part) => part.mesh), ...batch.cracks]) {
+        mesh.removeFromParent();
+        mesh.dispose();
+        resources.add(mesh.geometry);
+        resources.add(mesh.material as THREE.Material);
+      }
+    });
+    resources.forEach((resource) => resource.dispose());
+    this.batches.clear();
+    this.looks.clear();
+    this.time = 0;
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+}
+
+// Let the instance colour scale the emissive glow too; three.js only applies
+// it to the diffuse colour
+function tintEmissive(shader: THREE.WebGLProgramParametersWithUniforms): void {
+  shader.fragmentShader = shader.fragmentShader.replace(
+    '#include <emissivemap_fragment>',
+    [
+      '#include <emissivemap_fragment>',
+      '#if defined( USE_COLOR ) || defined( USE_COLOR_ALPHA )',
+      '\ttotalEmissiveRadiance *= vColor.rgb;',
+      '#endif',
+    ].join('\n')
+  );
+}
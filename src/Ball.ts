@@ -1,16 +1,26 @@
 import * as THREE from 'three';
 import { GameObject } from './types';
-import { PlayState } from './playState';
+import { GameSimulation } from './gameSimulation';
+import { RandomService } from './random';
+
+// Glow and trail colours for the balls in play, so each ball of a multiball
+// can be told apart; the first ball keeps the classic blue
+export const BALL_COLORS = [0x88aaff, 0xff8866, 0x88ff99, 0xffdd55];
 
 // Import the debug flag
 const DEBUG_COLLISION_BOUNDARIES = false; // This will be overridden by the value in playState.ts
 
 export class Ball implements GameObject {
-  private game: PlayState;
+  private game: GameSimulation;
+  private random: RandomService;
   public mesh: THREE.Mesh;
   public position: THREE.Vector3;
   public velocity: THREE.Vector3;
   public size: { radius: number };
+  public readonly color: number; // Glow and trail
+
+  // Position at the start of the current tick, used to interpolate rendering
+  public previousPosition: THREE.Vector3;
 
   // Flag to track if the ball is attached to the paddle
   public isAttachedToPaddle: boolean = true;
@@ -19,27 +29,30 @@ export class Ball implements GameObject {
   public collisionHelper: THREE.Mesh | null = null;
 
   private radius: number;
-  private initialVelocity: { x: number; y: number; z: number };
   private maxSpeed: number = 20;
-  private trailParticles: THREE.Points[] = [];
   private scene: THREE.Scene;
-  private trailLifetime: number = 0.5; // Trail lifetime in seconds
   private trailInterval: number = 0.05; // Time between trail particles
   private lastTrailTime: number = 0;
+  private elapsedTime: number = 0; // Simulation time, advanced only by ticks
 
   constructor(
-    game: PlayState,
+    game: GameSimulation,
+    random: RandomService,
     radius: number,
     position: { x: number; y: number; z: number },
-    scene: THREE.Scene
+    scene: THREE.Scene,
+    color: number
   ) {
     this.game = game;
+    this.random = random;
     this.radius = radius;
     this.scene = scene;
     this.size = { radius };
+    this.color = color;
 
     // Create position and velocity vectors
     this.position = new THREE.Vector3(position.x, position.y, position.z);
+    this.previousPosition = this.position.clone();
     this.velocity = new THREE.Vector3(0, 0, 0);
 
     // Create ball geometry
@@ -48,7 +61,7 @@ export class Ball implements GameObject {
     // Create material with glowing effect
     const material = new THREE.MeshStandardMaterial({
       color: 0xffffff,
-      emissive: 0x88aaff,
+      emissive: color,
       emissiveIntensity: 0.8,
       metalness: 0.5,
       roughness: 0.2,
@@ -60,25 +73,18 @@ export class Ball implements GameObject {
     this.mesh.receiveShadow = true;
     this.mesh.position.copy(this.position);
 
-    // Save initial velocity for resets
-    this.initialVelocity = {
-      x: (Math.random() * 2 - 1) * 5, // Random X direction
-      y: -8, // Always start moving down
-      z: 0, // No Z velocity initially
-    };
-
     // Don't apply initial velocity when creating the ball
     // This will be applied when the ball is released from the paddle
 
     // Add point light to ball for glow effect
-    const light = new THREE.PointLight(0x88aaff, 1, 10);
+    const light = new THREE.PointLight(color, 1, 10);
     light.position.set(0, 0, 0);
     this.mesh.add(light);
 
     // Create a larger, transparent sphere for glow effect
     const glowGeometry = new THREE.SphereGeometry(radius * 1.5, 24, 16);
     const glowMaterial = new THREE.MeshBasicMaterial({
-      color: 0x88aaff,
+      color,
       transparent: true,
       opacity: 0.3,
       side: THREE.BackSide,
@@ -122,26 +128,24 @@ export class Ball implements GameObject {
     }
   }
 
+  // Remember where the ball was at the start of the tick
+  storePreviousPosition(): void {
+    this.previousPosition.copy(this.position);
+  }
+
   update(deltaTime: number): void {
+    this.elapsedTime += deltaTime;
+
     // If attached to paddle, don't update physics
     if (this.isAttachedToPaddle) {
       return;
     }
-    // Update position based on velocity
-    this.position.x += this.velocity.x * deltaTime;
-    this.position.y += this.velocity.y * deltaTime;
-    this.position.z += this.velocity.z * deltaTime;
 
-    // Update mesh position from physics body
-    this.mesh.position.copy(this.position);
-
-    // Update collision helper position
-    if (this.collisionHelper) {
-      this.collisionHelper.position.copy(this.position);
-    }
+    // The simulation moves the ball with swept collision detection before
+    // this runs, so only the trail and speed limits are handled here
 
     // Create trail effect
-    this.updateTrail(deltaTime);
+    this.updateTrail();
 
     // Enforce maximum speed
     this.enforceMaxSpeed();
@@ -164,9 +168,6 @@ export class Ball implements GameObject {
 
     // Zero out velocity while attached
     this.velocity.set(0, 0, 0);
-
-    // Clear trail particles
-    this.clearTrail();
   }
 
   // Release the ball from the paddle with initial velocity
@@ -177,7 +178,7 @@ export class Ball implements GameObject {
 
     // Apply initial velocity upward with random x direction
     const releaseVelocity = {
-      x: (Math.random() * 2 - 1) * 5, // Random X direction
+      x: this.random.gameplay.range(-5, 5), // Random X direction
       y: 8, // Always start moving up
       z: 0, // No Z velocity initially
     };
@@ -185,84 +186,43 @@ export class Ball implements GameObject {
     this.applyVelocity(releaseVelocity);
   }
 
-  private updateTrail(deltaTime: number): void {
-    // Don't create trail when attached to paddle
-    if (this.isAttachedToPaddle) return;
+  // Send the ball off from where it is, e.g. an extra ball split off another
+  launch(velocity: { x: number; y: number; z: number }): void {
+    this.isAttachedToPaddle = false;
+    this.applyVelocity(velocity);
+  }
 
-    const now = performance.now() / 1000;
+  // Place the mesh between the previous and current tick positions
+  updateMesh(alpha: number): void {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
 
-    // Add new trail particle at intervals
-    if (now - this.lastTrailTime > this.trailInterval) {
-      this.lastTrailTime = now;
-      this.addTrailParticle();
+    // Update collision helper position
+    if (this.collisionHelper) {
+      this.collisionHelper.position.copy(this.mesh.position);
     }
-
-    // Update existing trail particles
-    this.trailParticles.forEach((particle, index) => {
-      const age = now - particle.userData.creationTime;
-      const lifeRatio = age / this.trailLifetime;
-
-      // Update opacity based on age
-      if (particle.material instanceof THREE.PointsMaterial) {
-        particle.material.opacity = 1 - lifeRatio;
-      }
-
-      // Remove if too old
-      if (age > this.trailLifetime) {
-        if (this.scene) {
-          this.scene.remove(particle);
-          if (particle.material instanceof THREE.Material) {
-            particle.material.dispose();
-          }
-          if (particle.geometry) {
-            particle.geometry.dispose();
-          }
-        }
-        this.trailParticles.splice(index, 1);
-      }
-    });
   }
 
-  private addTrailParticle(): void {
-    if (!this.scene) return;
-
-    // Create particle geometry
-    const geometry = new THREE.BufferGeometry();
-    const posArray = new Float32Array(3);
-    posArray[0] = this.position.x;
-    posArray[1] = this.position.y;
-    posArray[2] = this.position.z;
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(posArray, 3));
-
-    // Create material
-    const material = new THREE.PointsMaterial({
-      color: 0x88aaff,
-      size: this.radius * 1.8,
-      transparent: true,
-      opacity: 0.7,
-      blending: THREE.AdditiveBlending,
-    });
-
-    // Create particle
-    const particle = new THREE.Points(geometry, material);
-    particle.userData.creationTime = performance.now() / 1000;
-
-    // Add to scene and trail array
-    this.scene.add(particle);
-    this.trailParticles.push(particle);
+  // Leave a glow behind the ball at regular intervals
+  private updateTrail(): void {
+    const now = this.elapsedTime;
+    if (now - this.lastTrailTime > this.trailInterval) {
+      this.lastTrailTime = now;
+      this.game.particles.emit('trail', this.position, this.color);
+    }
   }
 
   private enforceMaxSpeed(): void {
+    // Adaptive difficulty can raise or lower the top speed
+    const maxSpeed = this.maxSpeed * this.game.difficulty.getModifiers().ballMaxSpeed;
     const speed = Math.sqrt(
       this.velocity.x * this.velocity.x +
         this.velocity.y * this.velocity.y +
         this.velocity.z * this.velocity.z
     );
 
-    if (speed > this.maxSpeed) {
+    if (speed > maxSpeed) {
       // Scale down velocity to max speed
-      const scale = this.maxSpeed / speed;
+      const scale = maxSpeed / speed;
       this.velocity.x *= scale;
       this.velocity.y *= scale;
       this.velocity.z *= scale;
@@ -285,8 +245,9 @@ export class Ball implements GameObject {
 
   // Reset the ball position and apply a new random velocity
   reset(position: { x: number; y: number; z: number }): void {
-    // Reset position
+    // Reset position without interpolating from the old one
     this.position.set(position.x, position.y, position.z);
+    this.storePreviousPosition();
     this.mesh.position.copy(this.position);
 
     // Set as attached to paddle
@@ -294,42 +255,24 @@ export class Ball implements GameObject {
 
     // Reset velocity to zero (will be set when released)
     this.velocity.set(0, 0, 0);
-
-    // Clear trail particles
-    this.clearTrail();
   }
 
-  // Clear all trail particles
-  private clearTrail(): void {
-    if (!this.scene) return;
-
-    this.trailParticles.forEach((particle) => {
-      this.scene?.remove(particle);
-      if (particle.material instanceof THREE.Material) {
-        particle.material.dispose();
-      }
-      if (particle.geometry) {
-        particle.geometry.dispose();
-      }
-    });
-
-    this.trailParticles = [];
-  }
-
-  // Clean up resources
+  // Clean up resources, glow included, as extra balls come and go during play
   dispose(): void {
     if (this.mesh.parent) {
       this.mesh.parent.remove(this.mesh);
     }
+    this.removeCollisionHelper();
 
-    this.clearTrail();
-
-    if (this.mesh.geometry) {
-      this.mesh.geometry.dispose();
-    }
-
-    if (this.mesh.material instanceof THREE.Material) {
-      this.mesh.material.dispose();
-    }
+    this.mesh.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        if (object.material instanceof THREE.Material) {
+          object.material.dispose();
+        }
+      } else if (object instanceof THREE.PointLight) {
+        object.dispose();
+      }
+    });
   }
 }
@@ -0,0 +1,344 @@
+import * as THREE from 'three';
+import { GameObject } from './types';
+import { CollisionShape, createShapeHelper, disposeShapeHelper } from './collision';
+import { SeededRandom } from './random';
+
+// Armored wings, destructible weak points, and the core that can only be
+// damaged once every weak point is gone
+export type BossPartKind = 'hull' | 'weakPoint' | 'core';
+
+// One piece of the boss. Collision shapes carry their offset from the boss's
+// centre, so they are all tested at the boss's position.
+export interface BossPart {
+  kind: BossPartKind;
+  collisionShape: CollisionShape;
+  hitPoints: number; // Hull parts are never damaged
+  maxHitPoints: number;
+  isDestroyed: boolean;
+  mesh: THREE.Mesh;
+}
+
+// Scripted entry, three attack phases as it loses weak points, then the death sequence
+export type BossPhase = 'entering' | 'assault' | 'frenzy' | 'exposed' | 'dying' | 'defeated';
+
+const ENTRY_DURATION = 3; // Seconds to descend onto its station
+const ENTRY_HEIGHT = 12; // How far above its station it starts
+const DEATH_DURATION = 2.5; // Seconds of shaking and explosions before it blows up
+const WEAK_POINT_HIT_POINTS = 3;
+const CORE_HIT_POINTS = 8;
+
+// How the boss sways in each attack phase
+const SWAY: Partial<Record<BossPhase, { amplitude: number; frequency: number; drop: number }>> = {
+  assault: { amplitude: 5, frequency: 0.5, drop: 0 },
+  frenzy: { amplitude: 6, frequency: 0.8, drop: 0 },
+  exposed: { amplitude: 6.5, frequency: 1.1, drop: 2 },
+};
+
+// A large multi-part enemy that guards every boss level. It flies in from
+// above, sways across the top of the play field and gets more aggressive as its
+// weak points are destroyed. BossManager handles firing, scoring and events.
+export class Boss implements GameObject {
+  public mesh: THREE.Mesh;
+  public position: THREE.Vector3;
+  public velocity: THREE.Vector3;
+  public size: { width: number; height: number; depth: number };
+
+  public phase: BossPhase = 'entering';
+  public parts: BossPart[] = [];
+
+  // Position at the start of the current tick, used to interpolate rendering
+  public previousPosition: THREE.Vector3;
+  public collisionHelper: THREE.Object3D | null = null;
+
+  private random: SeededRandom;
+  private station: THREE.Vector3; // Centre of the sway once it has arrived
+  private phaseTime: number = 0; // Seconds since the current phase began
+  private swayTime: number = 0; // Keeps the sway continuous across phase changes
+  private shake: THREE.Vector3 = new THREE.Vector3(); // Cosmetic, while dying
+
+  constructor(station: { x: number; y: number; z: number }, random: SeededRandom) {
+    this.random = random;
+    this.size = { width: 10, height: 3.5, depth: 3 };
+    this.station = new THREE.Vector3(station.x, station.y, station.z);
+    this.position = new THREE.Vector3(station.x, station.y + ENTRY_HEIGHT, station.z);
+    this.previousPosition = this.position.clone();
+    this.velocity = new THREE.Vector3();
+
+    // The core is the boss's own mesh; everything else hangs off it
+    const core = new THREE.Mesh(
+      new THREE.IcosahedronGeometry(1.3, 1),
+      new THREE.MeshStandardMaterial({
+        color: 0x661122,
+        emissive: 0xff2200,
+        emissiveIntensity: 0.2,
+        metalness: 0.9,
+        roughness: 0.3,
+        flatShading: true,
+      })
+    );
+    this.mesh = core;
+    this.mesh.position.copy(this.position);
+    this.parts.push({
+      kind: 'core',
+      collisionShape: { kind: 'circle', radius: 1.3 },
+      hitPoints: CORE_HIT_POINTS,
+      maxHitPoints: CORE_HIT_POINTS,
+      isDestroyed: false,
+      mesh: core,
+    });
+
+    for (const side of [-1, 1]) {
+      this.addWing(side);
+      // Cannon underneath the wing and an engine pod on top
+      this.addWeakPoint({ x: side * 2.6, y: -1.1 }, 0xff8800);
+      this.addWeakPoint({ x: side * 3.4, y: 1.1 }, 0xff00cc);
+    }
+  }
+
+  private addWing(side: number): void {
+    const radius = 0.7;
+    const halfLength = 1.1;
+    const wing = new THREE.Mesh(
+      new THREE.CapsuleGeometry(radius, halfLength * 2, 4, 12),
+      new THREE.MeshStandardMaterial({ color: 0x556677, metalness: 0.9, roughness: 0.35 })
+    );
+    wing.rotation.z = Math.PI / 2;
+    wing.position.set(side * 2.8, 0, 0);
+    this.mesh.add(wing);
+
+    this.parts.push({
+      kind: 'hull',
+      collisionShape: {
+        kind: 'capsule',
+        radius,
+        halfLength,
+        axis: 'x',
+        offset: { x: side * 2.8, y: 0 },
+      },
+      hitPoints: 0,
+      maxHitPoints: 0,
+      isDestroyed: false,
+      mesh: wing,
+    });
+  }
+
+  private addWeakPoint(offset: { x: number; y: number }, color: number): void {
+    const radius = 0.55;
+    const weakPoint = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 16, 12),
+      new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.8 })
+    );
+    weakPoint.position.set(offset.x, offset.y, 0);
+    this.mesh.add(weakPoint);
+
+    this.parts.push({
+      kind: 'weakPoint',
+      collisionShape: { kind: 'circle', radius, offset },
+      hitPoints: WEAK_POINT_HIT_POINTS,
+      maxHitPoints: WEAK_POINT_HIT_POINTS,
+      isDestroyed: false,
+      mesh: weakPoint,
+    });
+  }
+
+  // Parts the ball can still hit
+  getSolidParts(): BossPart[] {
+    if (this.phase === 'dying' || this.phase === 'defeated') return [];
+    return this.parts.filter((part) => !part.isDestroyed);
+  }
+
+  getWeakPointsLeft(): number {
+    return this.parts.filter((part) => part.kind === 'weakPoint' && !part.isDestroyed).length;
+  }
+
+  // Remaining hit points of the weak points and core, from 1 down to 0
+  getHealth(): number {
+    let hitPoints = 0;
+    let maxHitPoints = 0;
+    for (const part of this.parts) {
+      hitPoints += part.hitPoints;
+      maxHitPoints += part.maxHitPoints;
+    }
+    return hitPoints / maxHitPoints;
+  }
+
+  // Whether a hit on this part does damage right now
+  isVulnerable(part: BossPart): boolean {
+    if (part.isDestroyed) return false;
+    switch (part.kind) {
+      case 'hull':
+        return false;
+      case 'weakPoint':
+        return this.phase === 'assault' || this.phase === 'frenzy';
+      case 'core':
+        return this.phase === 'exposed';
+    }
+  }
+
+  // Take a hit point off a part. Returns true if that destroyed it.
+  damage(part: BossPart): boolean {
+    if (!this.isVulnerable(part)) return false;
+
+    part.hitPoints--;
+    const material = part.mesh.material as THREE.MeshStandardMaterial;
+    if (part.hitPoints > 0) {
+      // Fade the glow as the part wears down
+      material.emissiveIntensity = 0.2 + 0.6 * (part.hitPoints / part.maxHitPoints);
+      return false;
+    }
+
+    part.isDestroyed = true;
+    if (part.kind === 'weakPoint') {
+      // Leave a burnt-out socket behind
+      material.color.setHex(0x222222);
+      material.emissiveIntensity = 0;
+      part.mesh.scale.setScalar(0.6);
+    }
+    return true;
+  }
+
+  // Pick the attack phase for the weak points left, or start the death sequence
+  // once the core is destroyed. Returns true if the phase changed.
+  updatePhase(): boolean {
+    if (this.phase === 'entering' || this.phase === 'dying' || this.phase === 'defeated') {
+      return false;
+    }
+
+    const core = this.parts.find((part) => part.kind === 'core')!;
+    const weakPointsLeft = this.getWeakPointsLeft();
+    let phase: BossPhase;
+    if (core.isDestroyed) {
+      phase = 'dying';
+    } else if (weakPointsLeft === 0) {
+      phase = 'exposed';
+    } else if (weakPointsLeft <= 2) {
+      phase = 'frenzy';
+    } else {
+      phase = 'assault';
+    }
+
+    if (phase === this.phase) return false;
+    this.setPhase(phase);
+    return true;
+  }
+
+  private setPhase(phase: BossPhase): void {
+    this.phase = phase;
+    this.phaseTime = 0;
+
+    if (phase === 'exposed') {
+      // The core heats up once nothing protects it
+      const material = this.mesh.material as THREE.MeshStandardMaterial;
+      material.emissiveIntensity = 1.0;
+    }
+  }
+
+  // Seconds since the current phase began
+  getPhaseTime(): number {
+    return this.phaseTime;
+  }
+
+  // True once the death sequence has run its course
+  isDeathSequenceOver(): boolean {
+    return this.phase === 'dying' && this.phaseTime >= DEATH_DURATION;
+  }
+
+  markDefeated(): void {
+    this.setPhase('defeated');
+    this.mesh.visible = false;
+  }
+
+  // Remember where the boss was at the start of the tick
+  storePreviousPosition(): void {
+    this.previousPosition.copy(this.position);
+  }
+
+  update(deltaTime: number): void {
+    this.phaseTime += deltaTime;
+
+    switch (this.phase) {
+      case 'entering': {
+        // Ease out of the descent onto the station
+        const progress = Math.min(this.phaseTime / ENTRY_DURATION, 1);
+        const eased = 1 - Math.pow(1 - progress, 3);
+        this.position.y = this.station.y + ENTRY_HEIGHT * (1 - eased);
+        if (progress >= 1) {
+          this.setPhase('assault');
+        }
+        break;
+      }
+      case 'dying':
+        // Shudder in place while it breaks apart
+        this.shake.set(this.random.range(-0.2, 0.2), this.random.range(-0.2, 0.2), 0);
+        break;
+      case 'defeated':
+        break;
+      default: {
+        const sway = SWAY[this.phase]!;
+        this.swayTime += deltaTime * sway.frequency;
+        this.position.x = this.station.x + Math.sin(this.swayTime) * sway.amplitude;
+        // Ease down towards the lower station of the phase
+        const targetY = this.station.y - sway.drop;
+        this.position.y += (targetY - this.position.y) * Math.min(deltaTime * 2, 1);
+        break;
+      }
+    }
+
+    this.mesh.rotation.y = Math.sin(this.phaseTime * 0.7) * 0.15;
+  }
+
+  // Place the mesh between the previous and current tick positions
+  updateMesh(alpha: number): void {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha).add(this.shake);
+
+    if (this.collisionHelper) {
+      this.collisionHelper.position.copy(this.mesh.position);
+    }
+  }
+
+  // Where a part is in the world, for aiming shots and placing explosions
+  getPartPosition(part: BossPart): THREE.Vector3 {
+    const shape = part.collisionShape;
+    const offset = shape.kind === 'compound' ? undefined : shape.offset;
+    return new THREE.Vector3(
+      this.position.x + (offset?.x ?? 0),
+      this.position.y + (offset?.y ?? 0),
+      this.position.z
+    );
+  }
+
+  public createCollisionHelper(): void {
+    if (this.collisionHelper || !this.mesh.parent) {
+      return;
+    }
+    this.collisionHelper = createShapeHelper(
+      { kind: 'compound', parts: this.getSolidParts().map((part) => part.collisionShape) },
+      0xff2244
+    );
+    this.collisionHelper.position.copy(this.position);
+    this.mesh.parent.add(this.collisionHelper);
+  }
+
+  public removeCollisionHelper(): void {
+    if (this.collisionHelper) {
+      disposeShapeHelper(this.collisionHelper);
+      this.collisionHelper = null;
+    }
+  }
+
+  dispose(): void {
+    this.removeCollisionHelper();
+
+    if (this.mesh.parent) {
+      this.mesh.parent.remove(this.mesh);
+    }
+    this.mesh.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        if (object.material instanceof THREE.Material) {
+          object.material.dispose();
+        }
+      }
+    });
+  }
+}
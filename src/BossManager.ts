@@ -0,0 +1,236 @@
+import * as THREE from 'three';
+import { Boss, BossPart } from './Boss';
+import { GameSimulation } from './gameSimulation';
+import { LevelDefinition } from './levels';
+import { Sweep, SweepHit, sweepVsShape } from './collision';
+
+// Boss levels have no formation; the AlienManager runs this empty level meanwhile
+export const BOSS_LEVEL: LevelDefinition = {
+  name: 'Boss',
+  formation: { kind: 'freeform', aliens: [] },
+  swarm: { horizontalSpeed: 0, moveDownAmount: 0, moveInterval: 1 },
+};
+
+// Height below the top wall the boss sways at
+const STATION_MARGIN = 8;
+const WEAK_POINT_POINTS = 250;
+const DEFEAT_POINTS = 2000;
+const PROJECTILE_SPEED = 9;
+// Widest angle from straight down an aimed shot leaves at
+const MAX_AIM_ANGLE = 0.6;
+const SPREAD_ANGLE = 0.35; // Between the shots of a spread
+
+// Seconds between volleys in each attack phase
+const FIRE_INTERVAL = { assault: 1.2, frenzy: 1.4, exposed: 0.8 };
+const DEATH_EXPLOSION_INTERVAL = 0.25;
+
+// What a ball hit did to the boss
+export type BossHitResult = 'blocked' | 'damaged' | 'destroyed';
+
+// Runs the boss fight on boss levels: brings the boss in, fires its volleys,
+// applies ball hits and plays the death sequence. Scoring goes through the
+// bossWeakPointDestroyed and bossDefeated events, like the other enemies.
+export class BossManager {
+  private game: GameSimulation;
+  private scene: THREE.Scene;
+  private boss: Boss | null = null;
+  private defeated: boolean = false;
+  private fireTimer: number = 0;
+  private explosionTimer: number = 0;
+
+  constructor(game: GameSimulation, scene: THREE.Scene) {
+    this.game = game;
+    this.scene = scene;
+  }
+
+  // The boss of the current level, if it has one and it is still around
+  getBoss(): Boss | null {
+    return this.boss;
+  }
+
+  // True once this level's boss has been destroyed and its death sequence is over
+  isDefeated(): boolean {
+    return this.defeated;
+  }
+
+  // Bring in a new boss above the play field; its entry plays once play starts
+  spawn(): void {
+    this.reset();
+
+    const { maxY } = this.game.worldBounds;
+    const boss = new Boss({ x: 0, y: maxY - STATION_MARGIN, z: 0 }, this.game.random.cosmetic);
+    this.scene.add(boss.mesh);
+    if (this.game.debugCollisionBoundaries) {
+      boss.createCollisionHelper();
+    }
+    this.boss = boss;
+    this.fireTimer = FIRE_INTERVAL.assault;
+
+    this.game.events.emit('bossSpawned', { position: this.positionOf(boss.position) });
+  }
+
+  storePreviousPositions(): void {
+    this.boss?.storePreviousPosition();
+  }
+
+  updateMeshes(alpha: number): void {
+    this.boss?.updateMesh(alpha);
+  }
+
+  update(deltaTime: number): void {
+    const boss = this.boss;
+    if (!boss || boss.phase === 'defeated') return;
+
+    const phase = boss.phase;
+    boss.update(deltaTime);
+    if (boss.phase !== phase) {
+      this.game.events.emit('bossPhaseChanged', { phase: boss.phase });
+    }
+
+    switch (boss.phase) {
+      case 'entering':
+        break;
+      case 'dying':
+        this.updateDeathSequence(boss, deltaTime);
+        break;
+      default:
+        this.fireTimer -= deltaTime;
+        if (this.fireTimer <= 0) {
+          this.fireTimer = FIRE_INTERVAL[boss.phase];
+          this.fireVolley(boss);
+        }
+        break;
+    }
+  }
+
+  // A random weak point shoots at the paddle, three shots at a time once the
+  // boss is in a frenzy; with them all gone, the core fires on its own
+  private fireVolley(boss: Boss): void {
+    const shooters = boss.parts.filter((part) =>
+      boss.phase === 'exposed'
+        ? part.kind === 'core'
+        : part.kind === 'weakPoint' && !part.isDestroyed
+    );
+    if (shooters.length === 0) return;
+
+    const origin = boss.getPartPosition(this.game.random.gameplay.pick(shooters));
+    origin.y -= 0.8;
+    const angle = this.aimAt(origin);
+    if (boss.phase === 'frenzy') {
+      for (const spread of [-SPREAD_ANGLE, 0, SPREAD_ANGLE]) {
+        this.game.projectiles.fire(origin, PROJECTILE_SPEED, angle + spread);
+      }
+    } else {
+      this.game.projectiles.fire(origin, PROJECTILE_SPEED, angle);
+    }
+  }
+
+  // Angle from straight down towards the nearest paddle, within MAX_AIM_ANGLE
+  private aimAt(origin: THREE.Vector3): number {
+    let target: THREE.Vector3 | null = null;
+    for (const paddle of this.game.paddles) {
+      if (!target || origin.distanceTo(paddle.position) < origin.distanceTo(target)) {
+        target = paddle.position;
+      }
+    }
+    if (!target) return 0;
+
+    const angle = Math.atan2(target.x - origin.x, origin.y - target.y);
+    return THREE.MathUtils.clamp(angle, -MAX_AIM_ANGLE, MAX_AIM_ANGLE);
+  }
+
+  // Explosions ripple over the boss while it shakes, then one big blast
+  private updateDeathSequence(boss: Boss, deltaTime: number): void {
+    this.explosionTimer -= deltaTime;
+    if (this.explosionTimer <= 0) {
+      this.explosionTimer = DEATH_EXPLOSION_INTERVAL;
+      const part = this.game.random.cosmetic.pick(boss.parts);
+      this.explode(boss.getPartPosition(part), 0xffaa33, 1.5);
+    }
+
+    if (!boss.isDeathSequenceOver()) return;
+
+    this.explode(boss.position, 0xff4422, 5);
+    boss.markDefeated();
+    boss.removeCollisionHelper();
+    this.defeated = true;
+    this.game.events.emit('bossPhaseChanged', { phase: boss.phase });
+    this.game.events.emit('bossDefeated', {
+      points: DEFEAT_POINTS,
+      position: this.positionOf(boss.position),
+    });
+  }
+
+  // The alien explosion, scaled up
+  private explode(position: THREE.Vector3, color: number, scale: number): void {
+    this.game.particles.emit('explosion', position, color, scale);
+  }
+
+  // Where the ball would touch a solid part of the boss while moving along the sweep
+  sweepBall(sweep: Sweep): { part: BossPart; hit: SweepHit } | null {
+    if (!this.boss) return null;
+
+    let closest: { part: BossPart; hit: SweepHit } | null = null;
+    for (const part of this.boss.getSolidParts()) {
+      const hit = sweepVsShape(sweep, this.boss.position, part.collisionShape);
+      if (hit && (!closest || hit.time < closest.hit.time)) {
+        closest = { part, hit };
+      }
+    }
+    return closest;
+  }
+
+  // Apply a ball hit. The hull, and the core while weak points remain, just
+  // deflect the ball.
+  hitPart(part: BossPart): BossHitResult {
+    const boss = this.boss;
+    if (!boss || !boss.parts.includes(part) || !boss.isVulnerable(part)) return 'blocked';
+
+    const position = this.positionOf(boss.getPartPosition(part));
+    const destroyed = boss.damage(part);
+    this.game.events.emit('bossDamaged', { part: part.kind, health: boss.getHealth(), position });
+    if (!destroyed) return 'damaged';
+
+    if (part.kind === 'weakPoint') {
+      this.explode(boss.getPartPosition(part), 0xff8800, 2);
+      this.game.events.emit('bossWeakPointDestroyed', { points: WEAK_POINT_POINTS, position });
+    }
+    if (boss.updatePhase()) {
+      this.game.events.emit('bossPhaseChanged', { phase: boss.phase });
+      this.fireTimer = Math.min(this.fireTimer, 1);
+      this.explosionTimer = 0;
+    }
+
+    // Destroyed parts drop out of the debug outline
+    if (boss.collisionHelper) {
+      boss.removeCollisionHelper();
+      boss.createCollisionHelper();
+    }
+    return 'destroyed';
+  }
+
+  private positionOf(position: THREE.Vector3): { x: number; y: number; z: number } {
+    return { x: position.x, y: position.y, z: position.z };
+  }
+
+  public createCollisionHelpers(): void {
+    this.boss?.createCollisionHelper();
+  }
+
+  public removeCollisionHelpers(): void {
+    this.boss?.removeCollisionHelper();
+  }
+
+  // Remove the boss, e.g. when leaving a boss level
+  reset(): void {
+    this.boss?.dispose();
+    this.boss = null;
+    this.defeated = false;
+    this.fireTimer = 0;
+    this.explosionTimer = 0;
+  }
+
+  dispose(): void {
+    this.reset();
+  }
+}
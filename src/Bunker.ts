@@ -0,0 +1,215 @@
+import * as THREE from 'three';
+import {
+  Bounds,
+  CollisionShape,
+  Sweep,
+  SweepHit,
+  createShapeHelper,
+  disposeShapeHelper,
+  sweepVsBox,
+} from './collision';
+
+// Scale that hides the instance of a destroyed cell
+const HIDDEN = new THREE.Matrix4().makeScale(0, 0, 0);
+
+// A destructible shield made of square cells, like the bunkers of the arcade
+// game. Cells are indexed row by row from the top left; each one is solid or
+// gone. All cells are drawn by one instanced mesh, and destroyed cells are
+// hidden by scaling their instance to nothing.
+export class Bunker {
+  public mesh: THREE.InstancedMesh;
+  public position: THREE.Vector3; // Centre of the cell grid
+  public readonly columns: number;
+  public readonly rows: number;
+  public readonly cellSize: number;
+  public collisionHelper: THREE.Object3D | null = null;
+
+  private solid: boolean[];
+
+  // `shape` lists the rows of cells, top row first: '#' is solid, anything else empty
+  constructor(position: { x: number; y: number; z: number }, shape: string[], cellSize: number) {
+    this.position = new THREE.Vector3(position.x, position.y, position.z);
+    this.rows = shape.length;
+    this.columns = Math.max(...shape.map((row) => row.length));
+    this.cellSize = cellSize;
+    this.solid = [];
+    for (const row of shape) {
+      for (let column = 0; column < this.columns; column++) {
+        this.solid.push(row[column] === '#');
+      }
+    }
+
+    // Cells are a little smaller than their slot so the grid reads as blocks
+    const geometry = new THREE.BoxGeometry(cellSize * 0.95, cellSize * 0.95, cellSize * 2);
+    const material = new THREE.MeshStandardMaterial({
+      color: 0x33ff66,
+      emissive: 0x11aa33,
+      emissiveIntensity: 0.4,
+      roughness: 0.6,
+    });
+    this.mesh = new THREE.InstancedMesh(geometry, material, this.solid.length);
+    this.mesh.position.copy(this.position);
+
+    const matrix = new THREE.Matrix4();
+    this.solid.forEach((isSolid, cell) => {
+      const offset = this.cellOffset(cell);
+      this.mesh.setMatrixAt(cell, isSolid ? matrix.makeTranslation(offset.x, offset.y, 0) : HIDDEN);
+    });
+    this.mesh.instanceMatrix.needsUpdate = true;
+  }
+
+  isSolid(cell: number): boolean {
+    return this.solid[cell] ?? false;
+  }
+
+  getSolidCount(): number {
+    return this.solid.filter((isSolid) => isSolid).length;
+  }
+
+  // Centre of a cell relative to the centre of the bunker
+  private cellOffset(cell: number): { x: number; y: number } {
+    const column = cell % this.columns;
+    const row = Math.floor(cell / this.columns);
+    return {
+      x: (column - (this.columns - 1) / 2) * this.cellSize,
+      y: ((this.rows - 1) / 2 - row) * this.cellSize,
+    };
+  }
+
+  // Where a cell is in the world
+  getCellPosition(cell: number): THREE.Vector3 {
+    const offset = this.cellOffset(cell);
+    return new THREE.Vector3(this.position.x + offset.x, this.position.y + offset.y, 0);
+  }
+
+  // Rectangle enclosing the whole grid, solid or not
+  getBounds(): Bounds {
+    const halfWidth = (this.columns * this.cellSize) / 2;
+    const halfHeight = (this.rows * this.cellSize) / 2;
+    return {
+      minX: this.position.x - halfWidth,
+      maxX: this.position.x + halfWidth,
+      minY: this.position.y - halfHeight,
+      maxY: this.position.y + halfHeight,
+    };
+  }
+
+  // Solid cells overlapping a rectangle
+  getCellsIn(bounds: Bounds): number[] {
+    const own = this.getBounds();
+    const firstColumn = Math.max(0, Math.floor((bounds.minX - own.minX) / this.cellSize));
+    const lastColumn = Math.min(
+      this.columns - 1,
+      Math.floor((bounds.maxX - own.minX) / this.cellSize)
+    );
+    const firstRow = Math.max(0, Math.floor((own.maxY - bounds.maxY) / this.cellSize));
+    const lastRow = Math.min(this.rows - 1, Math.floor((own.maxY - bounds.minY) / this.cellSize));
+
+    const cells: number[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const cell = row * this.columns + column;
+        if (this.solid[cell]) cells.push(cell);
+      }
+    }
+    return cells;
+  }
+
+  // Solid cells sharing an edge with a cell
+  getNeighbours(cell: number): number[] {
+    const column = cell % this.columns;
+    const neighbours: number[] = [];
+    if (cell >= this.columns) neighbours.push(cell - this.columns);
+    if (cell + this.columns < this.solid.length) neighbours.push(cell + this.columns);
+    if (column > 0) neighbours.push(cell - 1);
+    if (column < this.columns - 1) neighbours.push(cell + 1);
+    return neighbours.filter((neighbour) => this.solid[neighbour]);
+  }
+
+  // Earliest solid cell a sweep touches
+  sweep(sweep: Sweep, halfHeightPadding: number = 0): { cell: number; hit: SweepHit } | null {
+    const reach = sweep.radius + halfHeightPadding;
+    const bounds = {
+      minX: Math.min(sweep.start.x, sweep.start.x + sweep.delta.x) - sweep.radius,
+      maxX: Math.max(sweep.start.x, sweep.start.x + sweep.delta.x) + sweep.radius,
+      minY: Math.min(sweep.start.y, sweep.start.y + sweep.delta.y) - reach,
+      maxY: Math.max(sweep.start.y, sweep.start.y + sweep.delta.y) + reach,
+    };
+
+    let closest: { cell: number; hit: SweepHit } | null = null;
+    for (const cell of this.getCellsIn(bounds)) {
+      const hit = sweepVsBox(
+        sweep,
+        this.getCellPosition(cell),
+        this.cellSize / 2,
+        this.cellSize / 2 + halfHeightPadding
+      );
+      if (hit && (!closest || hit.time < closest.hit.time)) {
+        closest = { cell, hit };
+      }
+    }
+    return closest;
+  }
+
+  // Knock a cell out. Returns false if it was already gone.
+  destroyCell(cell: number): boolean {
+    if (!this.solid[cell]) return false;
+
+    this.solid[cell] = false;
+    this.mesh.setMatrixAt(cell, HIDDEN);
+    this.mesh.instanceMatrix.needsUpdate = true;
+
+    // Keep the debug outline in step with the remaining cells
+    if (this.collisionHelper) {
+      this.removeCollisionHelper();
+      this.createCollisionHelper();
+    }
+    return true;
+  }
+
+  // The solid cells as boxes around the bunker's centre
+  getCollisionShape(): CollisionShape {
+    const halfSize = this.cellSize / 2;
+    const parts: CollisionShape[] = [];
+    this.solid.forEach((isSolid, cell) => {
+      if (isSolid) {
+        parts.push({
+          kind: 'box',
+          halfWidth: halfSize,
+          halfHeight: halfSize,
+          offset: this.cellOffset(cell),
+        });
+      }
+    });
+    return { kind: 'compound', parts };
+  }
+
+  public createCollisionHelper(): void {
+    if (this.collisionHelper || !this.mesh.parent) {
+      return;
+    }
+    this.collisionHelper = createShapeHelper(this.getCollisionShape(), 0x00ffaa);
+    this.collisionHelper.position.copy(this.position);
+    this.mesh.parent.add(this.collisionHelper);
+  }
+
+  public removeCollisionHelper(): void {
+    if (this.collisionHelper) {
+      disposeShapeHelper(this.collisionHelper);
+      this.collisionHelper = null;
+    }
+  }
+
+  dispose(): void {
+    this.removeCollisionHelper();
+
+    if (this.mesh.parent) {
+      this.mesh.parent.remove(this.mesh);
+    }
+    this.mesh.geometry.dispose();
+    if (this.mesh.material instanceof THREE.Material) {
+      this.mesh.material.dispose();
+    }
+    this.mesh.dispose();
+  }
+}
@@ -0,0 +1,172 @@
+import * as THREE from 'three';
+import { Bunker } from './Bunker';
+import { Projectile } from './Projectile';
+import { GameSimulation } from './gameSimulation';
+import { LevelDefinition } from './levels';
+import { Bounds, Sweep, SweepHit, shapeBounds } from './collision';
+
+// The classic arch: a solid block with a notch cut out underneath
+const DEFAULT_SHAPE = ['..####..', '.######.', '########', '########', '###..###'];
+const DEFAULT_COUNT = 4;
+const DEFAULT_Y = 3.5; // Bottom edge, clear of the paddle and the ball resting on it
+const DEFAULT_CELL_SIZE = 0.5;
+
+// Chance that each neighbour of a cell hit by a projectile crumbles with it
+const PROJECTILE_SPLASH_CHANCE = 0.4;
+
+const BUNKER_DEBRIS_COLOR = 0x33ff66;
+
+// What knocked cells out of a bunker
+export type BunkerDamageCause = 'ball' | 'projectile' | 'alien';
+
+// Builds each level's bunkers between the paddle and the formation and wears
+// them down: the ball chips out the cell it bounces off, projectiles blow out
+// the cell they hit and some of its neighbours, and aliens crush every cell
+// they move into.
+export class BunkerManager {
+  private game: GameSimulation;
+  private scene: THREE.Scene;
+  private bunkers: Bunker[] = [];
+
+  constructor(game: GameSimulation, scene: THREE.Scene) {
+    this.game = game;
+    this.scene = scene;
+  }
+
+  getBunkers(): readonly Bunker[] {
+    return this.bunkers;
+  }
+
+  // Replace the bunkers with fresh ones for a level; levels without a bunker
+  // layout have none
+  setLevel(level: LevelDefinition): void {
+    this.clear();
+
+    const layout = level.bunkers;
+    if (!layout) return;
+
+    const shape = layout.shape ?? DEFAULT_SHAPE;
+    const cellSize = layout.cellSize ?? DEFAULT_CELL_SIZE;
+    const y = (layout.y ?? DEFAULT_Y) + (shape.length * cellSize) / 2;
+
+    // Spread evenly across the play field unless the level places them
+    const { minX, maxX } = this.game.worldBounds;
+    const count = layout.count ?? DEFAULT_COUNT;
+    const xs =
+      layout.x ??
+      Array.from({ length: count }, (_, i) => minX + ((maxX - minX) * (i + 0.5)) / count);
+
+    for (const x of xs) {
+      const bunker = new Bunker({ x, y, z: 0 }, shape, cellSize);
+      this.scene.add(bunker.mesh);
+      if (this.game.debugCollisionBoundaries) {
+        bunker.createCollisionHelper();
+      }
+      this.bunkers.push(bunker);
+    }
+  }
+
+  // Aliens that descend into a bunker crush the cells they overlap
+  update(): void {
+    if (this.bunkers.length === 0) return;
+
+    for (const alien of this.game.alienManager.getAliens()) {
+      if (alien.isDestroyed) continue;
+
+      const bounds = shapeBounds(alien.position, alien.collisionShape);
+      for (const bunker of this.bunkers) {
+        if (!overlaps(bounds, bunker.getBounds())) continue;
+        this.destroyCells(bunker, bunker.getCellsIn(bounds), 'alien');
+      }
+    }
+  }
+
+  // Where the ball would touch a bunker cell while moving along the sweep
+  sweepBall(sweep: Sweep): { bunker: Bunker; cell: number; hit: SweepHit } | null {
+    let closest: { bunker: Bunker; cell: number; hit: SweepHit } | null = null;
+    for (const bunker of this.bunkers) {
+      const bunkerHit = bunker.sweep(sweep);
+      if (bunkerHit && (!closest || bunkerHit.hit.time < closest.hit.time)) {
+        closest = { bunker, ...bunkerHit };
+      }
+    }
+    return closest;
+  }
+
+  // The ball bounced off a cell and chips it out
+  hitByBall(bunker: Bunker, cell: number): void {
+    this.destroyCells(bunker, [cell], 'ball');
+  }
+
+  // Check a projectile against the bunkers over its last move. A hit blows out
+  // the cell and some of its neighbours, and stops the projectile.
+  hitByProjectile(projectile: Projectile): boolean {
+    const shape = projectile.collisionShape;
+    const halfLength = shape.kind === 'capsule' ? shape.halfLength : 0;
+    const sweep = {
+      start: projectile.previousPosition,
+      delta: {
+        x: projectile.position.x - projectile.previousPosition.x,
+        y: projectile.position.y - projectile.previousPosition.y,
+      },
+      radius: projectile.size.radius,
+    };
+
+    let closest: { bunker: Bunker; cell: number; hit: SweepHit } | null = null;
+    for (const bunker of this.bunkers) {
+      const bunkerHit = bunker.sweep(sweep, halfLength);
+      if (bunkerHit && (!closest || bunkerHit.hit.time < closest.hit.time)) {
+        closest = { bunker, ...bunkerHit };
+      }
+    }
+    if (!closest) return false;
+
+    const { bunker, cell } = closest;
+    const random = this.game.random.gameplay;
+    const splash = bunker
+      .getNeighbours(cell)
+      .filter(() => random.next() < PROJECTILE_SPLASH_CHANCE);
+    this.destroyCells(bunker, [cell, ...splash], 'projectile');
+    return true;
+  }
+
+  private destroyCells(bunker: Bunker, cells: number[], cause: BunkerDamageCause): void {
+    if (cells.length === 0) return;
+
+    const position = bunker.getCellPosition(cells[0]);
+    let cellsDestroyed = 0;
+    for (const cell of cells) {
+      if (bunker.destroyCell(cell)) cellsDestroyed++;
+    }
+    if (cellsDestroyed === 0) return;
+
+    this.game.particles.emit('debris', position, BUNKER_DEBRIS_COLOR, cellsDestroyed);
+    this.game.events.emit('bunkerDamaged', {
+      cause,
+      cellsDestroyed,
+      position: { x: position.x, y: position.y, z: 0 },
+    });
+  }
+
+  public createCollisionHelpers(): void {
+    this.bunkers.forEach((bunker) => bunker.createCollisionHelper());
+  }
+
+  public removeCollisionHelpers(): void {
+    this.bunkers.forEach((bunker) => bunker.removeCollisionHelper());
+  }
+
+  // Remove every bunker
+  clear(): void {
+    this.bunkers.forEach((bunker) => bunker.dispose());
+    this.bunkers = [];
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+}
+
+function overlaps(a: Bounds, b: Bounds): boolean {
+  return a.minX < b.maxX && a.maxX > b.minX && a.minY < b.maxY && a.maxY > b.minY;
+}
@@ -0,0 +1,179 @@
+import * as THREE from 'three';
+import { GameObject } from './types';
+import { CollisionShape, createShapeHelper, disposeShapeHelper } from './collision';
+
+// The mystery ship that crosses the top of the play field for bonus points
+export class Mothership implements GameObject {
+  public mesh: THREE.Mesh;
+  public position: THREE.Vector3;
+  public velocity: THREE.Vector3;
+  public size: { width: number; height: number; depth: number };
+  public isDestroyed: boolean = false;
+
+  // Position at the start of the current tick, used to interpolate rendering
+  public previousPosition: THREE.Vector3;
+
+  // Flat hull plus the dome on top
+  public collisionShape: CollisionShape;
+  public collisionHelper: THREE.Object3D | null = null;
+
+  // Running lights around the rim, chased in update
+  private rimLights: THREE.Mesh[] = [];
+  private elapsedTime: number = 0;
+
+  constructor(position: { x: number; y: number; z: number }, speed: number) {
+    this.size = { width: 3, height: 0.8, depth: 3 };
+    this.position = new THREE.Vector3(position.x, position.y, position.z);
+    this.previousPosition = this.position.clone();
+    this.velocity = new THREE.Vector3(speed, 0, 0);
+
+    const hullRadius = this.size.height * 0.3;
+    this.collisionShape = {
+      kind: 'compound',
+      parts: [
+        {
+          kind: 'capsule',
+          radius: hullRadius,
+          halfLength: this.size.width / 2 - hullRadius,
+          axis: 'x',
+        },
+        { kind: 'circle', radius: this.size.width * 0.17, offset: { x: 0, y: 0.2 } },
+      ],
+    };
+
+    const material = new THREE.MeshStandardMaterial({
+      color: 0xff2244,
+      emissive: 0xff2244,
+      emissiveIntensity: 0.5,
+      metalness: 0.8,
+      roughness: 0.2,
+    });
+    this.mesh = new THREE.Mesh(
+      this.createMothershipGeometry(this.size.width / 2, this.size.height),
+      material
+    );
+    this.mesh.position.copy(this.position);
+
+    this.addDome();
+    this.addRimLights(12);
+  }
+
+  // A wide, flat hull with a raised rim, built by lathing a profile like
+  // createFlyingSaucerGeometry in alienTypes.ts
+  private createMothershipGeometry(radius: number, height: number): THREE.BufferGeometry {
+    const points = [];
+
+    // Bottom centre and the shallow underside
+    points.push(new THREE.Vector2(0, -height / 2));
+    for (let i = 1; i <= 6; i++) {
+      const t = i / 6;
+      const x = radius * 0.6 * t;
+      const y = -height / 2 + height * 0.15 * t * t;
+      points.push(new THREE.Vector2(x, y));
+    }
+
+    // Rim: flares out to the full radius and back
+    points.push(new THREE.Vector2(radius * 0.9, -height * 0.15));
+    points.push(new THREE.Vector2(radius, 0));
+    points.push(new THREE.Vector2(radius * 0.9, height * 0.1));
+
+    // Upper deck rising to where the dome sits
+    for (let i = 5; i >= 0; i--) {
+      const angle = (Math.PI / 10) * i;
+      const x = radius * 0.75 * Math.sin(angle);
+      const y = height * 0.1 + height * 0.15 * (1 - Math.sin(angle));
+      points.push(new THREE.Vector2(x, y));
+    }
+
+    return new THREE.LatheGeometry(points, 48);
+  }
+
+  private addDome(): void {
+    const radius = this.size.width * 0.17;
+    const geometry = new THREE.SphereGeometry(radius, 24, 12, 0, Math.PI * 2, 0, Math.PI / 2);
+    const material = new THREE.MeshStandardMaterial({
+      color: 0x66ddff,
+      emissive: 0x2288aa,
+      emissiveIntensity: 0.6,
+      transparent: true,
+      opacity: 0.8,
+    });
+    const dome = new THREE.Mesh(geometry, material);
+    dome.position.y = this.size.height * 0.2;
+    this.mesh.add(dome);
+  }
+
+  private addRimLights(count: number): void {
+    const geometry = new THREE.SphereGeometry(0.08, 8, 8);
+    const radius = (this.size.width / 2) * 0.92;
+
+    for (let i = 0; i < count; i++) {
+      const angle = ((Math.PI * 2) / count) * i;
+      const light = new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({ color: i % 2 === 0 ? 0xffff66 : 0xffffff })
+      );
+      light.position.set(Math.cos(angle) * radius, 0, Math.sin(angle) * radius);
+      this.mesh.add(light);
+      this.rimLights.push(light);
+    }
+  }
+
+  // Remember where the mothership was at the start of the tick
+  storePreviousPosition(): void {
+    this.previousPosition.copy(this.position);
+  }
+
+  update(deltaTime: number): void {
+    this.elapsedTime += deltaTime;
+    this.position.addScaledVector(this.velocity, deltaTime);
+
+    // Chase the rim lights and spin the hull slowly
+    const lit = Math.floor(this.elapsedTime * 10) % this.rimLights.length;
+    this.rimLights.forEach((light, index) => {
+      light.visible = (index - lit + this.rimLights.length) % 3 !== 0;
+    });
+    this.mesh.rotation.y = this.elapsedTime * 1.5;
+  }
+
+  // Place the mesh between the previous and current tick positions
+  updateMesh(alpha: number): void {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
+
+    if (this.collisionHelper) {
+      this.collisionHelper.position.copy(this.mesh.position);
+    }
+  }
+
+  public createCollisionHelper(): void {
+    if (this.collisionHelper || !this.mesh.parent) {
+      return;
+    }
+    this.collisionHelper = createShapeHelper(this.collisionShape, 0xff2244);
+    this.collisionHelper.position.copy(this.position);
+    this.mesh.parent.add(this.collisionHelper);
+  }
+
+  public removeCollisionHelper(): void {
+    if (this.collisionHelper) {
+      disposeShapeHelper(this.collisionHelper);
+      this.collisionHelper = null;
+    }
+  }
+
+  dispose(): void {
+    this.removeCollisionHelper();
+
+    if (this.mesh.parent) {
+      this.mesh.parent.remove(this.mesh);
+    }
+    this.mesh.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        if (object.material instanceof THREE.Material) {
+          object.material.dispose();
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import { Mothership } from './Mothership';
+import { GameSimulation } from './gameSimulation';
+import { Sweep, SweepHit, sweepVsShape } from './collision';
+
+// Seconds between motherships, picked at random from this range
+const SPAWN_INTERVAL = { min: 20, max: 35 };
+const MOTHERSHIP_SPEED = 4;
+// How far below the top wall the mothership flies
+const FLIGHT_MARGIN = 1.5;
+// Bonus points for a hit, one picked at random
+const BONUS_POINTS = [50, 100, 150, 300];
+
+// Spawns the mystery mothership on a timer and flies it across the top of the
+// play field, above the formation. The ball can shoot it down for a bonus.
+export class MothershipManager {
+  private game: GameSimulation;
+  private scene: THREE.Scene;
+  private mothership: Mothership | null = null;
+  private spawnTimer: number;
+
+  constructor(game: GameSimulation, scene: THREE.Scene) {
+    this.game = game;
+    this.scene = scene;
+    this.spawnTimer = this.nextSpawnDelay();
+  }
+
+  // The mothership currently in flight, if any
+  getMothership(): Mothership | null {
+    return this.mothership;
+  }
+
+  private nextSpawnDelay(): number {
+    return this.game.random.gameplay.range(SPAWN_INTERVAL.min, SPAWN_INTERVAL.max);
+  }
+
+  // Bring in a mothership from a random side, just outside the walls
+  private spawn(): void {
+    const { minX, maxX, maxY } = this.game.worldBounds;
+    const fromLeft = this.game.random.gameplay.next() < 0.5;
+    const mothership = new Mothership(
+      { x: fromLeft ? minX - 2 : maxX + 2, y: maxY - FLIGHT_MARGIN, z: 0 },
+      fromLeft ? MOTHERSHIP_SPEED : -MOTHERSHIP_SPEED
+    );
+
+    this.scene.add(mothership.mesh);
+    if (this.game.debugCollisionBoundaries) {
+      mothership.createCollisionHelper();
+    }
+    this.mothership = mothership;
+
+    this.game.events.emit('mothershipSpawned', {
+      position: { x: mothership.position.x, y: mothership.position.y, z: 0 },
+    });
+  }
+
+  storePreviousPositions(): void {
+    this.mothership?.storePreviousPosition();
+  }
+
+  updateMeshes(alpha: number): void {
+    this.mothership?.updateMesh(alpha);
+  }
+
+  update(deltaTime: number): void {
+    if (!this.mothership) {
+      this.spawnTimer -= deltaTime;
+      if (this.spawnTimer <= 0) {
+        this.spawn();
+      }
+      return;
+    }
+
+    this.mothership.update(deltaTime);
+
+    // Flew off the far side without being hit
+    const { minX, maxX } = this.game.worldBounds;
+    const { x } = this.mothership.position;
+    if (x < minX - 3 || x > maxX + 3) {
+      this.remove();
+    }
+  }
+
+  // Where the ball would touch the mothership while moving along the sweep
+  sweepBall(sweep: Sweep): { mothership: Mothership; hit: SweepHit } | null {
+    if (!this.mothership || this.mothership.isDestroyed) return null;
+
+    const hit = sweepVsShape(sweep, this.mothership.position, this.mothership.collisionShape);
+    return hit ? { mothership: this.mothership, hit } : null;
+  }
+
+  // Shoot the mothership down; the bonus is scored through the mothershipDestroyed event
+  destroyMothership(mothership: Mothership): void {
+    if (mothership.isDestroyed || mothership !== this.mothership) return;
+    mothership.isDestroyed = true;
+
+    const points = this.game.random.gameplay.pick(BONUS_POINTS);
+    this.game.events.emit('mothershipDestroyed', {
+      points,
+      position: { x: mothership.position.x, y: mothership.position.y, z: 0 },
+    });
+    this.remove();
+  }
+
+  private remove(): void {
+    this.mothership?.dispose();
+    this.mothership = null;
+    this.spawnTimer = this.nextSpawnDelay();
+  }
+
+  public createCollisionHelpers(): void {
+    this.mothership?.createCollisionHelper();
+  }
+
+  public removeCollisionHelpers(): void {
+    this.mothership?.removeCollisionHelper();
+  }
+
+  // Remove any mothership in flight and restart the spawn timer, e.g. between levels
+  reset(): void {
+    this.remove();
+  }
+
+  dispose(): void {
+    this.mothership?.dispose();
+    this.mothership = null;
+  }
+}
@@ -1,15 +1,17 @@
 import * as THREE from 'three';
 import { GameObject } from './types';
-import { PlayState } from './playState';
-import { Ball } from './Ball';
+import { GameSimulation } from './gameSimulation';
 
 export class Paddle implements GameObject {
-  private game: PlayState;
+  private game: GameSimulation;
   public mesh: THREE.Mesh;
   public position: THREE.Vector3;
   public velocity: THREE.Vector3;
   public size: { width: number; height: number; depth: number };
 
+  // Position at the start of the current tick, used to interpolate rendering
+  public previousPosition: THREE.Vector3;
+
   // Add collision helper for debug visualization
   public collisionHelper: THREE.Mesh | null = null;
 
@@ -19,8 +21,11 @@ export class Paddle implements GameObject {
   private isLeftPressed: boolean = false;
   private isRightPressed: boolean = false;
 
+  // Seconds left before a paddle hit by a projectile can move again
+  private stunTimer: number = 0;
+
   constructor(
-    game: PlayState,
+    game: GameSimulation,
     size: { width: number; height: number; depth: number },
     position: { x: number; y: number; z: number },
     worldSize: number
@@ -30,6 +35,7 @@ export class Paddle implements GameObject {
 
     // Create position and velocity vectors
     this.position = new THREE.Vector3(position.x, position.y, position.z);
+    this.previousPosition = this.position.clone();
     this.velocity = new THREE.Vector3(0, 0, 0);
 
     // Create paddle geometry - wider than tall
@@ -57,17 +63,24 @@ export class Paddle implements GameObject {
       min: -worldSize / 2 + size.width / 2,
       max: worldSize / 2 - size.width / 2,
     };
+  }
 
-    // Set up keyboard event listeners
-    this.setupEventListeners();
+  // Remember where the paddle was at the start of the tick
+  storePreviousPosition(): void {
+    this.previousPosition.copy(this.position);
   }
 
   update(deltaTime: number): void {
-    // Calculate target position based on input
-    if (this.isLeftPressed) {
+    if (this.stunTimer > 0) {
+      this.stunTimer = Math.max(0, this.stunTimer - deltaTime);
+      this.setStunnedLook(this.stunTimer > 0);
+    }
+
+    // Calculate target position based on input; a stunned paddle ignores it
+    if (this.isLeftPressed && this.stunTimer === 0) {
       this.targetPosition -= this.speed * deltaTime;
     }
-    if (this.isRightPressed) {
+    if (this.isRightPressed && this.stunTimer === 0) {
       this.targetPosition += this.speed * deltaTime;
     }
 
@@ -77,16 +90,24 @@ export class Paddle implements GameObject {
       Math.min(this.targetPosition, this.boundaries.max)
     );
 
-    // Set new position
+    // Set new position, tracking how fast the paddle actually moved
+    this.velocity.x = (this.targetPosition - this.position.x) / deltaTime;
     this.position.x = this.targetPosition;
 
-    // Update mesh position
-    this.mesh.position.copy(this.position);
-
     // Update any attached ball
     this.updateAttachedBall();
   }
 
+  // Place the mesh between the previous and current tick positions
+  updateMesh(alpha: number): void {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
+
+    // Update collision helper position
+    if (this.collisionHelper) {
+      this.collisionHelper.position.copy(this.mesh.position);
+    }
+  }
+
   // Move any attached balls with the paddle
   private updateAttachedBall(): void {
     // Get all balls from the game
@@ -100,60 +121,46 @@ export class Paddle implements GameObject {
     }
   }
 
-  private setupEventListeners(): void {
-    // Add keyboard event listeners
-    window.addEventListener('keydown', this.handleKeyDown.bind(this));
-    window.addEventListener('keyup', this.handleKeyUp.bind(this));
+  // Movement controls, driven by whichever input source owns the game
+  setMovingLeft(pressed: boolean): void {
+    this.isLeftPressed = pressed;
   }
 
-  private handleKeyDown(event: KeyboardEvent): void {
-    switch (event.key) {
-      case 'ArrowLeft':
-      case 'a':
-      case 'A':
-        this.isLeftPressed = true;
-        break;
-      case 'ArrowRight':
-      case 'd':
-      case 'D':
-        this.isRightPressed = true;
-        break;
-    }
+  setMovingRight(pressed: boolean): void {
+    this.isRightPressed = pressed;
   }
 
-  private handleKeyUp(event: KeyboardEvent): void {
-    switch (event.key) {
-      case 'ArrowLeft':
-      case 'a':
-      case 'A':
-        this.isLeftPressed = false;
-        break;
-      case 'ArrowRight':
-      case 'd':
-      case 'D':
-        this.isRightPressed = false;
-        break;
-    }
+  // Freeze the paddle for a while after a projectile hit
+  stun(duration: number): void {
+    this.stunTimer = Math.max(this.stunTimer, duration);
+    this.setStunnedLook(true);
   }
 
-  removeEventListeners(): void {
-    window.removeEventListener('keydown', this.handleKeyDown.bind(this));
-    window.removeEventListener('keyup', this.handleKeyUp.bind(this));
+  isStunned(): boolean {
+    return this.stunTimer > 0;
+  }
+
+  // Glow red while stunned
+  private setStunnedLook(stunned: boolean): void {
+    if (this.mesh.material instanceof THREE.MeshStandardMaterial) {
+      this.mesh.material.emissive.setHex(stunned ? 0xcc0000 : 0x0066cc);
+    }
   }
 
   // Reset paddle to starting position
   reset(position: { x: number; y: number; z: number }): void {
     this.targetPosition = position.x;
     this.position.set(position.x, position.y, position.z);
+    this.velocity.set(0, 0, 0);
+    this.stunTimer = 0;
+    this.setStunnedLook(false);
+    this.storePreviousPosition();
     this.mesh.position.copy(this.position);
-
-    this.isLeftPressed = false;
-    this.isRightPressed = false;
   }
 
   // Clean up resources
   dispose(): void {
-    this.removeEventListeners();
+    this.removeCollisionHelper();
 
     if (this.mesh.parent) {
       this.mesh.parent.remove(this.mesh);
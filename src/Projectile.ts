@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+import { GameObject } from './types';
+import { CollisionShape, createShapeHelper, disposeShapeHelper } from './collision';
+
+// A bolt fired down by an alien, straight or at an angle
+export class Projectile implements GameObject {
+  public mesh: THREE.Mesh;
+  public position: THREE.Vector3;
+  public velocity: THREE.Vector3;
+  public size: { radius: number };
+  public isDestroyed: boolean = false;
+
+  // Position at the start of the current tick, used to interpolate rendering
+  public previousPosition: THREE.Vector3;
+
+  // Short vertical capsule; the ball and paddle collide with it
+  public collisionShape: CollisionShape;
+  public collisionHelper: THREE.Object3D | null = null;
+
+  // `angle` is in radians from straight down, positive towards +x
+  constructor(
+    position: { x: number; y: number; z: number },
+    speed: number,
+    angle: number = 0,
+    radius: number = 0.15
+  ) {
+    this.position = new THREE.Vector3(position.x, position.y, position.z);
+    this.previousPosition = this.position.clone();
+    this.velocity = new THREE.Vector3(Math.sin(angle) * speed, -Math.cos(angle) * speed, 0);
+    this.size = { radius };
+    this.collisionShape = { kind: 'capsule', radius, halfLength: radius * 1.5, axis: 'y' };
+
+    // Glowing red bolt
+    const geometry = new THREE.CapsuleGeometry(radius, radius * 3, 4, 8);
+    const material = new THREE.MeshStandardMaterial({
+      color: 0xff3333,
+      emissive: 0xff0000,
+      emissiveIntensity: 1.0,
+    });
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.position.copy(this.position);
+    this.mesh.rotation.z = angle;
+  }
+
+  // Remember where the projectile was at the start of the tick
+  storePreviousPosition(): void {
+    this.previousPosition.copy(this.position);
+  }
+
+  update(deltaTime: number): void {
+    this.position.addScaledVector(this.velocity, deltaTime);
+  }
+
+  // Place the mesh between the previous and current tick positions
+  updateMesh(alpha: number): void {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
+
+    if (this.collisionHelper) {
+      this.collisionHelper.position.copy(this.mesh.position);
+    }
+  }
+
+  public createCollisionHelper(): void {
+    if (this.collisionHelper || !this.mesh.parent) {
+      return;
+    }
+    this.collisionHelper = createShapeHelper(this.collisionShape, 0xff8800);
+    this.collisionHelper.position.copy(this.position);
+    this.mesh.parent.add(this.collisionHelper);
+  }
+
+  public removeCollisionHelper(): void {
+    if (this.collisionHelper) {
+      disposeShapeHelper(this.collisionHelper);
+      this.collisionHelper = null;
+    }
+  }
+
+  dispose(): void {
+    this.removeCollisionHelper();
+
+    if (this.mesh.parent) {
+      this.mesh.parent.remove(this.mesh);
+    }
+    this.mesh.geometry.dispose();
+    if (this.mesh.material instanceof THREE.Material) {
+      this.mesh.material.dispose();
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { Projectile } from './Projectile';
+import { Paddle } from './Paddle';
+import { GameSimulation } from './gameSimulation';
+import { sweepVsBox, sweepVsShape } from './collision';
+
+// Owns the projectiles fired by aliens: moves them, and checks them against the
+// paddles (a hit is reported to the game), the balls (which knock them out) and
+// the bunkers (which they erode).
+export class ProjectileManager {
+  private game: GameSimulation;
+  private scene: THREE.Scene;
+  private projectiles: Projectile[] = [];
+
+  constructor(game: GameSimulation, scene: THREE.Scene) {
+    this.game = game;
+    this.scene = scene;
+  }
+
+  // Fire a projectile downwards, tilted by `angle` radians towards +x
+  fire(position: { x: number; y: number; z: number }, speed: number, angle: number = 0): void {
+    const projectile = new Projectile(position, speed, angle);
+    this.scene.add(projectile.mesh);
+    if (this.game.debugCollisionBoundaries) {
+      projectile.createCollisionHelper();
+    }
+    this.projectiles.push(projectile);
+
+    this.game.events.emit('projectileFired', { position: { ...position } });
+  }
+
+  getActiveCount(): number {
+    return this.projectiles.length;
+  }
+
+  // Remember every projectile's position at the start of the tick
+  storePreviousPositions(): void {
+    this.projectiles.forEach((projectile) => projectile.storePreviousPosition());
+  }
+
+  // Interpolate projectile meshes between the last two ticks
+  updateMeshes(alpha: number): void {
+    this.projectiles.forEach((projectile) => projectile.updateMesh(alpha));
+  }
+
+  update(deltaTime: number): void {
+    for (const projectile of this.projectiles) {
+      // Skip anything cleared away by an earlier hit this tick
+      if (projectile.isDestroyed) continue;
+      projectile.update(deltaTime);
+
+      if (this.hitsBall(projectile)) {
+        projectile.isDestroyed = true;
+        this.game.particles.emit('spark', projectile.position, 0xff3333);
+        this.game.events.emit('projectileDestroyed', {
+          position: { x: projectile.position.x, y: projectile.position.y, z: 0 },
+        });
+        continue;
+      }
+
+      if (this.game.bunkers.hitByProjectile(projectile)) {
+        projectile.isDestroyed = true;
+        continue;
+      }
+
+      const paddle = this.game.paddles.find((paddle) => this.hitsPaddle(projectile, paddle));
+      if (paddle) {
+        projectile.isDestroyed = true;
+        this.game.handlePaddleShot(paddle);
+        continue;
+      }
+
+      // Fell out of the bottom of the play area
+      if (projectile.position.y < this.game.worldBounds.minY - 1) {
+        projectile.isDestroyed = true;
+      }
+    }
+
+    this.removeDestroyed();
+  }
+
+  // Swept test in the projectile's frame: the ball moves by its own motion this
+  // tick minus the projectile's, against the projectile where it started
+  private hitsBall(projectile: Projectile): boolean {
+    const moveX = projectile.position.x - projectile.previousPosition.x;
+    const moveY = projectile.position.y - projectile.previousPosition.y;
+
+    return this.game.balls.some((ball) => {
+      if (ball.isAttachedToPaddle) return false;
+
+      const sweep = {
+        start: ball.previousPosition,
+        delta: {
+          x: ball.position.x - ball.previousPosition.x - moveX,
+          y: ball.position.y - ball.previousPosition.y - moveY,
+        },
+        radius: ball.size.radius,
+      };
+      return sweepVsShape(sweep, projectile.previousPosition, projectile.collisionShape) !== null;
+    });
+  }
+
+  // The projectile is a vertical capsule, so sweeping its centre against the
+  // paddle box stretched by the capsule's half length is exact
+  private hitsPaddle(projectile: Projectile, paddle: Paddle): boolean {
+    const shape = projectile.collisionShape;
+    const halfLength = shape.kind === 'capsule' ? shape.halfLength : 0;
+    const sweep = {
+      start: projectile.previousPosition,
+      delta: {
+        x: projectile.position.x - projectile.previousPosition.x,
+        y: projectile.position.y - projectile.previousPosition.y,
+      },
+      radius: projectile.size.radius,
+    };
+    return (
+      sweepVsBox(
+        sweep,
+        paddle.position,
+        paddle.size.width / 2,
+        paddle.size.height / 2 + halfLength
+      ) !== null
+    );
+  }
+
+  private removeDestroyed(): void {
+    this.projectiles = this.projectiles.filter((projectile) => {
+      if (!projectile.isDestroyed) return true;
+      projectile.dispose();
+      return false;
+    });
+  }
+
+  public createCollisionHelpers(): void {
+    this.projectiles.forEach((projectile) => projectile.createCollisionHelper());
+  }
+
+  public removeCollisionHelpers(): void {
+    this.projectiles.forEach((projectile) => projectile.removeCollisionHelper());
+  }
+
+  // Remove every projectile, e.g. after a lost life or between levels
+  clear(): void {
+    this.projectiles.forEach((projectile) => {
+      projectile.isDestroyed = true;
+      projectile.dispose();
+    });
+    this.projectiles = [];
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { AlienType, contactSide, getAlienTypeDefinition, getAlienTypes } from './alienTypes';
+import { Sweep, SweepHit, shapeBounds, sweepVsShape } from './collision';
+
+const BALL_RADIUS = 0.4;
+
+// Sweep a ball against an alien of the given type sitting at the origin
+function hitAlien(type: AlienType, sweep: Sweep): SweepHit | null {
+  const definition = getAlienTypeDefinition(type);
+  return sweepVsShape(sweep, { x: 0, y: 0 }, definition.createCollisionShape(definition.size));
+}
+
+// A ball falling straight down at `x` from well above the alien
+function falling(x: number, radius: number = BALL_RADIUS): Sweep {
+  return { start: { x, y: 3 }, delta: { x: 0, y: -3 }, radius };
+}
+
+function expectHit(hit: SweepHit | null, contactY: number, nx: number, ny: number): void {
+  expect(hit).not.toBeNull();
+  expect(3 - 3 * hit!.time).toBeCloseTo(contactY, 6);
+  expect(hit!.normal.x).toBeCloseTo(nx, 6);
+  expect(hit!.normal.y).toBeCloseTo(ny, 6);
+}
+
+describe('alien collision shapes', () => {
+  it('bounds every built-in type by its outline', () => {
+    const bounds = (type: AlienType) => {
+      const definition = getAlienTypeDefinition(type);
+      const { minX, maxX, minY, maxY } = shapeBounds(
+        { x: 0, y: 0 },
+        definition.createCollisionShape(definition.size)
+      );
+      return [minX, maxX, minY, maxY].map((value) => Number(value.toFixed(6)));
+    };
+
+    expect(getAlienTypes()).toEqual(
+      expect.arrayContaining(['small', 'medium', 'large', 'armored', 'shielded'])
+    );
+    expect(bounds('small')).toEqual([-0.5, 0.5, -0.5, 0.5]);
+    expect(bounds('medium')).toEqual([-0.65, 0.65, -0.15, 0.15]);
+    expect(bounds('large')).toEqual([-0.525, 0.525, -0.525, 0.75]);
+    expect(bounds('armored')).toEqual([-0.7, 0.7, -0.45, 0.45]);
+    expect(bounds('shielded')).toEqual([-0.64, 0.64, -0.45, 0.175]);
+  });
+
+  it('lets a ball into the gaps between the arms of the small alien', () => {
+    // Diagonally towards the centre with a thin probe: a circle of the alien's
+    // width would be hit 0.55 out, the crossed arms only 0.25 out along each axis
+    const probe = { start: { x: 1, y: 1 }, delta: { x: -1, y: -1 }, radius: 0.05 };
+    const hit = hitAlien('small', probe);
+    expect(hit!.time).toBeCloseTo(0.75, 6);
+    expect(Math.abs(hit!.normal.x) + Math.abs(hit!.normal.y)).toBeCloseTo(1, 6);
+
+    // Stopping inside the gap touches nothing
+    expect(hitAlien('small', { ...probe, delta: { x: -0.65, y: -0.65 } })).toBeNull();
+  });
+
+  it('bounces a ball off the flat top of the medium saucer straight up', () => {
+    // Off centre, a circle would send the ball sideways; the flat top doesn't
+    expectHit(hitAlien('medium', falling(0.3)), 0.55, 0, 1);
+    expectHit(hitAlien('medium', falling(-0.45)), 0.55, 0, 1);
+  });
+
+  it('rounds off the ends of the medium saucer', () => {
+    // Past the flat part the ball meets the end cap around (0.5, 0)
+    const dy = Math.sqrt(0.55 ** 2 - 0.4 ** 2);
+    expectHit(hitAlien('medium', falling(0.9)), dy, 0.4 / 0.55, dy / 0.55);
+
+    // Beyond the cap it misses
+    expect(hitAlien('medium', falling(1.1))).toBeNull();
+
+    // From the side the cap faces straight out
+    const fromLeft = { start: { x: -3, y: 0 }, delta: { x: 6, y: 0 }, radius: BALL_RADIUS };
+    const hit = hitAlien('medium', fromLeft);
+    expect(-3 + 6 * hit!.time).toBeCloseTo(-1.05, 6);
+    expect(contactSide(hit!.normal)).toBe('left');
+  });
+
+  it('hits the antenna of the large alien before its body', () => {
+    expectHit(hitAlien('large', falling(0)), 0.7 + 0.05 + BALL_RADIUS, 0, 1);
+
+    // Beside the antenna the round body is hit, with a normal from its centre
+    const x = 0.6;
+    const y = Math.sqrt((0.525 + BALL_RADIUS) ** 2 - x ** 2);
+    expectHit(hitAlien('large', falling(x)), y, x / 0.925, y / 0.925);
+  });
+
+  it('gives the armored alien square flanks', () => {
+    const fromLeft = { start: { x: -3, y: 0.4 }, delta: { x: 6, y: 0 }, radius: BALL_RADIUS };
+    const hit = hitAlien('armored', fromLeft);
+    expect(-3 + 6 * hit!.time).toBeCloseTo(-1.1, 6);
+    expect(contactSide(hit!.normal)).toBe('left');
+
+    expectHit(hitAlien('armored', falling(0.65)), 0.85, 0, 1);
+  });
+
+  it('puts the shield of the shielded alien underneath it', () => {
+    const rising = { start: { x: 0, y: -3 }, delta: { x: 0, y: 3 }, radius: BALL_RADIUS };
+    const hit = hitAlien('shielded', rising);
+    expect(-3 + 3 * hit!.time).toBeCloseTo(-0.35 - 0.1 - BALL_RADIUS, 6);
+    expect(contactSide(hit!.normal)).toBe('bottom');
+
+    // From above the saucer body is hit first
+    expectHit(hitAlien('shielded', falling(0)), 0.175 + BALL_RADIUS, 0, 1);
+  });
+});
@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import * as BufferGeometryUtils from 'three/addons/utils/BufferGeometryUtils.js';
+import { CollisionShape } from './collision';
+
+// Alien types are looked up by name in a registry, so new types can be added
+// with registerAlienType without touching Alien or AlienManager. The built-in
+// names are listed for autocompletion; any registered name is accepted.
+export type BuiltInAlienType = 'small' | 'medium' | 'large' | 'armored' | 'shielded';
+export type AlienType = BuiltInAlienType | (string & {});
+
+// Side of an alien a ball hits it from
+export type AlienSide = 'top' | 'bottom' | 'left' | 'right';
+
+export interface AlienSize {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export interface AlienTypeDefinition {
+  size: AlienSize;
+  points: number; // Points awarded when destroyed
+  fireRate: number; // Projectiles per second while at the bottom of its column
+  hitPoints: number; // Ball hits needed to destroy it
+  // Sides a hit does damage from; hits on other sides just bounce. All sides when omitted.
+  vulnerableSides?: AlienSide[];
+  color: number;
+  eyes: { size: number; spacing: number; color: number };
+  antennaHeight?: number; // Blinking antenna on top, when set
+  createGeometry(size: AlienSize): THREE.BufferGeometry;
+  // Outline the ball collides with, matched to the silhouette of the geometry
+  createCollisionShape(size: AlienSize): CollisionShape;
+  // Extra parts of the model, e.g. a shield, placed relative to the alien's centre.
+  // They are drawn instanced, so each is only a template for its geometry,
+  // material and transform.
+  createDetails?(size: AlienSize): THREE.Mesh[];
+}
+
+const alienTypes: Map<string, AlienTypeDefinition> = new Map();
+
+export function registerAlienType(type: string, definition: AlienTypeDefinition): void {
+  alienTypes.set(type, definition);
+}
+
+export function isAlienType(type: string): boolean {
+  return alienTypes.has(type);
+}
+
+export function getAlienTypeDefinition(type: AlienType): AlienTypeDefinition {
+  const definition = alienTypes.get(type);
+  if (!definition) {
+    throw new Error(`Unknown alien type "${type}"`);
+  }
+  return definition;
+}
+
+// Every registered type, in registration order
+export function getAlienTypes(): AlienType[] {
+  return [...alienTypes.keys()];
+}
+
+// Which side of an alien a contact is on, from the contact normal (pointing
+// from the alien towards the ball)
+export function contactSide(normal: { x: number; y: number }): AlienSide {
+  if (Math.abs(normal.y) >= Math.abs(normal.x)) {
+    return normal.y > 0 ? 'top' : 'bottom';
+  }
+  return normal.x > 0 ? 'right' : 'left';
+}
+
+registerAlienType('small', {
+  size: { width: 1.0, height: 0.8, depth: 1.0 },
+  points: 30,
+  fireRate: 0.12,
+  hitPoints: 1,
+  color: 0xff5500, // Orange-red
+  eyes: { size: 0.1, spacing: 0.15, color: 0xff0000 },
+  // Octahedron
+  createGeometry: (size) => new THREE.OctahedronGeometry(size.width / 2, 1),
+  // Crossed arms following the octahedron's points
+  createCollisionShape: ({ width }) => {
+    const radius = width * 0.2;
+    const halfLength = width / 2 - radius;
+    return {
+      kind: 'compound',
+      parts: [
+        { kind: 'capsule', radius, halfLength, axis: 'x' },
+        { kind: 'capsule', radius, halfLength, axis: 'y' },
+      ],
+    };
+  },
+});
+
+registerAlienType('medium', {
+  size: { width: 1.3, height: 0.6, depth: 1.3 },
+  points: 20,
+  fireRate: 0.09,
+  hitPoints: 1,
+  color: 0x00ff66, // Green
+  eyes: { size: 0.15, spacing: 0.2, color: 0xffff00 },
+  // Classic flying saucer
+  createGeometry: (size) => createFlyingSaucerGeometry(size.width / 2, size.height / 2),
+  // Flat capsule along the saucer
+  createCollisionShape: ({ width, height }) => {
+    const radius = height / 4;
+    return { kind: 'capsule', radius, halfLength: width / 2 - radius, axis: 'x' };
+  },
+});
+
+registerAlienType('large', {
+  size: { width: 1.5, height: 1.0, depth: 1.5 },
+  points: 10,
+  fireRate: 0.06,
+  hitPoints: 1,
+  color: 0xaa22ff, // Purple
+  eyes: { size: 0.2, spacing: 0.3, color: 0xff00ff },
+  antennaHeight: 0.5,
+  // Sphere with tentacles
+  createGeometry: (size) => createTentacledAlienGeometry(size.width / 2),
+  // Round body plus the antenna
+  createCollisionShape: ({ width }) => ({
+    kind: 'compound',
+    parts: [
+      { kind: 'circle', radius: width * 0.35 },
+      { kind: 'capsule', radius: 0.05, halfLength: 0.25, axis: 'y', offset: { x: 0, y: 0.45 } },
+    ],
+  }),
+});
+
+// Heavy plating on the flanks: takes three hits, and only hits from above or
+// below count
+registerAlienType('armored', {
+  size: { width: 1.4, height: 0.9, depth: 1.4 },
+  points: 50,
+  fireRate: 0.05,
+  hitPoints: 3,
+  vulnerableSides: ['top', 'bottom'],
+  color: 0x8899aa, // Steel
+  eyes: { size: 0.12, spacing: 0.25, color: 0xff3300 },
+  createGeometry: (size) => createArmoredShellGeometry(size.width / 2, size.height),
+  createCollisionShape: ({ width, height }) => ({
+    kind: 'box',
+    halfWidth: width / 2,
+    halfHeight: height / 2,
+  }),
+});
+
+// An energy shield underneath blocks hits from the paddle's side, so it has
+// to be hit from above or the flanks, twice
+registerAlienType('shielded', {
+  size: { width: 1.2, height: 0.7, depth: 1.2 },
+  points: 40,
+  fireRate: 0.08,
+  hitPoints: 2,
+  vulnerableSides: ['top', 'left', 'right'],
+  color: 0x22aaff, // Blue
+  eyes: { size: 0.12, spacing: 0.18, color: 0xffffff },
+  createGeometry: (size) => createFlyingSaucerGeometry(size.width / 2, size.height / 2),
+  // Saucer body plus the shield arc below it
+  createCollisionShape: ({ width, height }) => {
+    const radius = height / 4;
+    return {
+      kind: 'compound',
+      parts: [
+        { kind: 'capsule', radius, halfLength: width / 2 - radius, axis: 'x' },
+        {
+          kind: 'capsule',
+          radius: 0.1,
+          halfLength: width * 0.45,
+          axis: 'x',
+          offset: { x: 0, y: -height / 2 },
+        },
+      ],
+    };
+  },
+  createDetails: (size) => {
+    // Flattened half ring cupping the underside of the saucer
+    const radius = size.width * 0.55;
+    const flatten = 0.25;
+    const shield = new THREE.Mesh(
+      new THREE.TorusGeometry(radius, 0.05, 8, 24, Math.PI),
+      new THREE.MeshStandardMaterial({
+        color: 0x66ccff,
+        emissive: 0x3399ff,
+        emissiveIntensity: 1.0,
+        transparent: true,
+        opacity: 0.7,
+      })
+    );
+    shield.rotation.z = Math.PI;
+    shield.scale.y = flatten;
+    shield.position.y = -size.height / 2 - 0.1 + radius * flatten;
+    return [shield];
+  },
+});
+
+function createFlyingSaucerGeometry(radius: number, height: number): THREE.BufferGeometry {
+  // Create points for a flying saucer shape
+  const points = [];
+
+  // Bottom point
+  points.push(new THREE.Vector2(0, -height / 2));
+
+  // Bottom curve
+  for (let i = 0; i <= 5; i++) {
+    const angle = (Math.PI / 5) * i;
+    const x = radius * Math.sin(angle);
+    const y = -height / 2 + height * 0.3 * (1 - Math.cos(angle));
+    points.push(new THREE.Vector2(x, y));
+  }
+
+  // Middle (widest part)
+  points.push(new THREE.Vector2(radius, 0));
+
+  // Top curve
+  for (let i = 4; i >= 0; i--) {
+    const angle = (Math.PI / 5) * i;
+    const x = radius * Math.sin(angle);
+    const y = height / 2 - height * 0.2 * (1 - Math.cos(angle));
+    points.push(new THREE.Vector2(x, y));
+  }
+
+  // Top center point
+  points.push(new THREE.Vector2(0, height / 2));
+
+  // Create lathe geometry from points
+  return new THREE.LatheGeometry(points, 32);
+}
+
+function createTentacledAlienGeometry(radius: number): THREE.BufferGeometry {
+  // Create a group to hold all geometries
+  const tentacleGroup = new THREE.Group();
+
+  // Create center sphere
+  const bodyGeometry = new THREE.SphereGeometry(radius * 0.7, 16, 16);
+  const body = new THREE.Mesh(bodyGeometry);
+  tentacleGroup.add(body);
+
+  // Create tentacles
+  const tentacleCount = 6;
+  const tentacleLength = radius * 1.2;
+  const tentacleWidth = radius * 0.2;
+
+  for (let i = 0; i < tentacleCount; i++) {
+    const angle = ((Math.PI * 2) / tentacleCount) * i;
+    const x = Math.cos(angle) * radius * 0.5;
+    const z = Math.sin(angle) * radius * 0.5;
+    const y = -radius * 0.5;
+
+    const tentacleGeometry = new THREE.CylinderGeometry(
+      tentacleWidth,
+      tentacleWidth * 0.5,
+      tentacleLength,
+      8,
+      3,
+      true
+    );
+
+    const tentacle = new THREE.Mesh(tentacleGeometry);
+    tentacle.position.set(x, y - tentacleLength / 2, z);
+    tentacle.rotation.x = Math.PI / 6; // Angle tentacles slightly outward
+    tentacle.rotation.z = angle;
+
+    tentacleGroup.add(tentacle);
+  }
+
+  // Convert group to buffer geometry
+  const geometries: THREE.BufferGeometry[] = [];
+
+  tentacleGroup.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const cloned = child.geometry.clone();
+      cloned.applyMatrix4(child.matrixWorld);
+      geometries.push(cloned);
+    }
+  });
+
+  // Merge all geometries
+  return BufferGeometryUtils.mergeGeometries(geometries);
+}
+
+// Six-sided shell with bevelled top and bottom edges
+function createArmoredShellGeometry(radius: number, height: number): THREE.BufferGeometry {
+  const points = [
+    new THREE.Vector2(0, -height / 2),
+    new THREE.Vector2(radius * 0.75, -height / 2),
+    new THREE.Vector2(radius, -height * 0.2),
+    new THREE.Vector2(radius, height * 0.2),
+    new THREE.Vector2(radius * 0.75, height / 2),
+    new THREE.Vector2(0, height / 2),
+  ];
+  return new THREE.LatheGeometry(points, 6);
+}
@@ -0,0 +1,13 @@
+import { runBroadphaseBenchmark } from './broadphaseBenchmark';
+
+// Print brute force versus grid timings for a range of swarm sizes:
+//   npm run bench:broadphase [-- <aliens> ...]
+const counts = process.argv.slice(2).map(Number);
+const results = (counts.length > 0 ? counts : [100, 400, 1000]).map((aliens) =>
+  runBroadphaseBenchmark({ aliens, balls: 30 })
+);
+console.table(results);
+
+if (results.some((result) => !result.resultsMatch)) {
+  throw new Error('Grid and brute force broadphase found different hits');
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { runBroadphaseBenchmark } from './broadphaseBenchmark';
+
+describe('broadphase benchmark', () => {
+  it.each([100, 400, 1000])('finds the same hits with the grid for %i aliens', (aliens) => {
+    const result = runBroadphaseBenchmark({ aliens, balls: 10, ticks: 30 });
+
+    expect(result.sweeps).toBe(300);
+    expect(result.resultsMatch).toBe(true);
+    // The grid leaves a handful of aliens per sweep, however big the swarm
+    expect(result.candidatesPerSweep).toBeLessThan(10);
+  });
+});
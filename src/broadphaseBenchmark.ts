@@ -0,0 +1,102 @@
+import {
+  CollisionShape,
+  Sweep,
+  SweepHit,
+  shapeBounds,
+  sweepBounds,
+  sweepVsShape,
+} from './collision';
+import { SeededRandom } from './random';
+import { SpatialGrid } from './spatialGrid';
+
+export interface BroadphaseBenchmarkOptions {
+  aliens?: number;
+  balls?: number;
+  ticks?: number;
+  seed?: number;
+}
+
+export interface BroadphaseBenchmarkResult {
+  aliens: number;
+  balls: number;
+  sweeps: number;
+  bruteForceMs: number;
+  gridMs: number;
+  candidatesPerSweep: number; // Average exact tests the grid left to run
+  resultsMatch: boolean; // Both approaches found the same first hit for every sweep
+}
+
+interface BenchmarkTarget {
+  position: { x: number; y: number };
+  shape: CollisionShape;
+}
+
+// Compare ball-versus-alien sweeps against every alien with sweeps through the
+// spatial grid, on a formation packed at the same spacing as the real swarm.
+// Runs anywhere; `npm run bench:broadphase` prints it for a few swarm sizes.
+export function runBroadphaseBenchmark(
+  options: BroadphaseBenchmarkOptions = {}
+): BroadphaseBenchmarkResult {
+  const { aliens = 400, balls = 30, ticks = 120, seed = 1 } = options;
+  const random = new SeededRandom(seed);
+
+  // Square-ish formation with the swarm's 2 x 1.5 spacing and the saucer shape
+  const columns = Math.ceil(Math.sqrt(aliens));
+  const targets: BenchmarkTarget[] = [];
+  for (let i = 0; i < aliens; i++) {
+    targets.push({
+      position: { x: (i % columns) * 2, y: Math.floor(i / columns) * 1.5 },
+      shape: { kind: 'capsule', radius: 0.15, halfLength: 0.5, axis: 'x' },
+    });
+  }
+
+  const grid = new SpatialGrid<BenchmarkTarget>(2);
+  targets.forEach((target) => grid.insert(target, shapeBounds(target.position, target.shape)));
+
+  // One step of a ball at maximum speed in a random direction, per ball per tick
+  const width = columns * 2;
+  const height = Math.ceil(aliens / columns) * 1.5;
+  const sweeps: Sweep[] = [];
+  for (let i = 0; i < balls * ticks; i++) {
+    const angle = random.range(0, Math.PI * 2);
+    sweeps.push({
+      start: { x: random.range(-1, width), y: random.range(-1, height) },
+      delta: { x: (Math.cos(angle) * 20) / 60, y: (Math.sin(angle) * 20) / 60 },
+      radius: 0.4,
+    });
+  }
+
+  const firstHit = (sweep: Sweep, candidates: BenchmarkTarget[]) => {
+    let closest: { target: BenchmarkTarget; hit: SweepHit } | null = null;
+    for (const target of candidates) {
+      const hit = sweepVsShape(sweep, target.position, target.shape);
+      if (hit && (!closest || hit.time < closest.hit.time)) {
+        closest = { target, hit };
+      }
+    }
+    return closest;
+  };
+
+  let start = performance.now();
+  const bruteForceHits = sweeps.map((sweep) => firstHit(sweep, targets)?.hit.time ?? null);
+  const bruteForceMs = performance.now() - start;
+
+  let candidates = 0;
+  start = performance.now();
+  const gridHits = sweeps.map((sweep) => {
+    const nearby = grid.query(sweepBounds(sweep));
+    candidates += nearby.length;
+    return firstHit(sweep, nearby)?.hit.time ?? null;
+  });
+  const gridMs = performance.now() - start;
+
+  return {
+    aliens,
+    balls,
+    sweeps: sweeps.length,
+    bruteForceMs,
+    gridMs,
+    candidatesPerSweep: candidates / sweeps.length,
+    resultsMatch: bruteForceHits.every((time, i) => time === gridHits[i]),
+  };
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SweepHit,
+  sweepBounds,
+  sweepVsBox,
+  sweepVsCircle,
+  sweepVsShape,
+  sweepVsWalls,
+} from './collision';
+
+function expectHit(hit: SweepHit | null, time: number, nx: number, ny: number): void {
+  expect(hit).not.toBeNull();
+  expect(hit!.time).toBeCloseTo(time, 6);
+  expect(hit!.normal.x).toBeCloseTo(nx, 6);
+  expect(hit!.normal.y).toBeCloseTo(ny, 6);
+}
+
+const origin = { x: 0, y: 0 };
+
+describe('sweepVsCircle', () => {
+  it('hits head on where the circles first touch', () => {
+    const hit = sweepVsCircle(
+      { start: { x: -5, y: 0 }, delta: { x: 10, y: 0 }, radius: 0.5 },
+      origin,
+      0.5
+    );
+    expectHit(hit, 0.4, -1, 0);
+    expect(hit!.penetration).toBe(0);
+  });
+
+  it('hits off centre with the normal between the centres', () => {
+    const hit = sweepVsCircle(
+      { start: { x: -5, y: 0.6 }, delta: { x: 10, y: 0 }, radius: 0.5 },
+      origin,
+      0.5
+    );
+    expectHit(hit, 0.42, -0.8, 0.6);
+  });
+
+  it('misses a circle out of reach and one it moves away from', () => {
+    expect(
+      sweepVsCircle({ start: { x: -5, y: 1.5 }, delta: { x: 10, y: 0 }, radius: 0.5 }, origin, 0.5)
+    ).toBeNull();
+    expect(
+      sweepVsCircle({ start: { x: -2, y: 0 }, delta: { x: -1, y: 0 }, radius: 0.5 }, origin, 0.5)
+    ).toBeNull();
+  });
+
+  it('reports an overlap at the start of the step with its depth', () => {
+    const hit = sweepVsCircle(
+      { start: { x: 0, y: 0.6 }, delta: { x: 1, y: 0 }, radius: 0.5 },
+      origin,
+      0.5
+    );
+    expectHit(hit, 0, 0, 1);
+    expect(hit!.penetration).toBeCloseTo(0.4, 6);
+  });
+
+  it('handles a zero-length sweep', () => {
+    const still = { x: 0, y: 0 };
+    expect(
+      sweepVsCircle({ start: { x: 3, y: 0 }, delta: still, radius: 0.5 }, origin, 0.5)
+    ).toBeNull();
+    expectHit(
+      sweepVsCircle({ start: { x: 0.9, y: 0 }, delta: still, radius: 0.5 }, origin, 0.5),
+      0,
+      1,
+      0
+    );
+  });
+});
+
+describe('sweepVsBox', () => {
+  it('catches a fast ball that would tunnel through a thin box', () => {
+    // The ball starts well above and ends well below a box 0.1 thick
+    const sweep = { start: { x: 0, y: 5 }, delta: { x: 0, y: -10 }, radius: 0.1 };
+    const hit = sweepVsBox(sweep, origin, 2, 0.05);
+    expectHit(hit, 0.485, 0, 1);
+
+    const fromBelow = { start: { x: 0, y: -5 }, delta: { x: 0, y: 10 }, radius: 0.1 };
+    expectHit(sweepVsBox(fromBelow, origin, 2, 0.05), 0.485, 0, -1);
+  });
+
+  it('hits the side faces', () => {
+    const sweep = { start: { x: -5, y: 0 }, delta: { x: 10, y: 0 }, radius: 0.5 };
+    expectHit(sweepVsBox(sweep, origin, 1, 1), 0.35, -1, 0);
+  });
+
+  it('hits a corner straight on', () => {
+    // Along the diagonal into the top right corner: contact half a radius out from it
+    const sweep = { start: { x: 3, y: 3 }, delta: { x: -2, y: -2 }, radius: 0.5 };
+    const travelled = 2 * Math.SQRT2 - 0.5;
+    expectHit(
+      sweepVsBox(sweep, origin, 1, 1),
+      travelled / (2 * Math.SQRT2),
+      Math.SQRT1_2,
+      Math.SQRT1_2
+    );
+  });
+
+  it('glances off a corner the ball only clips', () => {
+    // Falling just outside the box: only the rounded corner is in reach
+    const sweep = { start: { x: 1.3, y: 3 }, delta: { x: 0, y: -4 }, radius: 0.5 };
+    expectHit(sweepVsBox(sweep, origin, 1, 1), 0.4, 0.6, 0.8);
+
+    const wide = { start: { x: 1.6, y: 3 }, delta: { x: 0, y: -4 }, radius: 0.5 };
+    expect(sweepVsBox(wide, origin, 1, 1)).toBeNull();
+  });
+
+  it('reports a ball starting in contact at time zero', () => {
+    // Resting on the top face and moving into it
+    const touching = { start: { x: 0, y: 1.5 }, delta: { x: 0, y: -1 }, radius: 0.5 };
+    const hit = sweepVsBox(touching, origin, 1, 1);
+    expectHit(hit, 0, 0, 1);
+    expect(hit!.penetration).toBe(0);
+
+    // Resting on it and moving away
+    const leaving = { start: { x: 0, y: 1.5 }, delta: { x: 0, y: 1 }, radius: 0.5 };
+    expect(sweepVsBox(leaving, origin, 1, 1)).toBeNull();
+  });
+
+  it('pushes an overlapping ball out the nearest way', () => {
+    const overlapping = { start: { x: 0, y: 1.3 }, delta: { x: 1, y: 0 }, radius: 0.5 };
+    const hit = sweepVsBox(overlapping, origin, 1, 1);
+    expectHit(hit, 0, 0, 1);
+    expect(hit!.penetration).toBeCloseTo(0.2, 6);
+
+    // Centre inside the box, nearest to the right face
+    const inside = { start: { x: 0.9, y: 0 }, delta: { x: 0, y: 0 }, radius: 0.5 };
+    const exit = sweepVsBox(inside, origin, 1, 1);
+    expectHit(exit, 0, 1, 0);
+    expect(exit!.penetration).toBeCloseTo(0.6, 6);
+  });
+
+  it('handles a zero-length sweep', () => {
+    const still = { start: { x: 0, y: 3 }, delta: { x: 0, y: 0 }, radius: 0.5 };
+    expect(sweepVsBox(still, origin, 1, 1)).toBeNull();
+  });
+});
+
+describe('sweepVsShape', () => {
+  it('places shapes by their offset', () => {
+    const sweep = { start: { x: 2, y: 5 }, delta: { x: 0, y: -10 }, radius: 0.5 };
+    const shape = { kind: 'circle' as const, radius: 0.5, offset: { x: 1, y: 0 } };
+    expectHit(sweepVsShape(sweep, { x: 1, y: 0 }, shape), 0.4, 0, 1);
+    expect(sweepVsShape(sweep, { x: -1, y: 0 }, shape)).toBeNull();
+  });
+});
+
+describe('sweepVsWalls', () => {
+  const bounds = { minX: -10, maxX: 10, maxY: 20 };
+
+  it('hits the side and top walls', () => {
+    expectHit(
+      sweepVsWalls({ start: { x: 9, y: 0 }, delta: { x: 2, y: 0 }, radius: 0.5 }, bounds),
+      0.25,
+      -1,
+      0
+    );
+    expectHit(
+      sweepVsWalls({ start: { x: -9, y: 0 }, delta: { x: -2, y: 0 }, radius: 0.5 }, bounds),
+      0.25,
+      1,
+      0
+    );
+    expectHit(
+      sweepVsWalls({ start: { x: 0, y: 19 }, delta: { x: 0, y: 1 }, radius: 0.5 }, bounds),
+      0.5,
+      0,
+      -1
+    );
+  });
+
+  it('takes the first wall reached in a corner', () => {
+    const sweep = { start: { x: 9, y: 19 }, delta: { x: 1, y: 2 }, radius: 0.5 };
+    expectHit(sweepVsWalls(sweep, bounds), 0.25, 0, -1);
+  });
+
+  it('leaves the bottom open', () => {
+    expect(
+      sweepVsWalls({ start: { x: 0, y: 0 }, delta: { x: 0, y: -50 }, radius: 0.5 }, bounds)
+    ).toBeNull();
+  });
+
+  it('pushes a ball already through a wall back in', () => {
+    const hit = sweepVsWalls(
+      { start: { x: 10.2, y: 0 }, delta: { x: 0, y: 0 }, radius: 0.5 },
+      bounds
+    );
+    expectHit(hit, 0, -1, 0);
+    expect(hit!.penetration).toBeCloseTo(0.7, 6);
+  });
+
+  it('handles a zero-length sweep', () => {
+    expect(
+      sweepVsWalls({ start: { x: 0, y: 0 }, delta: { x: 0, y: 0 }, radius: 0.5 }, bounds)
+    ).toBeNull();
+  });
+});
+
+describe('sweepBounds', () => {
+  it('covers the whole path of the ball', () => {
+    const sweep = { start: { x: 1, y: 2 }, delta: { x: -3, y: 1 }, radius: 0.5 };
+    expect(sweepBounds(sweep)).toEqual({ minX: -2.5, maxX: 1.5, minY: 1.5, maxY: 3.5 });
+  });
+});
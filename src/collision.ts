@@ -0,0 +1,361 @@
+import * as THREE from 'three';
+
+// Swept collision tests for the ball. Play happens in the XY plane, so the ball
+// is treated as a circle moving along a straight line during a step and each
+// test returns the earliest time of impact along that line.
+
+// A circle moving from `start` by `delta` during the current step
+export interface Sweep {
+  start: { x: number; y: number };
+  delta: { x: number; y: number };
+  radius: number;
+}
+
+export interface SweepHit {
+  time: number; // Fraction of the step travelled before contact (0..1)
+  normal: THREE.Vector2; // Contact normal, pointing from the shape towards the ball
+  penetration: number; // Depth of an overlap that already existed at the start of the step
+}
+
+// Distances below this count as touching; keeps resting contacts from re-triggering
+const CONTACT_EPSILON = 1e-6;
+
+// Earliest t in [0, 1] at which the moving point reaches a circle around `center`
+function rayVsCircle(sweep: Sweep, cx: number, cy: number, radius: number): number | null {
+  const ox = sweep.start.x - cx;
+  const oy = sweep.start.y - cy;
+  const a = sweep.delta.x * sweep.delta.x + sweep.delta.y * sweep.delta.y;
+  const b = ox * sweep.delta.x + oy * sweep.delta.y;
+  const c = ox * ox + oy * oy - radius * radius;
+
+  // Not moving, or moving away from the circle
+  if (a < CONTACT_EPSILON || b >= 0) return null;
+
+  const discriminant = b * b - a * c;
+  if (discriminant < 0) return null;
+
+  const t = (-b - Math.sqrt(discriminant)) / a;
+  return t >= 0 && t <= 1 ? t : null;
+}
+
+function closerHit(current: SweepHit | null, time: number | null, nx: number, ny: number) {
+  if (time === null || (current && current.time <= time)) return current;
+  return { time, normal: new THREE.Vector2(nx, ny), penetration: 0 };
+}
+
+// Sweep against a circle (aliens, other balls)
+export function sweepVsCircle(
+  sweep: Sweep,
+  center: { x: number; y: number },
+  radius: number
+): SweepHit | null {
+  const combined = sweep.radius + radius;
+  const dx = sweep.start.x - center.x;
+  const dy = sweep.start.y - center.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Already overlapping at the start of the step
+  if (distance < combined - CONTACT_EPSILON) {
+    const normal =
+      distance > CONTACT_EPSILON
+        ? new THREE.Vector2(dx, dy).divideScalar(distance)
+        : new THREE.Vector2(0, 1);
+    return { time: 0, normal, penetration: combined - distance };
+  }
+
+  const time = rayVsCircle(sweep, center.x, center.y, combined);
+  if (time === null) return null;
+
+  const hitX = sweep.start.x + sweep.delta.x * time - center.x;
+  const hitY = sweep.start.y + sweep.delta.y * time - center.y;
+  return { time, normal: new THREE.Vector2(hitX, hitY).divideScalar(combined), penetration: 0 };
+}
+
+// Sweep against an axis-aligned box (paddles). The box grown by the ball's
+// radius has flat faces and rounded corners, and each part is tested in turn.
+export function sweepVsBox(
+  sweep: Sweep,
+  center: { x: number; y: number },
+  halfWidth: number,
+  halfHeight: number
+): SweepHit | null {
+  const r = sweep.radius;
+  const { x: sx, y: sy } = sweep.start;
+  const { x: dx, y: dy } = sweep.delta;
+  const minX = center.x - halfWidth;
+  const maxX = center.x + halfWidth;
+  const minY = center.y - halfHeight;
+  const maxY = center.y + halfHeight;
+
+  // Already overlapping at the start of the step
+  const closestX = Math.max(minX, Math.min(sx, maxX));
+  const closestY = Math.max(minY, Math.min(sy, maxY));
+  const offsetX = sx - closestX;
+  const offsetY = sy - closestY;
+  const distance = Math.sqrt(offsetX * offsetX + offsetY * offsetY);
+  if (distance < r - CONTACT_EPSILON) {
+    if (distance > CONTACT_EPSILON) {
+      const normal = new THREE.Vector2(offsetX, offsetY).divideScalar(distance);
+      return { time: 0, normal, penetration: r - distance };
+    }
+
+    // Centre inside the box: push out through the nearest face
+    const exits = [
+      { depth: maxY - sy, normal: new THREE.Vector2(0, 1) },
+      { depth: sy - minY, normal: new THREE.Vector2(0, -1) },
+      { depth: maxX - sx, normal: new THREE.Vector2(1, 0) },
+      { depth: sx - minX, normal: new THREE.Vector2(-1, 0) },
+    ];
+    const exit = exits.reduce((best, candidate) =>
+      candidate.depth < best.depth ? candidate : best
+    );
+    return { time: 0, normal: exit.normal, penetration: exit.depth + r };
+  }
+
+  let hit: SweepHit | null = null;
+
+  // Flat faces, only approached from outside
+  if (dy < 0) {
+    const t = (maxY + r - sy) / dy;
+    const x = sx + dx * t;
+    if (t >= 0 && t <= 1 && x >= minX && x <= maxX) hit = closerHit(hit, t, 0, 1);
+  } else if (dy > 0) {
+    const t = (minY - r - sy) / dy;
+    const x = sx + dx * t;
+    if (t >= 0 && t <= 1 && x >= minX && x <= maxX) hit = closerHit(hit, t, 0, -1);
+  }
+  if (dx < 0) {
+    const t = (maxX + r - sx) / dx;
+    const y = sy + dy * t;
+    if (t >= 0 && t <= 1 && y >= minY && y <= maxY) hit = closerHit(hit, t, 1, 0);
+  } else if (dx > 0) {
+    const t = (minX - r - sx) / dx;
+    const y = sy + dy * t;
+    if (t >= 0 && t <= 1 && y >= minY && y <= maxY) hit = closerHit(hit, t, -1, 0);
+  }
+
+  // Rounded corners
+  for (const [cx, cy] of [
+    [minX, minY],
+    [maxX, minY],
+    [minX, maxY],
+    [maxX, maxY],
+  ]) {
+    const t = rayVsCircle(sweep, cx, cy, r);
+    if (t !== null && (!hit || t < hit.time)) {
+      const nx = (sx + dx * t - cx) / r;
+      const ny = (sy + dy * t - cy) / r;
+      hit = closerHit(hit, t, nx, ny);
+    }
+  }
+
+  return hit;
+}
+
+// Sweep against a capsule: a segment along one axis grown by `radius`. That is
+// the same as a zero-thickness box grown by the ball and capsule radii combined.
+export function sweepVsCapsule(
+  sweep: Sweep,
+  center: { x: number; y: number },
+  radius: number,
+  halfLength: number,
+  axis: 'x' | 'y'
+): SweepHit | null {
+  return sweepVsBox(
+    { ...sweep, radius: sweep.radius + radius },
+    center,
+    axis === 'x' ? halfLength : 0,
+    axis === 'y' ? halfLength : 0
+  );
+}
+
+// Collision outline of an object in the XY plane, relative to its position
+export type CollisionShape =
+  | { kind: 'circle'; radius: number; offset?: { x: number; y: number } }
+  | { kind: 'box'; halfWidth: number; halfHeight: number; offset?: { x: number; y: number } }
+  | {
+      kind: 'capsule';
+      radius: number;
+      halfLength: number;
+      axis: 'x' | 'y';
+      offset?: { x: number; y: number };
+    }
+  | { kind: 'compound'; parts: CollisionShape[] };
+
+// Sweep against any collision shape placed at `position`
+export function sweepVsShape(
+  sweep: Sweep,
+  position: { x: number; y: number },
+  shape: CollisionShape
+): SweepHit | null {
+  if (shape.kind === 'compound') {
+    let closest: SweepHit | null = null;
+    for (const part of shape.parts) {
+      const hit = sweepVsShape(sweep, position, part);
+      if (hit && (!closest || hit.time < closest.time)) {
+        closest = hit;
+      }
+    }
+    return closest;
+  }
+
+  const center = {
+    x: position.x + (shape.offset?.x ?? 0),
+    y: position.y + (shape.offset?.y ?? 0),
+  };
+
+  switch (shape.kind) {
+    case 'circle':
+      return sweepVsCircle(sweep, center, shape.radius);
+    case 'box':
+      return sweepVsBox(sweep, center, shape.halfWidth, shape.halfHeight);
+    case 'capsule':
+      return sweepVsCapsule(sweep, center, shape.radius, shape.halfLength, shape.axis);
+  }
+}
+
+// Axis-aligned rectangle in the XY plane
+export interface Bounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// Rectangle enclosing a collision shape placed at `position`
+export function shapeBounds(position: { x: number; y: number }, shape: CollisionShape): Bounds {
+  if (shape.kind === 'compound') {
+    const bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+    for (const part of shape.parts) {
+      const partBounds = shapeBounds(position, part);
+      bounds.minX = Math.min(bounds.minX, partBounds.minX);
+      bounds.maxX = Math.max(bounds.maxX, partBounds.maxX);
+      bounds.minY = Math.min(bounds.minY, partBounds.minY);
+      bounds.maxY = Math.max(bounds.maxY, partBounds.maxY);
+    }
+    return bounds;
+  }
+
+  let halfWidth: number;
+  let halfHeight: number;
+  switch (shape.kind) {
+    case 'circle':
+      halfWidth = halfHeight = shape.radius;
+      break;
+    case 'box':
+      halfWidth = shape.halfWidth;
+      halfHeight = shape.halfHeight;
+      break;
+    case 'capsule':
+      halfWidth = shape.radius + (shape.axis === 'x' ? shape.halfLength : 0);
+      halfHeight = shape.radius + (shape.axis === 'y' ? shape.halfLength : 0);
+      break;
+  }
+
+  const x = position.x + (shape.offset?.x ?? 0);
+  const y = position.y + (shape.offset?.y ?? 0);
+  return { minX: x - halfWidth, maxX: x + halfWidth, minY: y - halfHeight, maxY: y + halfHeight };
+}
+
+// Rectangle covering everything a sweep can touch during the step
+export function sweepBounds(sweep: Sweep): Bounds {
+  const endX = sweep.start.x + sweep.delta.x;
+  const endY = sweep.start.y + sweep.delta.y;
+  return {
+    minX: Math.min(sweep.start.x, endX) - sweep.radius,
+    maxX: Math.max(sweep.start.x, endX) + sweep.radius,
+    minY: Math.min(sweep.start.y, endY) - sweep.radius,
+    maxY: Math.max(sweep.start.y, endY) + sweep.radius,
+  };
+}
+
+// Wireframe outline of a collision shape for the debug view
+export function createShapeHelper(shape: CollisionShape, color: number): THREE.Object3D {
+  const group = new THREE.Group();
+  const material = new THREE.MeshBasicMaterial({ color, wireframe: true });
+  addShapeHelperParts(group, shape, material);
+  return group;
+}
+
+function addShapeHelperParts(
+  group: THREE.Group,
+  shape: CollisionShape,
+  material: THREE.Material
+): void {
+  if (shape.kind === 'compound') {
+    shape.parts.forEach((part) => addShapeHelperParts(group, part, material));
+    return;
+  }
+
+  let mesh: THREE.Mesh;
+  switch (shape.kind) {
+    case 'circle':
+      mesh = new THREE.Mesh(new THREE.SphereGeometry(shape.radius, 16, 8), material);
+      break;
+    case 'box':
+      mesh = new THREE.Mesh(
+        new THREE.BoxGeometry(shape.halfWidth * 2, shape.halfHeight * 2, shape.halfWidth * 2),
+        material
+      );
+      break;
+    case 'capsule':
+      // CapsuleGeometry runs along Y; lay it down for horizontal capsules
+      mesh = new THREE.Mesh(
+        new THREE.CapsuleGeometry(shape.radius, shape.halfLength * 2, 4, 12),
+        material
+      );
+      if (shape.axis === 'x') {
+        mesh.rotation.z = Math.PI / 2;
+      }
+      break;
+  }
+
+  mesh.position.set(shape.offset?.x ?? 0, shape.offset?.y ?? 0, 0);
+  group.add(mesh);
+}
+
+// Remove a shape helper from the scene and free its GPU resources
+export function disposeShapeHelper(helper: THREE.Object3D): void {
+  helper.removeFromParent();
+  helper.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      if (child.material instanceof THREE.Material) {
+        child.material.dispose();
+      }
+    }
+  });
+}
+
+// Sweep against the left, right and top walls. The bottom is left open so a
+// missed ball falls out of play.
+export function sweepVsWalls(
+  sweep: Sweep,
+  bounds: { minX: number; maxX: number; maxY: number }
+): SweepHit | null {
+  const r = sweep.radius;
+  const { x: sx, y: sy } = sweep.start;
+  const { x: dx, y: dy } = sweep.delta;
+
+  // Already through a wall at the start of the step
+  if (sx - r < bounds.minX - CONTACT_EPSILON) {
+    return { time: 0, normal: new THREE.Vector2(1, 0), penetration: bounds.minX - (sx - r) };
+  }
+  if (sx + r > bounds.maxX + CONTACT_EPSILON) {
+    return { time: 0, normal: new THREE.Vector2(-1, 0), penetration: sx + r - bounds.maxX };
+  }
+  if (sy + r > bounds.maxY + CONTACT_EPSILON) {
+    return { time: 0, normal: new THREE.Vector2(0, -1), penetration: sy + r - bounds.maxY };
+  }
+
+  let hit: SweepHit | null = null;
+  if (dx < 0) hit = closerHit(hit, wallTime(bounds.minX + r, sx, dx), 1, 0);
+  if (dx > 0) hit = closerHit(hit, wallTime(bounds.maxX - r, sx, dx), -1, 0);
+  if (dy > 0) hit = closerHit(hit, wallTime(bounds.maxY - r, sy, dy), 0, -1);
+  return hit;
+}
+
+function wallTime(wall: number, start: number, delta: number): number | null {
+  const t = (wall - start) / delta;
+  return t >= 0 && t <= 1 ? t : null;
+}
@@ -1,6 +1,56 @@
+import { PhysicsBackendKind } from './physics';
+import { DifficultyLimits } from './difficulty';
+import { ParticlePresetOverrides } from './particles';
+
+// What happens when an alien projectile hits the paddle
+export type ProjectileHitPenalty = 'life' | 'stun';
+
+// What happens when an alien reaches the bottom: the game ends, or each alien
+// that lands drains the planetary shield or costs a life
+export type InvasionRule = 'gameOver' | 'shield' | 'life';
+
 export interface GameConfig {
   worldSize: number;
+  fixedTimeStep: number; // Seconds simulated per tick
+  maxFrameTime: number; // Longest frame the simulation will try to catch up on
+  paddleMaxBounceAngle: number; // Degrees from vertical for a ball leaving the paddle's ends
+  paddleSpin: number; // Share of the paddle's velocity that bends the bounce; 0 disables spin
+  maxBalls: number; // Balls in play at once; shooting down the mothership adds one
+  physicsBackend: PhysicsBackendKind; // 'rapier' must be loaded with loadPhysicsBackend first
+  projectileHitPenalty: ProjectileHitPenalty;
+  paddleStunDuration: number; // Seconds a shot paddle can't move with the 'stun' penalty
+  invasionRule: InvasionRule; // Rule a new game starts with; players can change it before starting
+  planetShield: number; // Shield strength at the start of a game with the 'shield' rule
+  invasionShieldDamage: number; // Shield lost per landed alien
+  invasionPushBack: number; // How far the swarm is pushed back up after a landing
+  bossLevelInterval: number; // Regular levels between boss levels; 0 disables bosses
+  adaptiveDifficulty: boolean; // Nudge the difficulty to follow how the player is doing
+  difficultyLimits: DifficultyLimits; // Range of each adaptive difficulty multiplier
+  particleCapacity: number; // Particles alive at once across all effects; the oldest are reused
+  particlePresets: ParticlePresetOverrides; // Changes to the trail, explosion, spark and debris
 }
 export const defaultConfig: GameConfig = {
   worldSize: 25,
+  fixedTimeStep: 1 / 60,
+  maxFrameTime: 0.25,
+  paddleMaxBounceAngle: 60,
+  paddleSpin: 0.3,
+  maxBalls: 3,
+  physicsBackend: 'simple',
+  projectileHitPenalty: 'life',
+  paddleStunDuration: 1.5,
+  invasionRule: 'gameOver',
+  planetShield: 100,
+  invasionShieldDamage: 25,
+  invasionPushBack: 3,
+  bossLevelInterval: 3,
+  adaptiveDifficulty: false,
+  difficultyLimits: {
+    swarmSpeed: { min: 0.7, max: 1.25 },
+    moveDownAmount: { min: 0.6, max: 1.25 },
+    ballMaxSpeed: { min: 0.75, max: 1.1 },
+    projectileRate: { min: 0.5, max: 1.3 },
+  },
+  particleCapacity: 4096,
+  particlePresets: {},
 };
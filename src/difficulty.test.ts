@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { defaultConfig } from './config';
+import { AdaptiveDifficulty, DifficultyAdjustment, DifficultyModifiers } from './difficulty';
+import { createHeadlessGame } from './headless';
+
+const limits = defaultConfig.difficultyLimits;
+const keys = Object.keys(limits) as (keyof DifficultyModifiers)[];
+const neutral = { swarmSpeed: 1, moveDownAmount: 1, ballMaxSpeed: 1, projectileRate: 1 };
+
+// A headless game with adaptive difficulty on, recording every adjustment it announces
+function createGame() {
+  const simulation = createHeadlessGame({ seed: 1, config: { adaptiveDifficulty: true } });
+  const announced: DifficultyAdjustment[] = [];
+  simulation.events.on('difficultyAdjusted', (adjustment) => announced.push(adjustment));
+  return { simulation, difficulty: simulation.difficulty, announced };
+}
+
+function expectWithinLimits(modifiers: DifficultyModifiers): void {
+  for (const key of keys) {
+    expect(modifiers[key]).toBeGreaterThanOrEqual(limits[key].min);
+    expect(modifiers[key]).toBeLessThanOrEqual(limits[key].max);
+  }
+}
+
+// Every adjustment is logged in order, each one carrying on from the last
+function expectLogged(difficulty: AdaptiveDifficulty, announced: DifficultyAdjustment[]): void {
+  const log = difficulty.getLog();
+  expect(log).toEqual(announced);
+  log.forEach((adjustment, index) => {
+    expect(adjustment.previous).toEqual(index > 0 ? log[index - 1].current : neutral);
+    expectWithinLimits(adjustment.current);
+  });
+  expect(difficulty.getModifiers()).toEqual(log.at(-1)!.current);
+}
+
+describe('AdaptiveDifficulty', () => {
+  it('eases off for a player who keeps losing balls, down to the limits', () => {
+    const { simulation, difficulty, announced } = createGame();
+    const ball = simulation.balls[0];
+    ball.position.x = simulation.paddles[0].position.x + 8;
+
+    for (let i = 0; i < 30; i++) {
+      simulation.events.emit('ballLost', { ball, livesRemaining: 2 });
+      difficulty.update(1);
+    }
+
+    expect(announced.length).toBeGreaterThan(0);
+    expect(announced.every((adjustment) => adjustment.reason === 'lifeLost')).toBe(true);
+    expect(announced.every((adjustment) => adjustment.performance < 0)).toBe(true);
+    expectLogged(difficulty, announced);
+    for (const key of keys) {
+      expect(difficulty.getModifiers()[key]).toBeCloseTo(limits[key].min, 10);
+    }
+  });
+
+  it('speeds up for a player who returns every ball and clears levels fast, to the limits', () => {
+    const { simulation, difficulty, announced } = createGame();
+    const ball = simulation.balls[0];
+    const paddle = simulation.paddles[0];
+
+    for (let level = 1; level <= 30; level++) {
+      for (let hit = 0; hit < 10; hit++) {
+        simulation.events.emit('paddleHit', { ball, paddle, offset: 0 });
+        difficulty.update(1);
+      }
+      simulation.events.emit('levelComplete', { level, score: 0 });
+    }
+
+    expect(announced.length).toBeGreaterThan(0);
+    expect(announced.every((adjustment) => adjustment.performance > 0)).toBe(true);
+    expect(announced[0].snapshot.hitRate).toBe(1);
+    expect(announced[0].snapshot.levelTime).toBe(10);
+    expectLogged(difficulty, announced);
+    for (const key of keys) {
+      expect(difficulty.getModifiers()[key]).toBeCloseTo(limits[key].max, 10);
+    }
+  });
+
+  it('leaves the game alone while nothing has gone either way', () => {
+    const { difficulty, announced } = createGame();
+    difficulty.update(25);
+
+    expect(announced).toEqual([]);
+    expect(difficulty.getLog()).toEqual([]);
+    expect(difficulty.getModifiers()).toEqual(neutral);
+  });
+
+  it('makes no adjustments when disabled', () => {
+    const simulation = createHeadlessGame({ seed: 1 });
+    const ball = simulation.balls[0];
+    for (let i = 0; i < 5; i++) {
+      simulation.events.emit('ballLost', { ball, livesRemaining: 2 });
+    }
+    simulation.difficulty.update(60);
+
+    expect(simulation.difficulty.isEnabled()).toBe(false);
+    expect(simulation.difficulty.getLog()).toEqual([]);
+  });
+});
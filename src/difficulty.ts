@@ -0,0 +1,231 @@
+import { GameSimulation } from './gameSimulation';
+
+// Multipliers the adaptive difficulty applies on top of the level's own values
+export interface DifficultyModifiers {
+  swarmSpeed: number; // Swarm horizontalSpeed
+  moveDownAmount: number; // How far the swarm drops at a time
+  ballMaxSpeed: number;
+  projectileRate: number; // Alien fire rate
+}
+
+export type DifficultyLimits = Record<keyof DifficultyModifiers, { min: number; max: number }>;
+
+// What the adjustment was based on, from the last EVALUATION_WINDOW seconds of play
+export interface PerformanceSnapshot {
+  livesLost: number;
+  hitsTaken: number; // Shots, rams and landings, whatever their penalty
+  hitRate: number | null; // Share of balls reaching the paddle that it sent back
+  averageMissDistance: number | null; // How far from the paddle's edge lost balls went by
+  levelTime: number | null; // Seconds the level took, when it was just cleared
+}
+
+// One change to the modifiers, kept for tuning
+export interface DifficultyAdjustment {
+  tick: number;
+  level: number;
+  reason: 'lifeLost' | 'levelComplete' | 'review';
+  performance: number; // -1 when struggling to 1 when cruising
+  snapshot: PerformanceSnapshot;
+  previous: DifficultyModifiers;
+  current: DifficultyModifiers;
+}
+
+const NEUTRAL: DifficultyModifiers = {
+  swarmSpeed: 1,
+  moveDownAmount: 1,
+  ballMaxSpeed: 1,
+  projectileRate: 1,
+};
+
+const EVALUATION_WINDOW = 60; // Seconds of play the performance is judged on
+const REVIEW_INTERVAL = 20; // Seconds of play between routine reviews
+const TARGET_LEVEL_TIME = 120; // Seconds a level should take a player who is keeping up
+const TARGET_HIT_RATE = 0.75;
+const DEAD_ZONE = 0.2; // Performance closer to 0 than this changes nothing
+const MAX_STEP = 0.1; // Largest change to a modifier in one adjustment
+
+interface TimedRecord {
+  time: number; // Play time it happened at
+}
+
+// Follows how the player is doing (lives lost, shots taken, paddle hit rate,
+// how far missed balls went by, and how long levels take) and nudges the swarm
+// speed and drop, the ball's top speed and the alien fire rate within
+// configured limits. It only listens to game events and updates in step with
+// the simulation, so replays stay deterministic. The modifiers carry over
+// when a new game starts, so a player who keeps losing gets an easier restart.
+export class AdaptiveDifficulty {
+  private game: GameSimulation;
+  private limits: DifficultyLimits;
+  private enabled: boolean;
+  private modifiers: DifficultyModifiers = { ...NEUTRAL };
+  private log: DifficultyAdjustment[] = [];
+
+  // Play time, and what happened within the evaluation window
+  private playTime: number = 0;
+  private levelStartTime: number = 0;
+  private reviewTimer: number = REVIEW_INTERVAL;
+  private livesLost: TimedRecord[] = [];
+  private hitsTaken: TimedRecord[] = [];
+  private returns: TimedRecord[] = [];
+  private misses: (TimedRecord & { distance: number })[] = [];
+
+  constructor(game: GameSimulation, enabled: boolean, limits: DifficultyLimits) {
+    this.game = game;
+    this.enabled = enabled;
+    this.limits = limits;
+    if (!enabled) return;
+
+    // Side hits are saves as well; anything the paddle touches counts as returned
+    game.events.on('paddleHit', () => this.returns.push({ time: this.playTime }));
+    game.events.on('ballLost', ({ ball }) => {
+      this.misses.push({ time: this.playTime, distance: this.missDistance(ball.position.x) });
+      this.livesLost.push({ time: this.playTime });
+      this.adjust('lifeLost', null);
+    });
+    const onHit = (costsLife: boolean) => {
+      this.hitsTaken.push({ time: this.playTime });
+      if (costsLife) {
+        this.livesLost.push({ time: this.playTime });
+        this.adjust('lifeLost', null);
+      }
+    };
+    game.events.on('paddleShot', ({ penalty }) => onHit(penalty === 'life'));
+    game.events.on('paddleRammed', ({ penalty }) => onHit(penalty === 'life'));
+    // A landed alien counts as a hit, and costs a life under the lives rule
+    game.events.on('alienLanded', ({ rule }) => onHit(rule === 'life'));
+    game.events.on('levelComplete', () => {
+      this.adjust('levelComplete', this.playTime - this.levelStartTime);
+      this.levelStartTime = this.playTime;
+    });
+    game.events.on('gameOver', () => this.startGame());
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  getModifiers(): Readonly<DifficultyModifiers> {
+    return this.modifiers;
+  }
+
+  // Every adjustment made so far, oldest first
+  getLog(): readonly DifficultyAdjustment[] {
+    return this.log;
+  }
+
+  // Called on every tick in play: count play time and review the player's performance now and then
+  update(deltaTime: number): void {
+    if (!this.enabled) return;
+
+    this.playTime += deltaTime;
+    this.reviewTimer -= deltaTime;
+    if (this.reviewTimer <= 0) {
+      this.adjust('review', null);
+    }
+  }
+
+  // A new game starts from scratch except for the modifiers
+  private startGame(): void {
+    this.levelStartTime = this.playTime;
+    this.livesLost = [];
+    this.hitsTaken = [];
+    this.returns = [];
+    this.misses = [];
+  }
+
+  // Distance between a lost ball and the edge of the nearest paddle
+  private missDistance(x: number): number {
+    let distance = Infinity;
+    for (const paddle of this.game.paddles) {
+      const gap = Math.abs(x - paddle.position.x) - paddle.size.width / 2;
+      distance = Math.min(distance, Math.max(gap, 0));
+    }
+    return Number.isFinite(distance) ? distance : 0;
+  }
+
+  private snapshot(levelTime: number | null): PerformanceSnapshot {
+    const since = this.playTime - EVALUATION_WINDOW;
+    const recent = <T extends TimedRecord>(records: T[]): T[] =>
+      records.filter((record) => record.time >= since);
+
+    const returns = recent(this.returns).length;
+    const misses = recent(this.misses);
+    return {
+      livesLost: recent(this.livesLost).length,
+      hitsTaken: recent(this.hitsTaken).length,
+      hitRate: returns + misses.length > 0 ? returns / (returns + misses.length) : null,
+      averageMissDistance:
+        misses.length > 0
+          ? misses.reduce((sum, miss) => sum + miss.distance, 0) / misses.length
+          : null,
+      levelTime,
+    };
+  }
+
+  // Score a snapshot from -1 (struggling) to 1 (cruising)
+  private rate(snapshot: PerformanceSnapshot): number {
+    let performance = 0;
+    performance -= 0.4 * snapshot.livesLost;
+    performance -= 0.15 * snapshot.hitsTaken;
+    if (snapshot.hitRate !== null) {
+      performance += (snapshot.hitRate - TARGET_HIT_RATE) * 2;
+    }
+    if (snapshot.averageMissDistance !== null) {
+      // Near misses are forgiven; balls that go by far away mean the player is lost
+      performance -= Math.min(snapshot.averageMissDistance / 4, 0.5);
+    }
+    if (snapshot.levelTime !== null) {
+      const pace = (TARGET_LEVEL_TIME - snapshot.levelTime) / TARGET_LEVEL_TIME;
+      performance += Math.max(-0.5, Math.min(pace, 0.5));
+    }
+    return Math.max(-1, Math.min(performance, 1));
+  }
+
+  // Review the recent performance and move every modifier towards harder or
+  // easier, logging the change
+  private adjust(reason: DifficultyAdjustment['reason'], levelTime: number | null): void {
+    this.reviewTimer = REVIEW_INTERVAL;
+
+    const snapshot = this.snapshot(levelTime);
+    const performance = this.rate(snapshot);
+    if (Math.abs(performance) < DEAD_ZONE) return;
+
+    const previous = { ...this.modifiers };
+    const keys = Object.keys(previous) as (keyof DifficultyModifiers)[];
+    const step = MAX_STEP * performance;
+    for (const key of keys) {
+      const { min, max } = this.limits[key];
+      this.modifiers[key] = Math.max(min, Math.min(this.modifiers[key] + step, max));
+    }
+    if (keys.every((key) => previous[key] === this.modifiers[key])) {
+      return; // Already at the limits
+    }
+
+    const adjustment: DifficultyAdjustment = {
+      tick: this.game.tick,
+      level: this.game.getLevel(),
+      reason,
+      performance,
+      snapshot,
+      previous,
+      current: { ...this.modifiers },
+    };
+    this.log.push(adjustment);
+    this.game.events.emit('difficultyAdjusted', adjustment);
+  }
+}
+
+// One line describing an adjustment, for the debug view while tuning
+export function formatDifficultyAdjustment(adjustment: DifficultyAdjustment): string {
+  const changes = (Object.keys(adjustment.current) as (keyof DifficultyModifiers)[])
+    .map(
+      (key) =>
+        `${key} ${adjustment.previous[key].toFixed(2)}->${adjustment.current[key].toFixed(2)}`
+    )
+    .join(', ');
+  return (
+    `difficulty ${adjustment.reason} at tick ${adjustment.tick} (level ${adjustment.level}, ` +
+    `performance ${adjustment.performance.toFixed(2)}): ${changes}`
+  );
+}
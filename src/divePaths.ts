@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+
+// Flight paths for aliens that break out of the formation. Paths lie in the XY
+// plane and are followed at a constant speed, by arc length.
+
+const LOOP_SIZE = 2.5; // Width and height of the loop an alien peels off with
+const SWOOP_LENGTH = 4; // How far before the target the alien lines up on it
+const RETURN_SWING = 3; // How far past the dive an alien carries on before turning home
+const SLOT_APPROACH = 3; // Height above its slot an alien settles in from
+
+// Loop up and out of the formation towards `side`, swoop back in through the
+// target and carry straight on until `exitDepth` below it
+export function createDivePath(
+  start: { x: number; y: number },
+  target: { x: number; y: number },
+  side: 1 | -1,
+  exitDepth: number
+): THREE.CurvePath<THREE.Vector2> {
+  const path = new THREE.CurvePath<THREE.Vector2>();
+
+  const from = new THREE.Vector2(start.x, start.y);
+  const loopEnd = new THREE.Vector2(start.x + side * LOOP_SIZE, start.y);
+  path.add(
+    new THREE.CubicBezierCurve(
+      from,
+      new THREE.Vector2(from.x, from.y + LOOP_SIZE),
+      new THREE.Vector2(loopEnd.x, loopEnd.y + LOOP_SIZE),
+      loopEnd
+    )
+  );
+
+  // Cross the target heading down and back under the loop
+  const aim = new THREE.Vector2(target.x, target.y);
+  const heading = new THREE.Vector2(-side * 0.5, -1).normalize();
+  path.add(
+    new THREE.CubicBezierCurve(
+      loopEnd,
+      new THREE.Vector2(loopEnd.x, loopEnd.y - SWOOP_LENGTH),
+      aim.clone().addScaledVector(heading, -SWOOP_LENGTH),
+      aim
+    )
+  );
+
+  const exit = aim.clone().addScaledVector(heading, exitDepth / -heading.y);
+  path.add(new THREE.LineCurve(aim, exit));
+
+  return path;
+}
+
+// Carry on in the direction of the dive, then turn and settle into the slot
+// from above
+export function createReturnPath(
+  start: { x: number; y: number },
+  heading: { x: number; y: number },
+  slot: { x: number; y: number }
+): THREE.CubicBezierCurve {
+  return new THREE.CubicBezierCurve(
+    new THREE.Vector2(start.x, start.y),
+    new THREE.Vector2(start.x + heading.x * RETURN_SWING, start.y + heading.y * RETURN_SWING),
+    new THREE.Vector2(slot.x, slot.y + SLOT_APPROACH),
+    new THREE.Vector2(slot.x, slot.y)
+  );
+}
@@ -0,0 +1,48 @@
+// Minimal typed event emitter. `Events` maps each event name to its payload,
+// so listeners and emitters are checked against the same shape.
+export type EventListener<T> = (payload: T) => void;
+
+export class EventBus<Events extends object> {
+  private listeners: { [K in keyof Events]?: EventListener<Events[K]>[] } = {};
+
+  // Subscribe to an event; the returned function unsubscribes again
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    (this.listeners[type] ??= []).push(listener);
+    return () => this.off(type, listener);
+  }
+
+  // Subscribe for the next occurrence only
+  once<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    const unsubscribe = this.on(type, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    const listeners = this.listeners[type];
+    if (!listeners) return;
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  // Call every listener in subscription order. Listeners added or removed while
+  // an event is being delivered take effect from the next emit.
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const listeners = this.listeners[type];
+    if (!listeners) return;
+
+    for (const listener of [...listeners]) {
+      listener(payload);
+    }
+  }
+
+  // Remove every listener, e.g. when the owner is disposed
+  clear(): void {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+import { Scheduler } from './scheduler';
+
+const LIFETIME = 1.5; // Seconds before a text has faded out
+const RISE_SPEED = 1.5; // World units per second
+
+// Short-lived text in the 3D scene, such as bonus points rising from where the
+// mothership was hit. Purely cosmetic; drawn with a canvas texture, so it needs
+// a DOM and is only used by the browser states, which animate it on their
+// scheduler.
+export class FloatingTextLayer {
+  private scene: THREE.Scene;
+  private scheduler: Scheduler;
+  private sprites: Set<THREE.Sprite> = new Set();
+
+  constructor(scene: THREE.Scene, scheduler: Scheduler) {
+    this.scene = scene;
+    this.scheduler = scheduler;
+  }
+
+  show(text: string, position: { x: number; y: number; z: number }, color: string): void {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 64;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.font = 'bold 48px monospace';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.lineWidth = 6;
+    context.strokeStyle = 'black';
+    context.strokeText(text, canvas.width / 2, canvas.height / 2);
+    context.fillStyle = color;
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+    const material = new THREE.SpriteMaterial({
+      map: new THREE.CanvasTexture(canvas),
+      transparent: true,
+      depthTest: false,
+    });
+    const sprite = new THREE.Sprite(material);
+    sprite.position.set(position.x, position.y, position.z + 1);
+    sprite.scale.set(4, 1, 1);
+    sprite.renderOrder = 1;
+    this.scene.add(sprite);
+    this.sprites.add(sprite);
+
+    // Float the text upwards and fade it out
+    const startY = sprite.position.y;
+    this.scheduler.tween({
+      from: 0,
+      to: LIFETIME,
+      duration: LIFETIME,
+      onUpdate: (age) => {
+        sprite.position.y = startY + RISE_SPEED * age;
+        sprite.material.opacity = 1 - age / LIFETIME;
+      },
+      onComplete: () => this.disposeSprite(sprite),
+    });
+  }
+
+  private disposeSprite(sprite: THREE.Sprite): void {
+    sprite.removeFromParent();
+    sprite.material.map?.dispose();
+    sprite.material.dispose();
+    this.sprites.delete(sprite);
+  }
+
+  dispose(): void {
+    this.sprites.forEach((sprite) => this.disposeSprite(sprite));
+  }
+}
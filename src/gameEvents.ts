@@ -0,0 +1,76 @@
+import { AlienSide, AlienType } from './alienTypes';
+import { BossPartKind, BossPhase } from './Boss';
+import { BunkerDamageCause } from './BunkerManager';
+import { DifficultyAdjustment } from './difficulty';
+import { Ball } from './Ball';
+import { Paddle } from './Paddle';
+import { GameState } from './gameSimulation';
+import { InvasionRule, ProjectileHitPenalty } from './config';
+
+// Everything that happens in a match that audio, HUD, achievements, analytics
+// or effects may want to react to. Payloads are plain data plus references to
+// the entities involved; listeners must not change the simulation.
+export interface GameEvents {
+  alienDestroyed: {
+    type: AlienType;
+    points: number;
+    position: { x: number; y: number; z: number };
+  };
+  alienDamaged: {
+    type: AlienType;
+    hitPoints: number; // Remaining
+    position: { x: number; y: number; z: number };
+  };
+  alienHitBlocked: {
+    type: AlienType;
+    side: AlienSide; // Armored or shielded side the ball bounced off
+    position: { x: number; y: number; z: number };
+  };
+  ballLaunched: { ball: Ball };
+  ballSpawned: { ball: Ball }; // An extra ball joined the play
+  ballLost: { ball: Ball; livesRemaining: number }; // The last ball in play
+  extraBallLost: { ball: Ball; ballsRemaining: number }; // Costs nothing while others are in play
+  ballsCollided: { balls: [Ball, Ball]; position: { x: number; y: number; z: number } };
+  paddleHit: {
+    ball: Ball;
+    paddle: Paddle;
+    offset: number; // Where the ball landed: -1 left end, 0 centre, 1 right end
+  };
+  projectileFired: { position: { x: number; y: number; z: number } };
+  projectileDestroyed: { position: { x: number; y: number; z: number } }; // Knocked out by a ball
+  paddleShot: { paddle: Paddle; penalty: ProjectileHitPenalty };
+  paddleRammed: { paddle: Paddle; type: AlienType; penalty: ProjectileHitPenalty }; // By a diver
+  alienDiveStarted: { type: AlienType; position: { x: number; y: number; z: number } };
+  mothershipSpawned: { position: { x: number; y: number; z: number } };
+  mothershipDestroyed: {
+    points: number; // Randomized bonus
+    position: { x: number; y: number; z: number };
+  };
+  bossSpawned: { position: { x: number; y: number; z: number } };
+  bossPhaseChanged: { phase: BossPhase };
+  bossDamaged: {
+    part: BossPartKind;
+    health: number; // Left across the weak points and core, from 1 down to 0
+    position: { x: number; y: number; z: number };
+  };
+  bossWeakPointDestroyed: { points: number; position: { x: number; y: number; z: number } };
+  bossDefeated: { points: number; position: { x: number; y: number; z: number } };
+  bunkerDamaged: {
+    cause: BunkerDamageCause;
+    cellsDestroyed: number;
+    position: { x: number; y: number; z: number };
+  };
+  swarmReachedBottom: Record<string, never>; // Only with the 'gameOver' invasion rule
+  alienLanded: {
+    type: AlienType;
+    rule: Exclude<InvasionRule, 'gameOver'>;
+    shield: number; // Left after the landing, from 1 down to 0
+    livesRemaining: number;
+    position: { x: number; y: number; z: number };
+  };
+  invasionRuleChanged: { rule: InvasionRule };
+  difficultyAdjusted: DifficultyAdjustment; // Only with adaptiveDifficulty enabled
+  levelComplete: { level: number; score: number }; // The level that was just cleared
+  gameOver: { level: number; score: number };
+  stateChanged: { previous: GameState; current: GameState };
+}
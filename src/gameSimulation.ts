@@ -0,0 +1,895 @@
+import * as THREE from 'three';
+import { GameConfig, InvasionRule, ProjectileHitPenalty, defaultConfig } from './config';
+import { GameHud } from './types';
+import { Paddle } from './Paddle';
+import { BALL_COLORS, Ball } from './Ball';
+import { Alien } from './Alien';
+import { AlienManager } from './AlienManager';
+import { ProjectileManager } from './ProjectileManager';
+import { MothershipManager } from './MothershipManager';
+import { BOSS_LEVEL, BossManager } from './BossManager';
+import { BunkerManager } from './BunkerManager';
+import { AdaptiveDifficulty } from './difficulty';
+import { ParticleSystem } from './particles';
+import { ScheduledTask, Scheduler } from './scheduler';
+import { BallContact, PhysicsBackend, createPhysicsBackend } from './physics';
+import { EventBus } from './eventBus';
+import { GameEvents } from './gameEvents';
+import { RandomService, createRandomSeed } from './random';
+import { LevelDefinition, builtInLevels, getLevelDefinition } from './levels';
+
+// Game states
+export enum GameState {
+  READY, // Initial state, waiting for player to start
+  PLAYING, // Game in progress
+  GAME_OVER, // Player lost
+  LEVEL_COMPLETE, // Player cleared a level
+  PAUSED, // Game paused
+}
+
+// Angle between an extra ball and the ball it splits off
+const EXTRA_BALL_SPLIT_ANGLE = Math.PI / 6;
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+// Add debug flag
+const DEBUG_COLLISION_BOUNDARIES = false; // Set to true to enable collision boundary visualization
+
+// How each invasion rule is described on the start screen, in the order M cycles through them
+const INVASION_RULE_LABELS: Record<InvasionRule, string> = {
+  gameOver: 'Landing ends the game',
+  shield: 'Landings drain the shield',
+  life: 'Landings cost a life',
+};
+
+export interface SimulationOptions {
+  config?: Partial<GameConfig>;
+  // Seed for every random decision in the match; the same seed replays the same match
+  seed?: number;
+  // Receives score, lives, level and message updates; omit to run without any UI
+  hud?: GameHud;
+  // Cosmetic effects such as ball trails and explosions; off when running headless
+  effectsEnabled?: boolean;
+  // Levels to play in order; the built-in level files when omitted
+  levels?: readonly LevelDefinition[];
+}
+
+// The rules of the game: scoring, lives, levels, collisions and swarm movement.
+// It never touches the DOM or a WebGL context, so it runs headless under Node.
+// Entities still build their meshes into `scene`, which is just a scene graph
+// until a renderer draws it.
+export class GameSimulation {
+  scene: THREE.Scene;
+  worldBounds: {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+    minZ: number;
+    maxZ: number;
+  };
+  config: GameConfig;
+
+  // Expose debug collision boundaries property that can be accessed by other classes
+  public debugCollisionBoundaries: boolean = DEBUG_COLLISION_BOUNDARIES;
+  public readonly effectsEnabled: boolean;
+
+  // Gameplay and cosmetic random streams shared by every entity
+  public readonly random: RandomService;
+
+  // Gameplay events for audio, HUD, effects and anything else that wants to follow the match
+  public readonly events: EventBus<GameEvents> = new EventBus();
+
+  // Timers and tweens in simulation time: they advance once per tick, stop
+  // while the game is paused and are cancelled with the simulation
+  public readonly scheduler: Scheduler = new Scheduler();
+
+  // Make balls, paddles and aliens public so entities and physics backends can access them
+  public balls: Ball[] = [];
+  public paddles: Paddle[] = [];
+  public alienManager: AlienManager;
+  public projectiles: ProjectileManager;
+  public motherships: MothershipManager;
+  public bosses: BossManager;
+  public bunkers: BunkerManager;
+  public readonly difficulty: AdaptiveDifficulty;
+  public readonly particles: ParticleSystem;
+  private physics: PhysicsBackend;
+  private hud: GameHud | null;
+
+  // Game state
+  private state: GameState = GameState.READY;
+  private score: number = 0;
+  private lives: number = 3;
+  private level: number = 1;
+  private levels: readonly LevelDefinition[];
+
+  // What a landing alien does, and the planetary shield it wears down. The
+  // rule can only be changed before a game has started.
+  private invasionRule: InvasionRule;
+  private shield: number;
+  private gameStarted: boolean = false;
+
+  // Number of ticks simulated so far
+  private tickCount: number = 0;
+
+  // Boundaries
+  private bottomBoundary: number = 0.5;
+
+  // Ball lost tracking: the pending resume of play after a lost ball
+  private resumeTask: ScheduledTask | null = null;
+  private ballLostDelay: number = 2;
+
+  // Held paddle controls
+  private isMovingLeft: boolean = false;
+  private isMovingRight: boolean = false;
+
+  constructor(options: SimulationOptions = {}) {
+    // Create scene
+    this.scene = new THREE.Scene();
+
+    // Setup game state with configuration
+    this.config = {
+      ...defaultConfig,
+      ...options.config,
+    };
+
+    this.hud = options.hud ?? null;
+    this.effectsEnabled = options.effectsEnabled ?? true;
+    this.random = new RandomService(options.seed ?? createRandomSeed());
+    this.levels = options.levels ?? builtInLevels;
+    this.invasionRule = this.config.invasionRule;
+    this.shield = this.config.planetShield;
+    this.difficulty = new AdaptiveDifficulty(
+      this,
+      this.config.adaptiveDifficulty,
+      this.config.difficultyLimits
+    );
+
+    // Set up world bounds based on config
+    const halfSize = this.config.worldSize / 2;
+    this.worldBounds = {
+      minX: -halfSize,
+      maxX: halfSize,
+      minY: 0, // Bottom at y=0
+      maxY: 30, // Top at y=30 (matches the walls built by PlayState)
+      minZ: -halfSize,
+      maxZ: halfSize,
+    };
+
+    // Effects shared by every entity; without effects nothing is emitted
+    this.particles = new ParticleSystem(this.scene, this.random.cosmetic, {
+      capacity: this.config.particleCapacity,
+      presets: this.config.particlePresets,
+      enabled: this.effectsEnabled,
+    });
+
+    // Initialize game elements
+    this.paddles.push(this.createPaddle());
+    this.balls.push(this.createBall());
+    this.alienManager = this.createAlienManager();
+    this.projectiles = new ProjectileManager(this, this.scene);
+    this.motherships = new MothershipManager(this, this.scene);
+    this.bosses = new BossManager(this, this.scene);
+    this.bunkers = new BunkerManager(this, this.scene);
+    this.bunkers.setLevel(this.getCurrentLevelDefinition());
+    this.events.on('swarmReachedBottom', () => {
+      if (this.state === GameState.PLAYING) {
+        this.gameOver();
+      }
+    });
+    this.events.on('alienDestroyed', ({ points }) => this.addScore(points));
+    this.events.on('mothershipDestroyed', ({ points }) => this.addScore(points));
+    this.events.on('bossWeakPointDestroyed', ({ points }) => this.addScore(points));
+    this.events.on('bossSpawned', () => this.hud?.setBossHealth(1));
+    this.events.on('bossDamaged', ({ health }) => this.hud?.setBossHealth(health));
+    this.events.on('bossDefeated', ({ points }) => {
+      this.addScore(points);
+      this.hud?.setBossHealth(null);
+    });
+    this.physics = createPhysicsBackend(this.config.physicsBackend, this);
+
+    // Bring the HUD in line with the starting state
+    this.hud?.setScore(this.score);
+    this.hud?.setLives(this.lives);
+    this.hud?.setLevel(this.level);
+    this.updateShieldHud();
+    this.showTitle();
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+
+  getScore(): number {
+    return this.score;
+  }
+
+  getLives(): number {
+    return this.lives;
+  }
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  getInvasionRule(): InvasionRule {
+    return this.invasionRule;
+  }
+
+  // Planetary shield left, from 1 down to 0
+  getShield(): number {
+    return this.shield / this.config.planetShield;
+  }
+
+  get tick(): number {
+    return this.tickCount;
+  }
+
+  getAliveAlienCount(): number {
+    return this.alienManager.getAliveCount();
+  }
+
+  getPhysicsObjectCount(): number {
+    return this.balls.length + this.paddles.length;
+  }
+
+  private ballVsBall(
+    pos1: THREE.Vector3,
+    radius1: number,
+    pos2: THREE.Vector3,
+    radius2: number
+  ): boolean {
+    const distance = pos1.distanceTo(pos2);
+    return distance < radius1 + radius2;
+  }
+
+  // Bounce touching balls off each other. Balls have equal mass, so an elastic
+  // collision swaps their velocities along the line between their centres;
+  // they are also pushed apart so they don't stay stuck together.
+  private resolveBallCollisions(): void {
+    const free = this.balls.filter((ball) => !ball.isAttachedToPaddle);
+    for (let i = 0; i < free.length; i++) {
+      for (let j = i + 1; j < free.length; j++) {
+        const a = free[i];
+        const b = free[j];
+        if (!this.ballVsBall(a.position, a.size.radius, b.position, b.size.radius)) continue;
+
+        const normal = new THREE.Vector3().subVectors(a.position, b.position).setZ(0);
+        const distance = normal.length();
+        if (distance === 0) continue; // Just split; their velocities part them
+        normal.divideScalar(distance);
+
+        // Only balls moving towards each other bounce
+        const approach = new THREE.Vector3().subVectors(a.velocity, b.velocity).dot(normal);
+        if (approach >= 0) continue;
+
+        a.velocity.addScaledVector(normal, -approach);
+        b.velocity.addScaledVector(normal, approach);
+
+        const overlap = (a.size.radius + b.size.radius - distance) / 2;
+        a.position.addScaledVector(normal, overlap);
+        b.position.addScaledVector(normal, -overlap);
+
+        this.events.emit('ballsCollided', {
+          balls: [a, b],
+          position: {
+            x: (a.position.x + b.position.x) / 2,
+            y: (a.position.y + b.position.y) / 2,
+            z: 0,
+          },
+        });
+      }
+    }
+  }
+
+  // Primary action (space bar): start, restart or release the ball depending on state
+  primaryAction(): void {
+    if (this.resumeTask !== null) {
+      // During the pause after a lost ball: skip the rest of it
+      this.resumePlay();
+    } else if (this.state === GameState.READY || this.state === GameState.LEVEL_COMPLETE) {
+      this.startGame();
+    } else if (this.state === GameState.GAME_OVER) {
+      this.resetGame();
+    } else if (this.state === GameState.PLAYING) {
+      // Release the ball if it's attached to the paddle
+      this.releaseBall();
+    }
+  }
+
+  // Release the ball from the paddle
+  releaseBall(): void {
+    // Only release the ball if we're in PLAYING state
+    if (this.state !== GameState.PLAYING) return;
+
+    for (const ball of this.balls) {
+      if (ball.isAttachedToPaddle) {
+        ball.releaseBall();
+        this.events.emit('ballLaunched', { ball });
+        break; // Only release one ball at a time
+      }
+    }
+  }
+
+  setMovingLeft(pressed: boolean): void {
+    this.isMovingLeft = pressed;
+    this.paddles.forEach((paddle) => paddle.setMovingLeft(pressed));
+  }
+
+  setMovingRight(pressed: boolean): void {
+    this.isMovingRight = pressed;
+    this.paddles.forEach((paddle) => paddle.setMovingRight(pressed));
+  }
+
+  private createPaddle(): Paddle {
+    // Create paddle at bottom of screen
+    const paddleSize = { width: 4, height: 0.5, depth: 1 };
+    const paddlePosition = { x: 0, y: this.bottomBoundary, z: 0 };
+    const paddle = new Paddle(this, paddleSize, paddlePosition, this.config.worldSize);
+    paddle.setMovingLeft(this.isMovingLeft);
+    paddle.setMovingRight(this.isMovingRight);
+
+    // Add to scene
+    this.scene.add(paddle.mesh);
+
+    return paddle;
+  }
+
+  private createBall(): Ball {
+    // Create ball above paddle
+    const ballRadius = 0.4;
+    const ballPosition = { x: 0, y: this.bottomBoundary + 2, z: 0 };
+    // Each ball in play gets a colour of its own
+    const color =
+      BALL_COLORS.find((color) => !this.balls.some((ball) => ball.color === color)) ??
+      BALL_COLORS[this.balls.length % BALL_COLORS.length];
+    const ball = new Ball(this, this.random, ballRadius, ballPosition, this.scene, color);
+
+    // Ensure the ball starts on the paddle
+    if (this.paddles.length > 0) {
+      ball.attachToPaddle(this.paddles[0].position, this.paddles[0].size);
+    }
+
+    // Add to scene
+    this.scene.add(ball.mesh);
+    if (this.debugCollisionBoundaries) {
+      ball.createCollisionHelper();
+    }
+
+    return ball;
+  }
+
+  // Multiball: split an extra ball off the ball in flight, or launch one from
+  // the paddle if none is, up to maxBalls in play. Returns the new ball.
+  spawnExtraBall(): Ball | null {
+    if (this.state !== GameState.PLAYING || this.balls.length >= this.config.maxBalls) {
+      return null;
+    }
+
+    const source = this.balls.find((ball) => !ball.isAttachedToPaddle);
+    const ball = this.createBall();
+    if (source) {
+      // Both leave from the same spot at an angle, so they part straight away
+      ball.position.copy(source.position);
+      ball.storePreviousPosition();
+      ball.launch(source.velocity.clone().applyAxisAngle(Z_AXIS, EXTRA_BALL_SPLIT_ANGLE));
+    } else {
+      ball.releaseBall();
+    }
+
+    this.balls.push(ball);
+    this.events.emit('ballSpawned', { ball });
+    return ball;
+  }
+
+  // Take a ball out of play
+  private removeBall(ball: Ball): void {
+    ball.dispose();
+    this.balls = this.balls.filter((other) => other !== ball);
+  }
+
+  private createAlienManager(): AlienManager {
+    // Create alien manager
+    const alienManager = new AlienManager(
+      this,
+      this.random,
+      this.scene,
+      this.config.worldSize,
+      this.getCurrentLevelDefinition(),
+      this.bottomBoundary + 1 // Bottom boundary for aliens slightly above paddle
+    );
+
+    return alienManager;
+  }
+
+  // Every bossLevelInterval regular levels are followed by a boss level
+  isBossLevel(level: number = this.level): boolean {
+    const interval = this.config.bossLevelInterval;
+    return interval > 0 && level % (interval + 1) === 0;
+  }
+
+  // The level file for the current level, skipping the numbers taken by boss levels
+  private getCurrentLevelDefinition(): LevelDefinition {
+    if (this.isBossLevel()) return BOSS_LEVEL;
+
+    const interval = this.config.bossLevelInterval;
+    const bossLevelsSoFar = interval > 0 ? Math.floor(this.level / (interval + 1)) : 0;
+    return getLevelDefinition(this.levels, this.level - bossLevelsSoFar);
+  }
+
+  // Game state management methods
+  private startGame(): void {
+    this.gameStarted = true;
+
+    // Hide message
+    this.hideMessage();
+    this.alienManager.reset();
+    this.projectiles.clear();
+    this.motherships.reset();
+    // Leftover debris from the last level's final hits has no place in the new one
+    this.particles.clear();
+
+    // Set game state to playing
+    this.setState(GameState.PLAYING);
+  }
+
+  // Switch state and tell listeners about it
+  private setState(state: GameState): void {
+    if (state === this.state) return;
+
+    const previous = this.state;
+    this.state = state;
+    this.events.emit('stateChanged', { previous, current: state });
+  }
+
+  togglePause(): void {
+    if (this.state === GameState.PLAYING) {
+      this.setState(GameState.PAUSED);
+      this.showMessage('PAUSED\n\nPress P to Resume');
+    } else if (this.state === GameState.PAUSED) {
+      this.setState(GameState.PLAYING);
+      this.hideMessage();
+    }
+  }
+
+  private ballLost(ball: Ball): void {
+    // Prevent multiple ball lost events
+    if (this.resumeTask !== null) {
+      return;
+    }
+
+    // With other balls still in play, only the last one to drop costs a life
+    if (this.balls.length > 1) {
+      this.removeBall(ball);
+      this.events.emit('extraBallLost', { ball, ballsRemaining: this.balls.length });
+      return;
+    }
+
+    // Decrement lives
+    this.lives--;
+    this.hud?.setLives(this.lives);
+    this.events.emit('ballLost', { ball, livesRemaining: this.lives });
+
+    // Check for game over
+    if (this.lives <= 0) {
+      this.gameOver();
+      return;
+    }
+
+    // Reset ball position
+    const resetPosition = {
+      x: 0,
+      y: this.bottomBoundary + 2,
+      z: 0,
+    };
+    ball.reset(resetPosition);
+    this.projectiles.clear();
+
+    // Attach ball to paddle
+    if (this.paddles.length > 0) {
+      ball.attachToPaddle(this.paddles[0].position, this.paddles[0].size);
+    }
+
+    // Show message
+    this.showMessage(`BALL LOST\n\nLives: ${this.lives}\n\nContinuing in 2 seconds...`);
+
+    // Pause briefly before continuing
+    this.setState(GameState.READY);
+    this.resumeTask = this.scheduler.after(this.ballLostDelay, () => this.resumePlay());
+  }
+
+  // Carry on with the level after a lost ball, leaving the swarm as it was
+  private resumePlay(): void {
+    this.resumeTask?.cancel();
+    this.resumeTask = null;
+    this.hideMessage();
+    this.setState(GameState.PLAYING);
+  }
+
+  private gameOver(): void {
+    this.setState(GameState.GAME_OVER);
+    this.showMessage('GAME OVER\n\nPress SPACE to Restart');
+    this.events.emit('gameOver', { level: this.level, score: this.score });
+  }
+
+  private levelComplete(): void {
+    this.setState(GameState.LEVEL_COMPLETE);
+    this.events.emit('levelComplete', { level: this.level, score: this.score });
+
+    // Increment level
+    this.level++;
+    this.hud?.setLevel(this.level);
+
+    // Show message
+    const warning = this.isBossLevel() ? 'WARNING: BOSS APPROACHING\n\n' : '';
+    this.showMessage(
+      `LEVEL ${this.level - 1} COMPLETE!\n\n${warning}Press SPACE to Start Level ${this.level}`
+    );
+
+    // Bring in the next level's formation and bunkers, or its boss
+    this.alienManager.setLevel(this.getCurrentLevelDefinition());
+    this.bunkers.setLevel(this.getCurrentLevelDefinition());
+    this.projectiles.clear();
+    this.motherships.reset();
+    this.bosses.reset();
+    this.hud?.setBossHealth(null);
+    if (this.isBossLevel()) {
+      this.bosses.spawn();
+    }
+
+    // Drop any extra balls and put the remaining one back on the paddle
+    this.balls.slice(1).forEach((ball) => this.removeBall(ball));
+    const ballPosition = { x: 0, y: this.bottomBoundary + 2, z: 0 };
+    for (const ball of this.balls) {
+      ball.reset(ballPosition);
+      if (this.paddles.length > 0) {
+        ball.attachToPaddle(this.paddles[0].position, this.paddles[0].size);
+      }
+    }
+  }
+
+  private resetGame(): void {
+    // Reset game state
+    this.score = 0;
+    this.lives = 3;
+    this.level = 1;
+    this.shield = this.config.planetShield;
+    this.gameStarted = false;
+    this.resumeTask?.cancel();
+    this.resumeTask = null;
+
+    // Update UI
+    this.hud?.setScore(this.score);
+    this.hud?.setLives(this.lives);
+    this.hud?.setLevel(this.level);
+    this.updateShieldHud();
+
+    this.alienManager.setLevel(this.getCurrentLevelDefinition());
+    this.bunkers.setLevel(this.getCurrentLevelDefinition());
+    this.projectiles.clear();
+    this.motherships.reset();
+    this.bosses.reset();
+    this.hud?.setBossHealth(null);
+    this.particles.clear();
+
+    // Replace the paddle and ball with fresh ones
+    this.paddles.forEach((paddle) => paddle.dispose());
+    this.balls.forEach((ball) => ball.dispose());
+    this.balls = [];
+    this.paddles = [this.createPaddle()];
+    this.balls = [this.createBall()];
+
+    // Set state to ready
+    this.setState(GameState.READY);
+
+    // Show start message
+    this.showTitle();
+  }
+
+  // Start screen, with the invasion rule the next game will be played under
+  private showTitle(): void {
+    this.showMessage(
+      'PONG INVADERS\n\nPress SPACE to Start\n\nUse A/D or Arrow Keys to move\n\n' +
+        `M: Invasion rule - ${INVASION_RULE_LABELS[this.invasionRule]}`
+    );
+  }
+
+  // Switch to the next invasion rule; only on the start screen, before the game begins
+  cycleInvasionRule(): void {
+    if (this.gameStarted || this.state !== GameState.READY) return;
+
+    const rules = Object.keys(INVASION_RULE_LABELS) as InvasionRule[];
+    this.invasionRule = rules[(rules.indexOf(this.invasionRule) + 1) % rules.length];
+    this.updateShieldHud();
+    this.showTitle();
+    this.events.emit('invasionRuleChanged', { rule: this.invasionRule });
+  }
+
+  private updateShieldHud(): void {
+    this.hud?.setShield(this.invasionRule === 'shield' ? this.getShield() : null);
+  }
+
+  private addScore(points: number): void {
+    this.score += points;
+    this.hud?.setScore(this.score);
+  }
+
+  private showMessage(message: string): void {
+    this.hud?.showMessage(message);
+  }
+
+  private hideMessage(): void {
+    this.hud?.hideMessage();
+  }
+
+  // Show or hide the collision boundary wireframes of every game object
+  setCollisionBoundariesVisible(visible: boolean): void {
+    this.debugCollisionBoundaries = visible;
+    if (visible) {
+      this.createCollisionHelpers();
+    } else {
+      this.removeCollisionHelpers();
+    }
+  }
+
+  // Create collision helpers for all game objects
+  private createCollisionHelpers(): void {
+    for (const ball of this.balls) {
+      ball.createCollisionHelper();
+    }
+
+    this.alienManager.createCollisionHelpers();
+    this.projectiles.createCollisionHelpers();
+    this.motherships.createCollisionHelpers();
+    this.bosses.createCollisionHelpers();
+    this.bunkers.createCollisionHelpers();
+
+    for (const paddle of this.paddles) {
+      paddle.createCollisionHelper();
+    }
+  }
+
+  // Remove all collision helpers
+  private removeCollisionHelpers(): void {
+    for (const ball of this.balls) {
+      ball.removeCollisionHelper();
+    }
+
+    this.alienManager.removeCollisionHelpers();
+    this.projectiles.removeCollisionHelpers();
+    this.motherships.removeCollisionHelpers();
+    this.bosses.removeCollisionHelpers();
+    this.bunkers.removeCollisionHelpers();
+
+    for (const paddle of this.paddles) {
+      paddle.removeCollisionHelper();
+    }
+  }
+
+  // Interpolate every mesh between the last two simulation ticks
+  updateMeshes(alpha: number): void {
+    this.paddles.forEach((paddle) => paddle.updateMesh(alpha));
+    this.balls.forEach((ball) => ball.updateMesh(alpha));
+    this.alienManager.updateMeshes(alpha);
+    this.projectiles.updateMeshes(alpha);
+    this.motherships.updateMeshes(alpha);
+    this.bosses.updateMeshes(alpha);
+    this.physics.updateMeshes(alpha);
+  }
+
+  // Advance the game by one fixed simulation tick
+  update(deltaTime: number): void {
+    this.tickCount++;
+    // Effects and timers hold still while paused
+    const paused = this.state === GameState.PAUSED;
+    this.scheduler.paused = paused;
+    if (!paused) {
+      this.particles.update(deltaTime);
+    }
+
+    // Snapshot positions so rendering can interpolate towards this tick
+    this.paddles.forEach((paddle) => paddle.storePreviousPosition());
+    this.balls.forEach((ball) => ball.storePreviousPosition());
+    this.alienManager.storePreviousPositions();
+    this.projectiles.storePreviousPositions();
+    this.motherships.storePreviousPositions();
+    this.bosses.storePreviousPositions();
+
+    if (this.state !== GameState.PLAYING) {
+      // Keep the swarm hovering while play is on hold
+      this.alienManager.update(deltaTime);
+      this.scheduler.update(deltaTime);
+      return;
+    }
+
+    this.scheduler.update(deltaTime);
+    this.difficulty.update(deltaTime);
+    this.alienManager.update(deltaTime);
+    this.bunkers.update();
+    this.motherships.update(deltaTime);
+    this.bosses.update(deltaTime);
+
+    // Update all other game objects
+    this.paddles.forEach((paddle) => paddle.update(deltaTime));
+
+    // Move free balls, then let each ball apply its speed limits and effects
+    this.physics.step(deltaTime);
+    this.resolveBallCollisions();
+    this.balls.forEach((ball) => ball.update(deltaTime));
+
+    // Aliens shoot back and dive; projectiles can hit the paddle, erode a bunker or be
+    // knocked out by a ball
+    this.alienManager.updateFiring(deltaTime);
+    this.alienManager.updateDives(deltaTime);
+    if (this.state !== GameState.PLAYING) return;
+    this.projectiles.update(deltaTime);
+    if (this.state !== GameState.PLAYING) return;
+
+    // Check if level is complete: the formation is cleared, or the boss is beaten
+    if (this.isBossLevel() ? this.bosses.isDefeated() : this.alienManager.areAllDestroyed()) {
+      this.levelComplete();
+      return;
+    }
+
+    // Check if a ball has fallen below the paddle (lost ball)
+    for (const ball of [...this.balls]) {
+      if (!ball.isAttachedToPaddle && ball.position.y < this.bottomBoundary - 3) {
+        this.ballLost(ball);
+        if (this.state !== GameState.PLAYING) break;
+      }
+    }
+  }
+
+  // Apply the game rules to a contact reported by the physics backend
+  handleBallContact(ball: Ball, contact: BallContact): void {
+    switch (contact.kind) {
+      case 'paddle': {
+        const offset = this.paddleOffset(ball, contact.paddle);
+
+        // Landing on top of a paddle aims the ball; side hits just bounce
+        if (contact.normal.y > 0) {
+          this.bounceOffPaddle(ball, contact.paddle, offset);
+        }
+        this.events.emit('paddleHit', { ball, paddle: contact.paddle, offset });
+        break;
+      }
+      case 'alien': {
+        if (contact.alien.isDestroyed) break;
+
+        // Damage the alien; points are scored by the alienDestroyed listener
+        if (this.alienManager.hitAlien(contact.alien, contact.normal) !== 'destroyed') break;
+
+        // Slightly boost the ball speed after destroying an alien
+        const speedBoost = 1.05;
+        ball.velocity.multiplyScalar(speedBoost);
+
+        if (this.effectsEnabled) {
+          this.physics.spawnDebris(contact.alien);
+        }
+        break;
+      }
+      case 'mothership':
+        // Bonus points are scored by the mothershipDestroyed listener; the
+        // bonus also includes an extra ball
+        if (!contact.mothership.isDestroyed) {
+          this.motherships.destroyMothership(contact.mothership);
+          this.spawnExtraBall();
+        }
+        break;
+      case 'boss':
+        // Weak points and the defeat are scored by the boss event listeners
+        this.bosses.hitPart(contact.part);
+        break;
+      case 'bunker':
+        this.bunkers.hitByBall(contact.bunker, contact.cell);
+        break;
+      case 'wall':
+        break;
+    }
+  }
+
+  // Send the ball back up at an angle set by where it landed on the paddle:
+  // straight up from the centre, up to paddleMaxBounceAngle at the ends. A
+  // moving paddle bends the angle further in its direction of travel. The
+  // ball keeps its speed, so enforceMaxSpeed and the minimum vertical speed in
+  // preventHorizontalStalemate still hold.
+  private bounceOffPaddle(ball: Ball, paddle: Paddle, offset: number): void {
+    const maxAngle = THREE.MathUtils.degToRad(this.config.paddleMaxBounceAngle);
+    const speed = Math.sqrt(ball.velocity.x * ball.velocity.x + ball.velocity.y * ball.velocity.y);
+
+    const x = Math.sin(offset * maxAngle) * speed + paddle.velocity.x * this.config.paddleSpin;
+    const y = Math.cos(offset * maxAngle) * speed;
+    const angle = THREE.MathUtils.clamp(Math.atan2(x, y), -maxAngle, maxAngle);
+
+    ball.velocity.x = Math.sin(angle) * speed;
+    ball.velocity.y = Math.cos(angle) * speed;
+  }
+
+  // An alien projectile hit a paddle: lose a life or freeze the paddle
+  handlePaddleShot(paddle: Paddle): void {
+    const penalty = this.config.projectileHitPenalty;
+    this.events.emit('paddleShot', { paddle, penalty });
+    this.applyPaddlePenalty(paddle, penalty);
+  }
+
+  // A diving alien crashed into a paddle; it costs the same as being shot
+  handlePaddleRammed(paddle: Paddle, alien: Alien): void {
+    const penalty = this.config.projectileHitPenalty;
+    this.events.emit('paddleRammed', { paddle, type: alien.type, penalty });
+    this.applyPaddlePenalty(paddle, penalty);
+  }
+
+  // An alien reached the bottom under the shield or lives rule and was destroyed;
+  // it drains the shield or costs a life, and the game ends when either runs out
+  handleAlienLanded(alien: Alien): void {
+    if (this.invasionRule === 'gameOver') return;
+
+    if (this.invasionRule === 'shield') {
+      this.shield = Math.max(this.shield - this.config.invasionShieldDamage, 0);
+      this.updateShieldHud();
+    } else {
+      this.lives--;
+      this.hud?.setLives(this.lives);
+    }
+    this.events.emit('alienLanded', {
+      type: alien.type,
+      rule: this.invasionRule,
+      shield: this.getShield(),
+      livesRemaining: this.lives,
+      position: { x: alien.position.x, y: alien.position.y, z: alien.position.z },
+    });
+
+    if (this.shield <= 0 || this.lives <= 0) {
+      this.gameOver();
+    }
+  }
+
+  private applyPaddlePenalty(paddle: Paddle, penalty: ProjectileHitPenalty): void {
+    if (penalty === 'stun') {
+      paddle.stun(this.config.paddleStunDuration);
+      return;
+    }
+
+    this.lives--;
+    this.hud?.setLives(this.lives);
+    if (this.lives <= 0) {
+      this.gameOver();
+      return;
+    }
+
+    // Clear the air so one volley can't cost several lives at once
+    this.projectiles.clear();
+  }
+
+  // Where the ball is along the paddle: -1 at the left end, 1 at the right end
+  private paddleOffset(ball: Ball, paddle: Paddle): number {
+    return THREE.MathUtils.clamp(
+      (ball.position.x - paddle.position.x) / (paddle.size.width / 2),
+      -1,
+      1
+    );
+  }
+
+  // Clean up resources
+  dispose(): void {
+    // Cancel any pending resume after a lost ball, and every other timer
+    this.resumeTask = null;
+    this.scheduler.cancelAll();
+
+    // Clean up game objects
+    for (const paddle of this.paddles) {
+      paddle.dispose();
+    }
+    for (const ball of this.balls) {
+      ball.dispose();
+    }
+    if (this.alienManager) this.alienManager.dispose();
+    this.projectiles.dispose();
+    this.motherships.dispose();
+    this.bosses.dispose();
+    this.bunkers.dispose();
+    this.particles.dispose();
+    this.physics.dispose();
+    this.events.clear();
+  }
+}
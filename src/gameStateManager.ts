@@ -3,13 +3,25 @@ import { IGameState } from './gameStates';
 import { PlayState } from './playState';
 import { SoundManager } from './soundManager';
 import { PreMarquee } from './preMarquee';
+import { ReplayState } from './replayState';
+import { LevelEditorState } from './levelEditorState';
+import { LevelDefinition } from './levels';
+import { Replay } from './replay';
+import { SimulationClock } from './simulationClock';
+import { defaultConfig } from './config';
 
 export class GameStateManager {
   private currentState: IGameState;
   public soundManager?: SoundManager;
   public renderer: THREE.WebGLRenderer;
 
+  // Fixed-step clock that drives every state's update
+  private clock: SimulationClock;
+  // Interpolation factor left over from the last update, used when rendering
+  private alpha: number = 0;
+
   constructor(renderer: THREE.WebGLRenderer) {
+    this.clock = new SimulationClock(defaultConfig.fixedTimeStep, defaultConfig.maxFrameTime);
     this.currentState = new PreMarquee(this); // Set PreMarquee as the initial state
     this.currentState.onEnter();
     this.renderer = renderer;
@@ -23,23 +35,49 @@ export class GameStateManager {
     return this.soundManager;
   }
 
-  switchToPlay(): void {
+  // Start a game, on the built-in levels unless a level list (e.g. a playtest) is given
+  switchToPlay(levels?: readonly LevelDefinition[]): void {
+    if (this.currentState) {
+      this.currentState.onExit();
+    }
+    this.currentState = new PlayState(this, levels);
+    this.currentState.onEnter();
+    this.clock.reset();
+  }
+
+  // Watch a recorded match, played on the same levels it was recorded on
+  switchToReplay(replay: Replay, levels?: readonly LevelDefinition[]): void {
+    if (this.currentState) {
+      this.currentState.onExit();
+    }
+    this.currentState = new ReplayState(this, replay, levels);
+    this.currentState.onEnter();
+    this.clock.reset();
+  }
+
+  // Edit a level, starting from the given one or the first built-in level
+  switchToLevelEditor(level?: LevelDefinition): void {
     if (this.currentState) {
       this.currentState.onExit();
     }
-    this.currentState = new PlayState(this);
+    this.currentState = new LevelEditorState(this, level);
     this.currentState.onEnter();
+    this.clock.reset();
   }
 
   getCurrentState(): IGameState {
     return this.currentState;
   }
 
-  update(deltaTime: number): void {
-    this.currentState.update(deltaTime);
+  // Feed real frame time into the fixed-step clock; the current state is
+  // updated once per simulation tick, never with the raw frame delta
+  update(frameTime: number): void {
+    this.alpha = this.clock.advance(frameTime, (stepSize) => {
+      this.currentState.update(stepSize);
+    });
   }
 
   render(): void {
-    this.currentState.render(this.renderer);
+    this.currentState.render(this.renderer, this.alpha);
   }
 }
@@ -1,8 +1,10 @@
 import * as THREE from 'three';
 
 export interface IGameState {
+  // Advance the state by one fixed simulation tick
   update(deltaTime: number): void;
   onEnter(): void;
   onExit(): void;
-  render(renderer: THREE.WebGLRenderer): void;
+  // Draw the state; alpha is how far (0..1) the frame is between the last two ticks
+  render(renderer: THREE.WebGLRenderer, alpha: number): void;
 }
@@ -0,0 +1,386 @@
+import { describe, expect, it } from 'vitest';
+import { Alien } from './Alien';
+import { InvasionRule } from './config';
+import { GameEvents } from './gameEvents';
+import { GameSimulation, GameState } from './gameSimulation';
+import {
+  createHeadlessGame,
+  hashGameState,
+  playReplay,
+  runTicks,
+  runUntil,
+  summarizeGame,
+} from './headless';
+import { PhysicsBackendKind, loadPhysicsBackend } from './physics';
+import { LevelDefinition, builtInLevels } from './levels';
+import { InputCommand, ReplayRecorder, applyInput, parseReplay, serializeReplay } from './replay';
+
+// Scripted player: launches the ball and keeps the paddle under the lowest
+// free ball. Inputs go through `send` so they can be recorded for a replay.
+function followBall(send: (command: InputCommand) => void) {
+  let left = false;
+  let right = false;
+
+  return (simulation: GameSimulation) => {
+    const state = simulation.getState();
+    if (state === GameState.READY || simulation.balls.every((ball) => ball.isAttachedToPaddle)) {
+      if (state !== GameState.GAME_OVER) send('action');
+    }
+
+    const free = simulation.balls.filter((ball) => !ball.isAttachedToPaddle);
+    const ball = free.sort((a, b) => a.position.y - b.position.y)[0] ?? simulation.balls[0];
+    const paddle = simulation.paddles[0];
+    const wantLeft = ball.position.x < paddle.position.x - 0.5;
+    const wantRight = ball.position.x > paddle.position.x + 0.5;
+
+    if (wantLeft !== left) send(wantLeft ? 'leftDown' : 'leftUp');
+    if (wantRight !== right) send(wantRight ? 'rightDown' : 'rightUp');
+    left = wantLeft;
+    right = wantRight;
+  };
+}
+
+// Play a scripted game, recording every input it makes
+function playRecorded(seed: number, ticks: number, levels?: LevelDefinition[]) {
+  const simulation = createHeadlessGame({ seed, levels });
+  const recorder = new ReplayRecorder(seed, levels);
+  const player = followBall((command) => {
+    recorder.record(simulation.tick, command);
+    applyInput(simulation, command);
+  });
+
+  const result = runTicks(simulation, ticks, player);
+  return { result, replay: recorder.toReplay(ticks) };
+}
+
+describe('headless games', () => {
+  it('runs without a DOM or WebGL', () => {
+    expect(typeof window).toBe('undefined');
+    expect(typeof document).toBe('undefined');
+    expect(typeof WebGLRenderingContext).toBe('undefined');
+
+    const simulation = createHeadlessGame({ seed: 1 });
+    expect(summarizeGame(simulation)).toEqual({
+      ticks: 0,
+      state: GameState.READY,
+      score: 0,
+      lives: 3,
+      level: 1,
+      aliensRemaining: simulation.getAliveAlienCount(),
+    });
+
+    simulation.primaryAction();
+    const result = runTicks(simulation, 600);
+    expect(result.ticks).toBe(600);
+    expect(result.state).toBe(GameState.PLAYING);
+  });
+
+  it('ends the game when the ball is never returned', () => {
+    const simulation = createHeadlessGame({ seed: 1 });
+    simulation.setMovingLeft(true);
+
+    // Launch every ball straight away and leave the paddle at the far left
+    const result = runUntil(
+      simulation,
+      (game) => {
+        if (game.balls[0].isAttachedToPaddle) game.primaryAction();
+        return game.getState() === GameState.GAME_OVER;
+      },
+      60 * 120
+    );
+    expect(result.state).toBe(GameState.GAME_OVER);
+    expect(result.lives).toBe(0);
+    expect(result.level).toBe(1);
+  });
+
+  it('keeps score, lives and level in line with what happened', () => {
+    // Shots only stun the paddle, so lives go only to missed balls
+    const simulation = createHeadlessGame({ seed: 2, config: { projectileHitPenalty: 'stun' } });
+    const startingAliens = simulation.getAliveAlienCount();
+    let points = 0;
+    let aliensDestroyed = 0;
+    let ballsLost = 0;
+    simulation.events.on('alienDestroyed', (event) => {
+      points += event.points;
+      aliensDestroyed++;
+    });
+    simulation.events.on('mothershipDestroyed', (event) => (points += event.points));
+    simulation.events.on('ballLost', () => ballsLost++);
+
+    const player = followBall((command) => applyInput(simulation, command));
+    const result = runTicks(simulation, 60 * 60, player);
+
+    expect(aliensDestroyed).toBeGreaterThan(0);
+    expect(result.score).toBe(points);
+    expect(result.aliensRemaining).toBe(startingAliens - aliensDestroyed);
+    expect(result.lives).toBe(3 - ballsLost);
+    expect(result.level).toBe(1);
+  });
+
+  it('raises the score by the points of each alien destroyed', () => {
+    const simulation = createHeadlessGame({ seed: 3 });
+    simulation.primaryAction();
+    const alien = simulation.alienManager.getAliens()[0];
+
+    simulation.alienManager.destroyAlien(alien);
+    expect(simulation.getScore()).toBe(alien.points);
+    expect(simulation.getAliveAlienCount()).toBe(createHeadlessGame().getAliveAlienCount() - 1);
+  });
+
+  it('resumes the level as it was when SPACE skips the pause after a lost ball', () => {
+    const simulation = createHeadlessGame({ seed: 1 });
+    simulation.primaryAction();
+    simulation.primaryAction();
+    const [first, second] = simulation.alienManager.getAliens();
+    simulation.alienManager.destroyAlien(first);
+
+    // Drop the ball, then skip the pause straight away
+    simulation.balls[0].position.y = -100;
+    runTicks(simulation, 1);
+    expect(simulation.getState()).toBe(GameState.READY);
+    simulation.primaryAction();
+
+    expect(simulation.getState()).toBe(GameState.PLAYING);
+    expect(simulation.getLives()).toBe(2);
+    expect(first.isDestroyed).toBe(true);
+    expect(simulation.alienManager.getAliens()[1]).toBe(second);
+    expect(simulation.getScore()).toBe(first.points);
+
+    // The cancelled countdown doesn't go off later
+    simulation.togglePause();
+    runTicks(simulation, 60 * 3);
+    expect(simulation.getState()).toBe(GameState.PAUSED);
+  });
+
+  it('plays the same game from the same seed and inputs', () => {
+    const first = playRecorded(3, 60 * 90).result;
+    const second = playRecorded(3, 60 * 90).result;
+    expect(second).toEqual(first);
+    // A game in which something happened, not two idle ones
+    expect(first.score).toBeGreaterThan(0);
+  });
+});
+
+describe('multiball', () => {
+  // A level in play with the ball launched, and an extra ball split off it
+  function startMultiball() {
+    const simulation = createHeadlessGame({ seed: 1, config: { projectileHitPenalty: 'stun' } });
+    simulation.primaryAction();
+    simulation.primaryAction();
+    runTicks(simulation, 10);
+    const extra = simulation.spawnExtraBall();
+    expect(extra).not.toBeNull();
+    expect(simulation.balls).toHaveLength(2);
+    return { simulation, original: simulation.balls[0], extra: extra! };
+  }
+
+  it('drops an extra ball without costing a life while another is in play', () => {
+    const { simulation, original, extra } = startMultiball();
+    const extraLost: GameEvents['extraBallLost'][] = [];
+    let ballsLost = 0;
+    simulation.events.on('extraBallLost', (event) => extraLost.push(event));
+    simulation.events.on('ballLost', () => ballsLost++);
+
+    extra.position.y = -100;
+    runTicks(simulation, 1);
+
+    expect(extraLost).toEqual([{ ball: extra, ballsRemaining: 1 }]);
+    expect(ballsLost).toBe(0);
+    expect(simulation.balls).toHaveLength(1);
+    expect(simulation.balls[0]).toBe(original);
+    expect(simulation.getLives()).toBe(3);
+    expect(simulation.getState()).toBe(GameState.PLAYING);
+
+    // The last ball in play costs a life as usual
+    original.position.y = -100;
+    runTicks(simulation, 1);
+    expect(ballsLost).toBe(1);
+    expect(simulation.getLives()).toBe(2);
+  });
+
+  it('swaps the velocities of two balls meeting head on', () => {
+    const { simulation, original, extra } = startMultiball();
+    const collisions: GameEvents['ballsCollided'][] = [];
+    simulation.events.on('ballsCollided', (event) => collisions.push(event));
+
+    // One ball climbing into another coming down, in open space above the paddle
+    const y = simulation.paddles[0].position.y + 4;
+    original.position.set(0, y - 0.45, 0);
+    original.velocity.set(0, 6, 0);
+    extra.position.set(0, y + 0.45, 0);
+    extra.velocity.set(0, -4, 0);
+    runTicks(simulation, 1);
+
+    expect(collisions).toHaveLength(1);
+    expect(collisions[0].balls).toEqual([original, extra]);
+    expect(original.velocity.x).toBeCloseTo(0, 10);
+    expect(original.velocity.y).toBeCloseTo(-4, 10);
+    expect(extra.velocity.x).toBeCloseTo(0, 10);
+    expect(extra.velocity.y).toBeCloseTo(6, 10);
+
+    // Pushed apart, so they don't collide again on the next tick
+    expect(extra.position.y - original.position.y).toBeGreaterThanOrEqual(
+      original.size.radius + extra.size.radius - 1e-9
+    );
+    runTicks(simulation, 1);
+    expect(collisions).toHaveLength(1);
+  });
+});
+
+describe('invasion rules', () => {
+  // Start a level with the ball held on the paddle and shots that only stun, so
+  // only the swarm can cost anything
+  function startWith(invasionRule: InvasionRule) {
+    const simulation = createHeadlessGame({
+      seed: 1,
+      config: { invasionRule, projectileHitPenalty: 'stun' },
+    });
+    simulation.primaryAction();
+    const landings: GameEvents['alienLanded'][] = [];
+    let reachedBottom = 0;
+    simulation.events.on('alienLanded', (event) => landings.push(event));
+    simulation.events.on('swarmReachedBottom', () => reachedBottom++);
+    return { simulation, landings, reachedBottom: () => reachedBottom };
+  }
+
+  // Drop a living alien's formation slot to the bottom and play a tick
+  function landAlien(simulation: GameSimulation): Alien {
+    const alien = simulation.alienManager.getAliens().find((alien) => !alien.isDestroyed)!;
+    alien.slot.y = -simulation.config.worldSize;
+    runTicks(simulation, 1);
+    return alien;
+  }
+
+  it('lowers the shield and pushes the swarm back up under the shield rule', () => {
+    const { simulation, landings } = startWith('shield');
+    const { planetShield, invasionShieldDamage, invasionPushBack } = simulation.config;
+    const aliensBefore = simulation.getAliveAlienCount();
+
+    // The swarm is only pushed back as far as it has come down, so let it come down first
+    const first = simulation.alienManager.getAliens()[0];
+    const startY = first.slot.y;
+    runUntil(simulation, () => first.slot.y <= startY - invasionPushBack, 60 * 120);
+    expect(first.slot.y).toBeLessThanOrEqual(startY - invasionPushBack);
+    const slotsBefore = simulation.alienManager.getAliens().map((alien) => alien.slot.y);
+
+    const alien = landAlien(simulation);
+
+    expect(alien.isDestroyed).toBe(true);
+    expect(simulation.getAliveAlienCount()).toBe(aliensBefore - 1);
+    expect(simulation.getShield()).toBeCloseTo(1 - invasionShieldDamage / planetShield, 10);
+    expect(simulation.getLives()).toBe(3);
+    expect(simulation.getScore()).toBe(0);
+    expect(simulation.getState()).toBe(GameState.PLAYING);
+    expect(landings).toHaveLength(1);
+    expect(landings[0].rule).toBe('shield');
+
+    simulation.alienManager.getAliens().forEach((other, index) => {
+      if (other === alien) return;
+      expect(other.slot.y).toBeCloseTo(slotsBefore[index] + invasionPushBack, 10);
+    });
+  });
+
+  it('ends the game once landings have used up the shield', () => {
+    const { simulation, landings } = startWith('shield');
+    const { planetShield, invasionShieldDamage } = simulation.config;
+    const landingsToFail = Math.ceil(planetShield / invasionShieldDamage);
+
+    for (let i = 1; i < landingsToFail; i++) landAlien(simulation);
+    expect(simulation.getState()).toBe(GameState.PLAYING);
+
+    landAlien(simulation);
+    expect(simulation.getShield()).toBe(0);
+    expect(simulation.getState()).toBe(GameState.GAME_OVER);
+    expect(landings).toHaveLength(landingsToFail);
+  });
+
+  it('costs exactly one life per landing under the life rule', () => {
+    const { simulation, landings } = startWith('life');
+    const alien = landAlien(simulation);
+    runTicks(simulation, 60);
+
+    expect(alien.isDestroyed).toBe(true);
+    expect(simulation.getLives()).toBe(2);
+    expect(simulation.getShield()).toBe(1);
+    expect(simulation.getState()).toBe(GameState.PLAYING);
+    expect(landings).toHaveLength(1);
+    expect(landings[0]).toMatchObject({ rule: 'life', livesRemaining: 2 });
+  });
+
+  it('ends the game straight away under the game over rule', () => {
+    const { simulation, landings, reachedBottom } = startWith('gameOver');
+    const alien = landAlien(simulation);
+
+    expect(simulation.getState()).toBe(GameState.GAME_OVER);
+    expect(reachedBottom()).toBe(1);
+    expect(landings).toHaveLength(0);
+    expect(alien.isDestroyed).toBe(false);
+    expect(simulation.getLives()).toBe(3);
+  });
+});
+
+describe('replays', () => {
+  it('reproduces a recorded game from its saved JSON', () => {
+    const { result, replay } = playRecorded(4, 60 * 90);
+    const saved = parseReplay(serializeReplay(replay));
+
+    expect(saved).toEqual(replay);
+    expect(playReplay(saved)).toEqual(result);
+  });
+
+  it('plays a game on custom levels back on the same levels', () => {
+    const levels = [builtInLevels[2], builtInLevels[0]];
+    const { result, replay } = playRecorded(5, 60 * 90, levels);
+    const saved = parseReplay(serializeReplay(replay));
+
+    expect(saved.levels).toEqual(levels);
+    expect(playReplay(saved)).toEqual(result);
+    // The same inputs on the built-in levels play a different game
+    expect(playReplay({ ...saved, levels: undefined })).not.toEqual(result);
+  });
+
+  it('rejects replays with invalid levels', () => {
+    const json = JSON.stringify({ v: 1, seed: 1, ticks: 1, input: [], levels: [{ name: 'x' }] });
+    expect(() => parseReplay(json)).toThrow(/Replay level 1 is not a valid level/);
+  });
+
+  it('rejects replays of an unknown version', () => {
+    expect(() => parseReplay('{"v":0,"seed":1,"ticks":1,"input":[]}')).toThrow(/version/);
+  });
+});
+
+describe('cosmetic effects', () => {
+  it.each<PhysicsBackendKind>(['simple', 'rapier'])(
+    'leave the game unchanged with the %s backend',
+    async (physicsBackend) => {
+      await loadPhysicsBackend(physicsBackend);
+
+      // The same scripted game with effects on and off, compared tick by tick
+      const games = [true, false].map((effectsEnabled) => {
+        const simulation = new GameSimulation({
+          seed: 5,
+          effectsEnabled,
+          config: { physicsBackend },
+        });
+        return { simulation, player: followBall((command) => applyInput(simulation, command)) };
+      });
+
+      for (let tick = 0; tick < 60 * 40; tick++) {
+        for (const { simulation, player } of games) {
+          player(simulation);
+          simulation.update(simulation.config.fixedTimeStep);
+        }
+        const [withEffects, withoutEffects] = games.map(({ simulation }) =>
+          hashGameState(simulation)
+        );
+        if (withEffects !== withoutEffects) {
+          expect.fail(`Games differ at tick ${tick + 1}`);
+        }
+      }
+      expect(summarizeGame(games[0].simulation)).toEqual(summarizeGame(games[1].simulation));
+      expect(games[0].simulation.getAliveAlienCount()).toBeLessThan(
+        createHeadlessGame().getAliveAlienCount()
+      );
+    }
+  );
+});
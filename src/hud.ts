@@ -0,0 +1,206 @@
+import { GameHud } from './types';
+import { Scheduler, easings } from './scheduler';
+
+// HTML overlay for the play field: score, lives and level in the corner, a boss
+// health bar along the top, a centre-screen message box and an instructions bar
+// along the bottom.
+export class DomHud implements GameHud {
+  private uiContainer: HTMLElement;
+  private scoreElement: HTMLElement;
+  private livesElement: HTMLElement;
+  private levelElement: HTMLElement;
+  private shieldElement: HTMLElement;
+  private messageElement: HTMLElement;
+  private bossBarElement: HTMLElement;
+  private bossBarFill: HTMLElement;
+  private instructionsElement: HTMLElement;
+  private notifications: Set<HTMLElement> = new Set();
+  private scheduler: Scheduler;
+
+  // Notifications fade out on the owning state's scheduler
+  constructor(scheduler: Scheduler, instructions: string = 'Click or press SPACE to release ball') {
+    this.scheduler = scheduler;
+
+    // Create UI container
+    this.uiContainer = document.createElement('div');
+    this.uiContainer.style.position = 'absolute';
+    this.uiContainer.style.top = '10px';
+    this.uiContainer.style.left = '10px';
+    this.uiContainer.style.color = 'white';
+    this.uiContainer.style.fontFamily = 'monospace';
+    this.uiContainer.style.fontSize = '18px';
+    this.uiContainer.style.textShadow = '2px 2px 2px black';
+
+    // Score display
+    this.scoreElement = document.createElement('div');
+    this.scoreElement.id = 'score';
+    this.scoreElement.style.marginBottom = '10px';
+    this.uiContainer.appendChild(this.scoreElement);
+
+    // Lives display
+    this.livesElement = document.createElement('div');
+    this.livesElement.id = 'lives';
+    this.livesElement.style.marginBottom = '10px';
+    this.uiContainer.appendChild(this.livesElement);
+
+    // Level display
+    this.levelElement = document.createElement('div');
+    this.levelElement.id = 'level';
+    this.uiContainer.appendChild(this.levelElement);
+
+    // Planetary shield display, only under the shield invasion rule
+    this.shieldElement = document.createElement('div');
+    this.shieldElement.id = 'shield';
+    this.shieldElement.style.marginTop = '10px';
+    this.shieldElement.style.color = '#66ccff';
+    this.shieldElement.style.display = 'none';
+    this.uiContainer.appendChild(this.shieldElement);
+
+    // Message element (for game over, level complete, etc.)
+    this.messageElement = document.createElement('div');
+    this.messageElement.id = 'message';
+    this.messageElement.style.position = 'absolute';
+    this.messageElement.style.top = '50%';
+    this.messageElement.style.left = '50%';
+    this.messageElement.style.transform = 'translate(-50%, -50%)';
+    this.messageElement.style.color = 'white';
+    this.messageElement.style.fontFamily = 'monospace';
+    this.messageElement.style.fontSize = '36px';
+    this.messageElement.style.textShadow = '2px 2px 4px black';
+    this.messageElement.style.padding = '20px';
+    this.messageElement.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    this.messageElement.style.borderRadius = '10px';
+    this.messageElement.style.textAlign = 'center';
+    this.messageElement.style.display = 'none';
+
+    // Boss health bar, hidden outside boss fights
+    this.bossBarElement = document.createElement('div');
+    this.bossBarElement.id = 'boss-health';
+    this.bossBarElement.style.position = 'absolute';
+    this.bossBarElement.style.top = '14px';
+    this.bossBarElement.style.left = '50%';
+    this.bossBarElement.style.transform = 'translateX(-50%)';
+    this.bossBarElement.style.width = '40%';
+    this.bossBarElement.style.height = '14px';
+    this.bossBarElement.style.border = '2px solid white';
+    this.bossBarElement.style.borderRadius = '4px';
+    this.bossBarElement.style.backgroundColor = 'rgba(0, 0, 0, 0.6)';
+    this.bossBarElement.style.display = 'none';
+
+    this.bossBarFill = document.createElement('div');
+    this.bossBarFill.style.height = '100%';
+    this.bossBarFill.style.backgroundColor = '#ff2244';
+    this.bossBarFill.style.transition = 'width 0.2s ease-out';
+    this.bossBarElement.appendChild(this.bossBarFill);
+
+    // Add UI elements to DOM
+    document.body.appendChild(this.uiContainer);
+    document.body.appendChild(this.messageElement);
+    document.body.appendChild(this.bossBarElement);
+
+    // Instructions for ball release
+    this.instructionsElement = document.createElement('div');
+    this.instructionsElement.id = 'instructions';
+    this.instructionsElement.style.position = 'absolute';
+    this.instructionsElement.style.bottom = '20px';
+    this.instructionsElement.style.left = '50%';
+    this.instructionsElement.style.transform = 'translateX(-50%)';
+    this.instructionsElement.style.color = 'white';
+    this.instructionsElement.style.fontFamily = 'monospace';
+    this.instructionsElement.style.fontSize = '16px';
+    this.instructionsElement.style.textShadow = '1px 1px 2px black';
+    this.instructionsElement.style.padding = '10px';
+    this.instructionsElement.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    this.instructionsElement.style.borderRadius = '5px';
+    this.instructionsElement.style.textAlign = 'center';
+    this.instructionsElement.textContent = instructions;
+    document.body.appendChild(this.instructionsElement);
+  }
+
+  setScore(score: number): void {
+    this.scoreElement.textContent = `SCORE: ${score}`;
+  }
+
+  setLives(lives: number): void {
+    this.livesElement.textContent = `LIVES: ${lives}`;
+  }
+
+  setLevel(level: number): void {
+    this.levelElement.textContent = `LEVEL: ${level}`;
+  }
+
+  setBossHealth(health: number | null): void {
+    if (health === null) {
+      this.bossBarElement.style.display = 'none';
+      return;
+    }
+    this.bossBarElement.style.display = 'block';
+    this.bossBarFill.style.width = `${Math.max(0, Math.min(health, 1)) * 100}%`;
+  }
+
+  setShield(shield: number | null): void {
+    if (shield === null) {
+      this.shieldElement.style.display = 'none';
+      return;
+    }
+    this.shieldElement.style.display = 'block';
+    this.shieldElement.textContent = `SHIELD: ${Math.round(Math.max(0, Math.min(shield, 1)) * 100)}%`;
+  }
+
+  showMessage(message: string): void {
+    this.messageElement.innerHTML = message.replace(/\n/g, '<br>');
+    this.messageElement.style.display = 'block';
+  }
+
+  hideMessage(): void {
+    this.messageElement.style.display = 'none';
+  }
+
+  setInstructions(instructions: string): void {
+    this.instructionsElement.textContent = instructions;
+  }
+
+  // Show a short-lived notice below the stats (debug toggles and the like)
+  showNotification(text: string, color: string, top: number): void {
+    const notification = document.createElement('div');
+    notification.style.position = 'absolute';
+    notification.style.top = `${top}px`;
+    notification.style.left = '10px';
+    notification.style.color = color;
+    notification.style.fontFamily = 'monospace';
+    notification.style.fontSize = '16px';
+    notification.style.padding = '5px';
+    notification.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    notification.style.border = `1px solid ${color}`;
+    notification.style.opacity = '1';
+    notification.textContent = text;
+
+    document.body.appendChild(notification);
+    this.notifications.add(notification);
+
+    // Fade out after 2 seconds, then remove from DOM
+    this.scheduler.after(2, () => {
+      this.scheduler.tween({
+        from: 1,
+        to: 0,
+        duration: 0.5,
+        ease: easings.easeInOutSine,
+        onUpdate: (opacity) => (notification.style.opacity = `${opacity}`),
+        onComplete: () => {
+          notification.remove();
+          this.notifications.delete(notification);
+        },
+      });
+    });
+  }
+
+  // Remove UI elements
+  dispose(): void {
+    this.uiContainer.remove();
+    this.messageElement.remove();
+    this.bossBarElement.remove();
+    this.instructionsElement.remove();
+    this.notifications.forEach((notification) => notification.remove());
+    this.notifications.clear();
+  }
+}
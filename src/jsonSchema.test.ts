@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchema, validateJson } from './jsonSchema';
+
+describe('validateJson', () => {
+  it('checks types and names what it got instead', () => {
+    expect(validateJson(1, { type: 'number' })).toEqual([]);
+    expect(validateJson('1', { type: 'number' })).toEqual(['$: expected number, got string']);
+    expect(validateJson(Infinity, { type: 'number' })).toEqual(['$: expected number, got number']);
+    expect(validateJson(1.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+    expect(validateJson([], { type: 'object' })).toEqual(['$: expected object, got array']);
+    expect(validateJson(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJson(true, { type: ['string', 'null'] })).toEqual([
+      '$: expected string or null, got boolean',
+    ]);
+  });
+
+  it('stops at a wrong type instead of piling up more errors', () => {
+    expect(validateJson('x', { type: 'number', minimum: 1, enum: [1, 2] })).toEqual([
+      '$: expected number, got string',
+    ]);
+  });
+
+  it('reports missing required properties', () => {
+    const schema: JsonSchema = { type: 'object', required: ['name', 'rows'] };
+    expect(validateJson({ name: 'a', rows: 1 }, schema)).toEqual([]);
+    expect(validateJson({}, schema)).toEqual([
+      '$: missing required property "name"',
+      '$: missing required property "rows"',
+    ]);
+  });
+
+  it('checks enum and const values', () => {
+    expect(validateJson('b', { enum: ['a', 'b'] })).toEqual([]);
+    expect(validateJson('c', { enum: ['a', 1] })).toEqual(['$: expected one of "a", 1']);
+    expect(validateJson('grid', { const: 'grid' })).toEqual([]);
+    expect(validateJson('ring', { const: 'grid' })).toEqual(['$: expected "grid"']);
+  });
+
+  it('checks numeric limits, inclusive and exclusive', () => {
+    const schema: JsonSchema = { type: 'number', minimum: 1, maximum: 10 };
+    expect(validateJson(1, schema)).toEqual([]);
+    expect(validateJson(10, schema)).toEqual([]);
+    expect(validateJson(0, schema)).toEqual(['$: must be at least 1']);
+    expect(validateJson(11, schema)).toEqual(['$: must be at most 10']);
+
+    const exclusive: JsonSchema = { exclusiveMinimum: 0, exclusiveMaximum: 1 };
+    expect(validateJson(0.5, exclusive)).toEqual([]);
+    expect(validateJson(0, exclusive)).toEqual(['$: must be greater than 0']);
+    expect(validateJson(1, exclusive)).toEqual(['$: must be less than 1']);
+  });
+
+  it('checks string length and pattern', () => {
+    const schema: JsonSchema = { type: 'string', minLength: 2, pattern: '^[a-z]+$' };
+    expect(validateJson('ab', schema)).toEqual([]);
+    expect(validateJson('A', schema)).toEqual([
+      '$: must be at least 2 characters',
+      '$: must match ^[a-z]+$',
+    ]);
+  });
+
+  it('rejects or validates additional properties', () => {
+    const closed: JsonSchema = {
+      type: 'object',
+      properties: { a: {} },
+      additionalProperties: false,
+    };
+    expect(validateJson({ a: 1 }, closed)).toEqual([]);
+    expect(validateJson({ a: 1, b: 2 }, closed)).toEqual(['$: unknown property "b"']);
+
+    const typed: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } };
+    expect(validateJson({ a: 1, b: 'x' }, typed)).toEqual(['$.b: expected number, got string']);
+
+    // Without the keyword anything extra is allowed
+    expect(validateJson({ b: 'x' }, { type: 'object' })).toEqual([]);
+  });
+
+  it('checks array length and each item, with the path to nested items', () => {
+    const schema: JsonSchema = {
+      type: 'array',
+      minItems: 1,
+      maxItems: 2,
+      items: { type: 'array', items: { type: 'integer', minimum: 0 } },
+    };
+    expect(validateJson([[0, 1], []], schema)).toEqual([]);
+    expect(validateJson([], schema)).toEqual(['$: must have at least 1 items']);
+    expect(validateJson([[], [], []], schema)).toEqual(['$: must have at most 2 items']);
+    expect(validateJson([[0], [1, -1, 'x']], schema)).toEqual([
+      '$[1][1]: must be at least 0',
+      '$[1][2]: expected integer, got string',
+    ]);
+  });
+
+  it('builds paths through nested objects and arrays', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        rows: { type: 'array', items: { type: 'object', required: ['type'] } },
+      },
+    };
+    expect(validateJson({ rows: [{ type: 'small' }, {}] }, schema)).toEqual([
+      '$.rows[1]: missing required property "type"',
+    ]);
+  });
+
+  it('follows local references and rejects unresolvable ones', () => {
+    const schema: JsonSchema = {
+      type: 'array',
+      items: { $ref: '#/definitions/speed' },
+      definitions: { speed: { type: 'number', minimum: 0 } },
+    };
+    expect(validateJson([1, -1], schema)).toEqual(['$[1]: must be at least 0']);
+    expect(() => validateJson(1, { $ref: '#/definitions/missing' })).toThrow(
+      'Unresolvable schema reference "#/definitions/missing"'
+    );
+  });
+
+  it('needs exactly one oneOf branch to match', () => {
+    const schema: JsonSchema = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    expect(validateJson(1.5, schema)).toEqual([]);
+    expect(validateJson(1, schema)).toEqual(['$: matches more than one allowed shape']);
+    expect(validateJson('x', schema)).toEqual(['$: does not match any allowed shape']);
+  });
+
+  it('reports the errors of the oneOf branch named by "kind"', () => {
+    const schema: JsonSchema = {
+      oneOf: [{ $ref: '#/definitions/grid' }, { $ref: '#/definitions/ring' }],
+      definitions: {
+        grid: {
+          type: 'object',
+          properties: { kind: { const: 'grid' }, rows: { type: 'integer' } },
+          required: ['kind', 'rows'],
+        },
+        ring: {
+          type: 'object',
+          properties: { kind: { const: 'ring' }, radius: { type: 'number' } },
+          required: ['kind', 'radius'],
+        },
+      },
+    };
+    expect(validateJson({ kind: 'ring', radius: 2 }, schema)).toEqual([]);
+    expect(validateJson({ kind: 'ring' }, schema)).toEqual([
+      '$: missing required property "radius"',
+    ]);
+    expect(validateJson({ kind: 'spiral' }, schema)).toEqual([
+      '$: does not match any allowed shape',
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+// Minimal JSON Schema (draft-07) validator covering the keywords our data
+// files use. Unsupported keywords are ignored rather than rejected.
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// Check a value against a schema. Returns one message per problem, each
+// prefixed with the path to the offending value; an empty list means valid.
+export function validateJson(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateValue(value, schema, schema, '$', errors);
+  return errors;
+}
+
+function validateValue(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  errors: string[]
+): void {
+  if (schema.$ref) {
+    validateValue(value, resolveRef(schema.$ref, root), root, path, errors);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${describe(value)}`);
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (schema.oneOf) {
+    validateOneOf(value, schema.oneOf, root, path, errors);
+  }
+
+  if (typeof value === 'number') {
+    validateNumber(value, schema, path, errors);
+  } else if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => validateValue(item, items, root, `${path}[${index}]`, errors));
+    }
+  } else if (isObject(value)) {
+    validateObject(value, schema, root, path, errors);
+  }
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string, errors: string[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path}: must be at least ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push(`${path}: must be at most ${schema.maximum}`);
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  errors: string[]
+): void {
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) {
+      errors.push(`${path}: missing required property "${key}"`);
+    }
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = `${path}.${key}`;
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema) {
+      validateValue(child, propertySchema, root, childPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}: unknown property "${key}"`);
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateValue(child, schema.additionalProperties, root, childPath, errors);
+    }
+  }
+}
+
+// Exactly one branch must match. When none do, report the errors of the branch
+// whose "kind" matches (if any) so designers see the useful messages.
+function validateOneOf(
+  value: unknown,
+  branches: JsonSchema[],
+  root: JsonSchema,
+  path: string,
+  errors: string[]
+): void {
+  const matches = branches.filter((branch) => {
+    const branchErrors: string[] = [];
+    validateValue(value, branch, root, path, branchErrors);
+    return branchErrors.length === 0;
+  }).length;
+  if (matches === 1) return;
+  if (matches > 1) {
+    errors.push(`${path}: matches more than one allowed shape`);
+    return;
+  }
+
+  const kind = isObject(value) ? value.kind : undefined;
+  const kindBranch = branches.findIndex((branch) => {
+    const kindSchema = resolveBranch(branch, root).properties?.kind;
+    return kindSchema !== undefined && kindSchema.const === kind;
+  });
+  if (kindBranch >= 0) {
+    validateValue(value, branches[kindBranch], root, path, errors);
+  } else {
+    errors.push(`${path}: does not match any allowed shape`);
+  }
+}
+
+function resolveBranch(branch: JsonSchema, root: JsonSchema): JsonSchema {
+  return branch.$ref ? resolveRef(branch.$ref, root) : branch;
+}
+
+// Only local references into "definitions" are supported
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const prefix = '#/definitions/';
+  const target = ref.startsWith(prefix) ? root.definitions?.[ref.slice(prefix.length)] : undefined;
+  if (!target) {
+    throw new Error(`Unresolvable schema reference "${ref}"`);
+  }
+  return target;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,507 @@
+import * as THREE from 'three';
+import { IGameState } from './gameStates';
+import { GameStateManager } from './gameStateManager';
+import { GameSimulation } from './gameSimulation';
+import { AlienType, getAlienTypeDefinition, getAlienTypes } from './alienTypes';
+import { DomHud } from './hud';
+import { createPlayScenery } from './playScenery';
+import { Scheduler } from './scheduler';
+import {
+  AccelerationCurve,
+  AccelerationDefinition,
+  AlienFireHazard,
+  BunkerLayout,
+  DiveHazard,
+  HazardDefinition,
+  LevelDefinition,
+  SwarmDefinition,
+  SwarmPatternKind,
+  builtInLevels,
+  findHazard,
+  getFormationPlacements,
+  parseLevel,
+} from './levels';
+
+// Placed aliens snap to this grid
+const SNAP = 0.5;
+
+// Swarm patterns offered in the side panel
+const SWARM_PATTERNS: SwarmPatternKind[] = [
+  'classic',
+  'sineWave',
+  'zigZag',
+  'rotatingRing',
+  'split',
+  'orbit',
+];
+
+// Where aliens may be placed, matching the limits in level.schema.json
+const PLACEMENT_BOUNDS = { minX: -11, maxX: 11, minY: 2, maxY: 28 };
+
+interface EditorAlien {
+  type: AlienType;
+  x: number;
+  y: number;
+}
+
+// Mouse-driven level editor. Click to place an alien of the selected type,
+// drag to move one and right click to delete it. A side panel holds the swarm
+// settings, and the level can be playtested, exported or imported as JSON.
+export class LevelEditorState implements IGameState {
+  private gameStateManager: GameStateManager;
+
+  // Shows the level being edited with the real alien meshes; it is never advanced
+  private simulation: GameSimulation;
+  private camera: THREE.PerspectiveCamera;
+  private hud: DomHud;
+  private panel: HTMLElement;
+  // HUD and scenery animations, cancelled when the editor closes
+  private scheduler: Scheduler = new Scheduler();
+
+  // The level being edited. Formations are always edited (and exported) as freeform.
+  private name: string = '';
+  private aliens: EditorAlien[] = [];
+  private swarm: SwarmDefinition = { horizontalSpeed: 1.5, moveDownAmount: 0.5, moveInterval: 1 };
+  private alienFire: AlienFireHazard | null = null;
+  private dive: DiveHazard | null = null;
+  // Not editable here; kept so imported bunkers survive playtesting and export
+  private bunkers: BunkerLayout | undefined;
+
+  private selectedType: AlienType = 'medium';
+  private dragIndex: number | null = null;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private playPlane: THREE.Plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+
+  private keydownListener: (event: KeyboardEvent) => void = () => {};
+  private mousedownListener: (event: MouseEvent) => void = () => {};
+  private mousemoveListener: (event: MouseEvent) => void = () => {};
+  private mouseupListener: () => void = () => {};
+  private contextmenuListener: (event: MouseEvent) => void = () => {};
+
+  constructor(gameStateManager: GameStateManager, level: LevelDefinition = builtInLevels[0]) {
+    this.gameStateManager = gameStateManager;
+
+    this.hud = new DomHud(this.scheduler);
+    this.simulation = new GameSimulation({ levels: [level], effectsEnabled: false });
+    createPlayScenery(this.simulation.scene, this.simulation.config.worldSize, this.scheduler);
+
+    // Face the play field head on so the mouse maps straight onto it
+    this.camera = new THREE.PerspectiveCamera(
+      60,
+      window.innerWidth / window.innerHeight,
+      0.1,
+      2000
+    );
+    this.camera.position.set(0, 14, 32);
+    this.camera.lookAt(0, 14, 0);
+
+    this.loadLevel(level);
+    this.panel = this.createPanel();
+    this.setupControls();
+  }
+
+  // Replace the level being edited
+  private loadLevel(level: LevelDefinition): void {
+    this.name = level.name;
+    this.aliens = getFormationPlacements(level.formation).map(({ type, x, y }) => ({ type, x, y }));
+    this.swarm = {
+      ...level.swarm,
+      acceleration: level.swarm.acceleration && { ...level.swarm.acceleration },
+      pattern: level.swarm.pattern && { ...level.swarm.pattern },
+    };
+    const fire = findHazard(level, 'alienFire');
+    this.alienFire = fire ? { ...fire } : null;
+    const dive = findHazard(level, 'dive');
+    this.dive = dive ? { ...dive } : null;
+    this.bunkers = level.bunkers && { ...level.bunkers };
+    this.simulation.bunkers.setLevel(level);
+    this.refreshAliens();
+  }
+
+  // The level as it stands, in the level file format
+  private toLevel(): LevelDefinition {
+    const swarm = { ...this.swarm };
+    if (!swarm.acceleration) delete swarm.acceleration;
+    if (!swarm.pattern) delete swarm.pattern;
+
+    const hazards: HazardDefinition[] = [];
+    if (this.alienFire) hazards.push({ ...this.alienFire });
+    if (this.dive) hazards.push({ ...this.dive });
+
+    const level: LevelDefinition = {
+      name: this.name,
+      formation: { kind: 'freeform', aliens: this.aliens.map((alien) => ({ ...alien })) },
+      swarm,
+      hazards,
+    };
+    if (this.bunkers) level.bunkers = { ...this.bunkers };
+    return level;
+  }
+
+  // Rebuild the alien meshes from the edited placements
+  private refreshAliens(): void {
+    this.simulation.alienManager.setLevel(this.toLevel());
+    this.updateInstructions();
+  }
+
+  private setupControls(): void {
+    const canvas = this.gameStateManager.renderer.domElement;
+
+    this.mousedownListener = (event: MouseEvent) => {
+      if (event.button !== 0) return;
+      const point = this.pickPoint(event);
+      if (!point) return;
+
+      const index = this.alienAt(point);
+      if (index >= 0) {
+        this.dragIndex = index;
+      } else {
+        this.aliens.push({ type: this.selectedType, ...this.snap(point) });
+        this.refreshAliens();
+      }
+    };
+
+    this.mousemoveListener = (event: MouseEvent) => {
+      if (this.dragIndex === null) return;
+      const point = this.pickPoint(event);
+      if (!point) return;
+
+      // Move the alien directly while dragging; the formation is rebuilt on release
+      const alien = this.aliens[this.dragIndex];
+      Object.assign(alien, this.snap(point));
+      const dragged = this.simulation.alienManager.getAliens()[this.dragIndex];
+      dragged?.setTranslation({ x: alien.x, y: alien.y, z: 0 });
+      dragged?.storePreviousPosition();
+    };
+
+    this.mouseupListener = () => {
+      if (this.dragIndex === null) return;
+      this.dragIndex = null;
+      this.refreshAliens();
+    };
+
+    this.contextmenuListener = (event: MouseEvent) => {
+      event.preventDefault();
+      const point = this.pickPoint(event);
+      const index = point ? this.alienAt(point) : -1;
+      if (index >= 0) {
+        this.aliens.splice(index, 1);
+        this.refreshAliens();
+      }
+    };
+
+    this.keydownListener = (event: KeyboardEvent) => {
+      // Leave keys typed into the settings panel alone
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) {
+        return;
+      }
+
+      const types = getAlienTypes();
+      const typeIndex = Number(event.key) - 1;
+      if (typeIndex >= 0 && typeIndex < types.length) {
+        this.selectedType = types[typeIndex];
+        this.updateInstructions();
+      } else if (event.key === 'p' || event.key === 'P') {
+        this.playtest();
+      } else if (event.key === 'x' || event.key === 'X') {
+        this.exportLevel();
+      } else if (event.key === 'l' || event.key === 'L') {
+        this.importLevel();
+      } else if (event.key === 'n' || event.key === 'N') {
+        this.aliens = [];
+        this.refreshAliens();
+      } else if (event.key === 'Escape') {
+        this.gameStateManager.switchToPlay();
+      }
+    };
+
+    canvas.addEventListener('mousedown', this.mousedownListener);
+    canvas.addEventListener('mousemove', this.mousemoveListener);
+    canvas.addEventListener('contextmenu', this.contextmenuListener);
+  }
+
+  // Where the mouse points on the play plane (z = 0)
+  private pickPoint(event: MouseEvent): THREE.Vector3 | null {
+    const rect = this.gameStateManager.renderer.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, this.camera);
+    return this.raycaster.ray.intersectPlane(this.playPlane, new THREE.Vector3());
+  }
+
+  // Index of the topmost placed alien under the point, or -1
+  private alienAt(point: THREE.Vector3): number {
+    for (let i = this.aliens.length - 1; i >= 0; i--) {
+      const alien = this.aliens[i];
+      const { size } = getAlienTypeDefinition(alien.type);
+      if (
+        Math.abs(point.x - alien.x) <= size.width / 2 &&
+        Math.abs(point.y - alien.y) <= size.height / 2
+      ) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private snap(point: THREE.Vector3): { x: number; y: number } {
+    const { minX, maxX, minY, maxY } = PLACEMENT_BOUNDS;
+    return {
+      x: THREE.MathUtils.clamp(Math.round(point.x / SNAP) * SNAP, minX, maxX),
+      y: THREE.MathUtils.clamp(Math.round(point.y / SNAP) * SNAP, minY, maxY),
+    };
+  }
+
+  // Validate the level and play it straight away
+  private playtest(): void {
+    try {
+      const level = parseLevel(this.toLevel(), this.name || 'Level');
+      this.gameStateManager.switchToPlay([level]);
+    } catch (error) {
+      this.hud.showNotification(`CANNOT PLAYTEST: ${describeError(error)}`, '#ff4444', 10);
+    }
+  }
+
+  private exportLevel(): void {
+    try {
+      downloadLevel(parseLevel(this.toLevel(), this.name || 'Level'));
+    } catch (error) {
+      this.hud.showNotification(`CANNOT EXPORT: ${describeError(error)}`, '#ff4444', 10);
+    }
+  }
+
+  private async importLevel(): Promise<void> {
+    try {
+      this.loadLevel(await promptForLevelFile());
+      this.panel.remove();
+      this.panel = this.createPanel();
+    } catch (error) {
+      this.hud.showNotification(`LEVEL NOT LOADED: ${describeError(error)}`, '#ff4444', 10);
+    }
+  }
+
+  private updateInstructions(): void {
+    this.hud.setInstructions(
+      `EDITOR ${this.aliens.length} aliens | 1-${getAlienTypes().length}: type ` +
+        `(${this.selectedType.toUpperCase()}) | ` +
+        'click: place/drag | right click: delete | P: playtest | X: export | L: import | ' +
+        'N: clear | ESC: exit'
+    );
+  }
+
+  // Side panel with the level name, swarm settings and the alien fire and dive hazards
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.style.position = 'absolute';
+    panel.style.top = '10px';
+    panel.style.right = '10px';
+    panel.style.width = '240px';
+    panel.style.color = 'white';
+    panel.style.fontFamily = 'monospace';
+    panel.style.fontSize = '14px';
+    panel.style.padding = '10px';
+    panel.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    panel.style.borderRadius = '5px';
+
+    const nameInput = addField(panel, 'Name', 'text', this.name);
+    nameInput.addEventListener('input', () => (this.name = nameInput.value));
+
+    addNumberField(panel, 'Speed', this.swarm.horizontalSpeed, 0.1, (value) => {
+      this.swarm.horizontalSpeed = value;
+    });
+    addNumberField(panel, 'Drop', this.swarm.moveDownAmount, 0.1, (value) => {
+      this.swarm.moveDownAmount = value;
+    });
+    addNumberField(panel, 'Step interval', this.swarm.moveInterval, 0.05, (value) => {
+      this.swarm.moveInterval = value;
+    });
+
+    // Acceleration curve; 'none' keeps the step interval constant
+    const acceleration: AccelerationDefinition = this.swarm.acceleration ?? {
+      curve: 'linear',
+      amount: 0.8,
+    };
+    const curveSelect = document.createElement('select');
+    for (const curve of ['none', 'linear', 'quadratic', 'exponential']) {
+      curveSelect.add(new Option(curve, curve));
+    }
+    curveSelect.value = this.swarm.acceleration ? acceleration.curve : 'none';
+    curveSelect.addEventListener('change', () => {
+      if (curveSelect.value === 'none') {
+        this.swarm.acceleration = undefined;
+      } else {
+        acceleration.curve = curveSelect.value as AccelerationCurve;
+        this.swarm.acceleration = acceleration;
+      }
+    });
+    addRow(panel, 'Acceleration', curveSelect);
+    addNumberField(panel, 'Accel amount', acceleration.amount, 0.05, (value) => {
+      acceleration.amount = value;
+    });
+
+    // Movement pattern, with its default settings; classic is the default pattern
+    const patternSelect = document.createElement('select');
+    for (const pattern of SWARM_PATTERNS) {
+      patternSelect.add(new Option(pattern, pattern));
+    }
+    patternSelect.value = this.swarm.pattern?.kind ?? 'classic';
+    patternSelect.addEventListener('change', () => {
+      const kind = patternSelect.value as SwarmPatternKind;
+      this.swarm.pattern = kind === 'classic' ? undefined : { kind };
+    });
+    addRow(panel, 'Movement', patternSelect);
+
+    // Alien fire hazard
+    const fire: AlienFireHazard = this.alienFire ?? {
+      kind: 'alienFire',
+      rateMultiplier: 1,
+      projectileSpeed: 8,
+    };
+    const fireInput = addField(panel, 'Alien fire', 'checkbox', '');
+    fireInput.checked = this.alienFire !== null;
+    fireInput.addEventListener('change', () => {
+      this.alienFire = fireInput.checked ? fire : null;
+    });
+    addNumberField(panel, 'Fire rate', fire.rateMultiplier ?? 1, 0.25, (value) => {
+      fire.rateMultiplier = value;
+    });
+    addNumberField(panel, 'Shot speed', fire.projectileSpeed ?? 8, 1, (value) => {
+      fire.projectileSpeed = value;
+    });
+
+    // Dive hazard
+    const dive: DiveHazard = this.dive ?? { kind: 'dive', interval: 6, maxDivers: 2 };
+    const diveInput = addField(panel, 'Dive bombers', 'checkbox', '');
+    diveInput.checked = this.dive !== null;
+    diveInput.addEventListener('change', () => {
+      this.dive = diveInput.checked ? dive : null;
+    });
+    addNumberField(panel, 'Dive interval', dive.interval ?? 6, 0.5, (value) => {
+      dive.interval = value;
+    });
+    addNumberField(panel, 'Max divers', dive.maxDivers ?? 2, 1, (value) => {
+      dive.maxDivers = value;
+    });
+
+    document.body.appendChild(panel);
+    return panel;
+  }
+
+  update(deltaTime: number): void {
+    // The edited level stays frozen until it is playtested; only the HUD and scenery animate
+    this.scheduler.update(deltaTime);
+  }
+
+  render(renderer: THREE.WebGLRenderer): void {
+    this.simulation.alienManager.updateMeshes(1);
+    renderer.render(this.simulation.scene, this.camera);
+  }
+
+  onEnter(): void {
+    document.addEventListener('keydown', this.keydownListener);
+    document.addEventListener('mouseup', this.mouseupListener);
+  }
+
+  onExit(): void {
+    const canvas = this.gameStateManager.renderer.domElement;
+    canvas.removeEventListener('mousedown', this.mousedownListener);
+    canvas.removeEventListener('mousemove', this.mousemoveListener);
+    canvas.removeEventListener('contextmenu', this.contextmenuListener);
+    document.removeEventListener('keydown', this.keydownListener);
+    document.removeEventListener('mouseup', this.mouseupListener);
+
+    this.scheduler.cancelAll();
+    this.simulation.dispose();
+    this.panel.remove();
+    this.hud.dispose();
+  }
+}
+
+function addRow(panel: HTMLElement, label: string, input: HTMLElement): void {
+  const row = document.createElement('label');
+  row.style.display = 'flex';
+  row.style.justifyContent = 'space-between';
+  row.style.marginBottom = '6px';
+  row.textContent = label;
+  input.style.width = '110px';
+  row.appendChild(input);
+  panel.appendChild(row);
+}
+
+function addField(
+  panel: HTMLElement,
+  label: string,
+  type: string,
+  value: string
+): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = type;
+  input.value = value;
+  addRow(panel, label, input);
+  return input;
+}
+
+// Number input that only reports valid, non-negative values
+function addNumberField(
+  panel: HTMLElement,
+  label: string,
+  value: number,
+  step: number,
+  onChange: (value: number) => void
+): void {
+  const input = addField(panel, label, 'number', String(value));
+  input.step = String(step);
+  input.min = '0';
+  input.addEventListener('input', () => {
+    const number = Number(input.value);
+    if (input.value !== '' && Number.isFinite(number) && number >= 0) {
+      onChange(number);
+    }
+  });
+}
+
+// An error message on one line, for notifications
+function describeError(error: unknown): string {
+  return (error as Error).message.replace(/:?\n\s*/g, ': ');
+}
+
+// Save a level as a JSON file through the browser's download mechanism
+export function downloadLevel(level: LevelDefinition): void {
+  const json = JSON.stringify({ $schema: './level.schema.json', ...level }, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${level.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'level'}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+// Ask for a level file and validate it
+export function promptForLevelFile(): Promise<LevelDefinition> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        reject(new Error('No file selected'));
+        return;
+      }
+      try {
+        resolve(parseLevel(await file.text(), file.name));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    input.addEventListener('cancel', () => reject(new Error('No file selected')));
+
+    input.click();
+  });
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { REPEATED_LEVEL_SPEEDUP, builtInLevels, getLevelDefinition } from './levels';
+
+describe('getLevelDefinition', () => {
+  it('returns the levels in order', () => {
+    builtInLevels.forEach((level, index) => {
+      expect(getLevelDefinition(builtInLevels, index + 1)).toBe(level);
+    });
+  });
+
+  it('repeats the last level with a faster swarm every time', () => {
+    const last = builtInLevels[builtInLevels.length - 1];
+    const repeats = [1, 2, 3].map((repeat) =>
+      getLevelDefinition(builtInLevels, builtInLevels.length + repeat)
+    );
+
+    repeats.forEach((level, index) => {
+      const scale = 1 + (index + 1) * REPEATED_LEVEL_SPEEDUP;
+      expect(level.formation).toBe(last.formation);
+      expect(level.swarm.pattern).toBe(last.swarm.pattern);
+      expect(level.swarm.horizontalSpeed).toBeCloseTo(last.swarm.horizontalSpeed * scale);
+      expect(level.swarm.moveDownAmount).toBeCloseTo(last.swarm.moveDownAmount * scale);
+      expect(level.swarm.moveInterval).toBeCloseTo(last.swarm.moveInterval / scale);
+    });
+    expect(repeats[2].swarm.horizontalSpeed).toBeGreaterThan(repeats[1].swarm.horizontalSpeed);
+    // The level files themselves are left alone
+    expect(last.swarm.horizontalSpeed).toBe(2.4);
+  });
+
+  it('throws without any levels', () => {
+    expect(() => getLevelDefinition([], 1)).toThrow('No levels defined');
+  });
+});
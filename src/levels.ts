@@ -0,0 +1,270 @@
+import { AlienType, isAlienType } from './alienTypes';
+import { JsonSchema, validateJson } from './jsonSchema';
+import levelSchema from './levels/level.schema.json';
+import level1 from './levels/level1.json';
+import level2 from './levels/level2.json';
+import level3 from './levels/level3.json';
+import level4 from './levels/level4.json';
+
+// Level files live in src/levels as JSON and are checked against
+// level.schema.json when loaded, so new levels need no TypeScript changes.
+
+export type AccelerationCurve = 'linear' | 'quadratic' | 'exponential';
+
+// Aliens laid out as rows of characters, top row first. Each character is a
+// cell; '.' and ' ' are empty and the rest map to alien types via the legend
+// (s, m, l, A and S by default).
+export interface GridFormation {
+  kind: 'grid';
+  startY?: number;
+  horizontalSpacing?: number;
+  verticalSpacing?: number;
+  legend?: Record<string, AlienType>;
+  rows: string[];
+}
+
+// Aliens placed at explicit positions, centred on x = 0
+export interface FreeformFormation {
+  kind: 'freeform';
+  aliens: { type: AlienType; x: number; y: number }[];
+}
+
+export type FormationDefinition = GridFormation | FreeformFormation;
+
+export interface SwarmDefinition {
+  horizontalSpeed: number; // How fast the aliens move sideways
+  moveDownAmount: number; // How far down aliens move when reaching an edge
+  moveInterval: number; // Seconds between swarm steps at the start of the level
+  // How the step interval shrinks as aliens are destroyed; constant when omitted
+  acceleration?: AccelerationDefinition;
+  // How the swarm moves on each step; the classic side to side sweep when omitted
+  pattern?: SwarmPatternDefinition;
+}
+
+// Movement patterns for the swarm, implemented in swarmPatterns.ts. Every
+// pattern moves at the swarm's horizontalSpeed and descends by moveDownAmount
+// at a time, at edges or after each cycle.
+export type SwarmPatternDefinition =
+  | { kind: 'classic' } // Step sideways, drop at each edge
+  | {
+      kind: 'sineWave'; // Classic sweep with a wave rippling through the rows
+      amplitude?: number;
+      wavelength?: number; // Horizontal distance between wave crests
+      frequency?: number; // Wave cycles per second
+    }
+  | { kind: 'zigZag'; legLength?: number } // Diagonal legs, turning every legLength
+  | {
+      kind: 'rotatingRing'; // Concentric rings spinning in alternate directions
+      spacing?: number; // Between rings and between aliens on a ring
+      rotationSpeed?: number; // Radians per second
+    }
+  | { kind: 'split' } // Halves part towards the walls, then close up and drop
+  | { kind: 'orbit'; radius?: number }; // The formation circles a point, dropping each lap
+
+export type SwarmPatternKind = SwarmPatternDefinition['kind'];
+
+export interface AccelerationDefinition {
+  curve: AccelerationCurve;
+  amount: number; // Share of the interval removed once every alien is destroyed
+  minMoveInterval?: number;
+}
+
+// Optional dangers on top of the swarm itself
+export type HazardDefinition = AlienFireHazard | DiveHazard;
+
+// The bottom alien of each column shoots at the paddle
+export interface AlienFireHazard {
+  kind: 'alienFire';
+  rateMultiplier?: number;
+  projectileSpeed?: number;
+}
+
+// Aliens break formation one at a time and dive at the paddle
+export interface DiveHazard {
+  kind: 'dive';
+  interval?: number; // Average seconds between dives
+  maxDivers?: number; // Most aliens away from the formation at once
+  speed?: number; // Flight speed along the dive path
+}
+
+// Destructible bunkers between the paddle and the formation
+export interface BunkerLayout {
+  count?: number; // Bunkers spread evenly across the play field
+  x?: number[]; // Centres of the bunkers, instead of spreading `count` of them
+  y?: number; // Height of the bunkers' bottom edge
+  cellSize?: number;
+  shape?: string[]; // Rows of cells, top row first: '#' is solid, '.' and ' ' are empty
+}
+
+export interface LevelDefinition {
+  name: string;
+  formation: FormationDefinition;
+  swarm: SwarmDefinition;
+  hazards?: HazardDefinition[];
+  bunkers?: BunkerLayout;
+}
+
+// One alien of a formation resolved to a position and firing column
+export interface AlienPlacement {
+  type: AlienType;
+  x: number;
+  y: number;
+  column: number;
+}
+
+const DEFAULT_LEGEND: Record<string, AlienType> = {
+  s: 'small',
+  m: 'medium',
+  l: 'large',
+  A: 'armored',
+  S: 'shielded',
+};
+const DEFAULT_START_Y = 15;
+const DEFAULT_HORIZONTAL_SPACING = 2;
+const DEFAULT_VERTICAL_SPACING = 1.5;
+export const DEFAULT_MIN_MOVE_INTERVAL = 0.2;
+
+// Validate raw level data (a parsed object or JSON text) and return it typed.
+// Throws an Error listing every problem found.
+export function parseLevel(data: unknown, source: string = 'level'): LevelDefinition {
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch (error) {
+      throw new Error(`${source}: invalid JSON (${(error as Error).message})`);
+    }
+  }
+
+  // The JSON import is typed from its contents, which don't line up with JsonSchema
+  const errors = validateJson(data, levelSchema as unknown as JsonSchema);
+  if (errors.length === 0) {
+    errors.push(...checkFormation((data as LevelDefinition).formation));
+  }
+  if (errors.length > 0) {
+    throw new Error(`${source} is not a valid level:\n  ${errors.join('\n  ')}`);
+  }
+  return data as LevelDefinition;
+}
+
+// Rules the schema can't express, such as alien types being registered
+function checkFormation(formation: FormationDefinition): string[] {
+  const errors: string[] = [];
+  if (formation.kind === 'freeform') {
+    formation.aliens.forEach(({ type }, index) => {
+      if (!isAlienType(type)) {
+        errors.push(`$.formation.aliens[${index}].type: unknown alien type "${type}"`);
+      }
+    });
+    return errors;
+  }
+
+  const legend = { ...DEFAULT_LEGEND, ...formation.legend };
+  for (const [cell, type] of Object.entries(legend)) {
+    if (!isAlienType(type)) {
+      errors.push(`$.formation.legend.${cell}: unknown alien type "${type}"`);
+    }
+  }
+  formation.rows.forEach((row, index) => {
+    for (const cell of row) {
+      if (!isEmptyCell(cell) && !legend[cell]) {
+        errors.push(`$.formation.rows[${index}]: "${cell}" is not in the legend`);
+      }
+    }
+  });
+  if (errors.length === 0 && getFormationPlacements(formation).length === 0) {
+    errors.push('$.formation.rows: the formation has no aliens');
+  }
+  return errors;
+}
+
+function isEmptyCell(cell: string): boolean {
+  return cell === '.' || cell === ' ';
+}
+
+// Resolve a formation to alien positions. Grids are centred on x = 0; freeform
+// aliens sharing an x position share a firing column.
+export function getFormationPlacements(formation: FormationDefinition): AlienPlacement[] {
+  if (formation.kind === 'freeform') {
+    const columns = [...new Set(formation.aliens.map((alien) => alien.x))].sort((a, b) => a - b);
+    return formation.aliens.map(({ type, x, y }) => ({ type, x, y, column: columns.indexOf(x) }));
+  }
+
+  const legend = { ...DEFAULT_LEGEND, ...formation.legend };
+  const horizontalSpacing = formation.horizontalSpacing ?? DEFAULT_HORIZONTAL_SPACING;
+  const verticalSpacing = formation.verticalSpacing ?? DEFAULT_VERTICAL_SPACING;
+  const startY = formation.startY ?? DEFAULT_START_Y;
+  const columnCount = Math.max(...formation.rows.map((row) => row.length));
+  const startX = -((columnCount - 1) * horizontalSpacing) / 2;
+
+  const placements: AlienPlacement[] = [];
+  formation.rows.forEach((row, rowIndex) => {
+    [...row].forEach((cell, column) => {
+      if (isEmptyCell(cell)) return;
+      placements.push({
+        type: legend[cell],
+        x: startX + column * horizontalSpacing,
+        y: startY - rowIndex * verticalSpacing,
+        column,
+      });
+    });
+  });
+  return placements;
+}
+
+// How far along the acceleration curve the swarm is, from 0 with the full
+// formation to 1 with every alien destroyed
+export function accelerationProgress(curve: AccelerationCurve, destroyedFraction: number): number {
+  switch (curve) {
+    case 'linear':
+      return destroyedFraction;
+    case 'quadratic':
+      return destroyedFraction * destroyedFraction;
+    case 'exponential':
+      return (Math.exp(3 * destroyedFraction) - 1) / (Math.exp(3) - 1);
+  }
+}
+
+// The level's hazard of the given kind, if it has one
+export function findHazard<K extends HazardDefinition['kind']>(
+  level: LevelDefinition,
+  kind: K
+): Extract<HazardDefinition, { kind: K }> | undefined {
+  return level.hazards?.find(
+    (hazard): hazard is Extract<HazardDefinition, { kind: K }> => hazard.kind === kind
+  );
+}
+
+// The levels shipped with the game, in play order
+export const builtInLevels: readonly LevelDefinition[] = [level1, level2, level3, level4].map(
+  (data, index) => parseLevel(data, `levels/level${index + 1}.json`)
+);
+
+// How much faster the swarm gets for each level played past the last one
+export const REPEATED_LEVEL_SPEEDUP = 0.15;
+
+// Definition for a level number (1-based). Past the last level the final
+// definition repeats, with a swarm that moves faster, steps more often and
+// drops further on every repeat, so the game keeps getting harder.
+export function getLevelDefinition(
+  levels: readonly LevelDefinition[],
+  level: number
+): LevelDefinition {
+  if (levels.length === 0) {
+    throw new Error('No levels defined');
+  }
+
+  const repeats = level - levels.length;
+  if (repeats <= 0) return levels[level - 1];
+
+  const last = levels[levels.length - 1];
+  const scale = 1 + repeats * REPEATED_LEVEL_SPEEDUP;
+  return {
+    ...last,
+    swarm: {
+      ...last.swarm,
+      horizontalSpeed: last.swarm.horizontalSpeed * scale,
+      moveDownAmount: last.swarm.moveDownAmount * scale,
+      moveInterval: last.swarm.moveInterval / scale,
+    },
+  };
+}
@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { GameStateManager } from './gameStateManager';
+import { defaultConfig } from './config';
+import { loadPhysicsBackend } from './physics';
 
 // Function to initialize the app
 async function init() {
@@ -24,7 +26,6 @@ async function init() {
 
   // FPS counter variables
   let frameCount = 0;
-  let lastTime = performance.now();
   const fpsElement = document.getElementById('fps');
   if (fpsElement) {
     fpsElement.style.display = 'block';
@@ -47,6 +48,9 @@ async function init() {
       elapsedTime = 0;
     }
   }
+  // Load the configured physics backend before any simulation is created
+  await loadPhysicsBackend(defaultConfig.physicsBackend);
+
   // Initialize game state manager
   let gameStateManager = new GameStateManager(renderer);
 
@@ -59,7 +63,7 @@ async function init() {
     // Update FPS counter
     updateFPS(deltaTime);
 
-    // Update game state
+    // Advance the fixed-step simulation by the real frame time
     gameStateManager.update(deltaTime);
     gameStateManager.render();
   }
@@ -0,0 +1,321 @@
+import * as THREE from 'three';
+import { SeededRandom } from './random';
+
+// Built-in effects every entity can emit
+export type ParticlePresetKind = 'trail' | 'explosion' | 'spark' | 'debris';
+
+export interface ParticlePreset {
+  count: number; // Particles per emission
+  speed: [number, number]; // Range of speeds, in random directions
+  lifetime: [number, number]; // Range of seconds each particle lives
+  size: [number, number]; // World size at birth and at death
+  opacity: number; // At birth; particles fade out over their lifetime
+  gravity: number; // Downward acceleration
+  // Short point light at the emitter, e.g. the flash of an explosion
+  flash?: { intensity: number; distance: number; duration: number };
+}
+
+export type ParticlePresetOverrides = Partial<Record<ParticlePresetKind, Partial<ParticlePreset>>>;
+
+export const defaultParticlePresets: Record<ParticlePresetKind, ParticlePreset> = {
+  // Glow left behind a moving ball
+  trail: {
+    count: 1,
+    speed: [0, 0],
+    lifetime: [0.5, 0.5],
+    size: [0.72, 0.72],
+    opacity: 0.7,
+    gravity: 0,
+  },
+  // Burst and flash of a destroyed alien; bigger enemies emit it scaled up
+  explosion: {
+    count: 30,
+    speed: [2, 7],
+    lifetime: [1, 1],
+    size: [0.2, 0.2],
+    opacity: 1,
+    gravity: 0,
+    flash: { intensity: 2, distance: 10, duration: 0.2 },
+  },
+  // Quick bright specks off a glancing blow
+  spark: {
+    count: 8,
+    speed: [3, 8],
+    lifetime: [0.15, 0.3],
+    size: [0.15, 0.05],
+    opacity: 1,
+    gravity: 0,
+  },
+  // Chunks that tumble away and fall
+  debris: {
+    count: 6,
+    speed: [1, 4],
+    lifetime: [0.8, 1.2],
+    size: [0.25, 0.15],
+    opacity: 1,
+    gravity: 9.8,
+  },
+};
+
+// Flash lights are shared; adding and removing lights would recompile every
+// lit material, so the pool keeps a fixed number in the scene
+const FLASH_LIGHTS = 4;
+
+interface FlashLight {
+  light: THREE.PointLight;
+  intensity: number; // At the start of the flash
+  timeLeft: number;
+  duration: number;
+}
+
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uScale;
+  attribute vec4 aMotion; // Velocity, then gravity
+  attribute vec4 aLife; // Birth time, lifetime, size at birth, size at death
+  attribute vec4 aColor; // Colour, then opacity at birth
+  varying vec4 vColor;
+
+  void main() {
+    float age = uTime - aLife.x;
+    float progress = age / aLife.y;
+    if (progress < 0.0 || progress > 1.0) {
+      // Dead or free slot: push it out of clip space
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+
+    vec3 moved = position + aMotion.xyz * age - vec3(0.0, 0.5 * aMotion.w * age * age, 0.0);
+    vec4 mvPosition = modelViewMatrix * vec4(moved, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = mix(aLife.z, aLife.w, progress) * uScale / -mvPosition.z;
+    vColor = vec4(aColor.rgb, aColor.a * (1.0 - progress));
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  varying vec4 vColor;
+
+  void main() {
+    // Round particles with a soft edge
+    float distance = length(gl_PointCoord - vec2(0.5));
+    if (distance > 0.5) discard;
+    gl_FragColor = vec4(vColor.rgb, vColor.a * smoothstep(0.5, 0.3, distance));
+  }
+`;
+
+// One shared particle system for every effect in the game. Particles live in
+// preallocated ring buffers and are moved on the GPU from their birth position,
+// velocity and time, so emitting only writes the new slots and nothing is
+// allocated while playing. When the buffers are full the oldest particles are
+// reused. Time advances with the simulation, so effects pause and speed up
+// with it, and randomness comes from the cosmetic stream.
+export class ParticleSystem {
+  public readonly points: THREE.Points;
+  private capacity: number;
+  private presets: Record<ParticlePresetKind, ParticlePreset>;
+  private random: SeededRandom;
+  private enabled: boolean;
+  private scene: THREE.Scene;
+  private material: THREE.ShaderMaterial;
+  private next: number = 0; // Ring buffer slot the next particle goes in
+  private time: number = 0;
+
+  private origins: THREE.BufferAttribute;
+  private motions: THREE.BufferAttribute;
+  private lives: THREE.BufferAttribute;
+  private colors: THREE.BufferAttribute;
+  private flashes: FlashLight[] = [];
+  private nextFlash: number = 0;
+
+  private color = new THREE.Color();
+  private bufferSize = new THREE.Vector2();
+
+  constructor(
+    scene: THREE.Scene,
+    random: SeededRandom,
+    options: { capacity: number; presets?: ParticlePresetOverrides; enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.random = random;
+    this.enabled = options.enabled;
+    this.capacity = options.capacity;
+    this.presets = { ...defaultParticlePresets };
+    for (const [kind, override] of Object.entries(options.presets ?? {})) {
+      const preset = kind as ParticlePresetKind;
+      this.presets[preset] = { ...this.presets[preset], ...override };
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    this.origins = this.createAttribute(geometry, 'position', 3);
+    this.motions = this.createAttribute(geometry, 'aMotion', 4);
+    this.lives = this.createAttribute(geometry, 'aLife', 4);
+    this.colors = this.createAttribute(geometry, 'aColor', 4);
+    // Free slots have a negative lifetime and are never drawn
+    this.lives.array.fill(-1);
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: { uTime: { value: 0 }, uScale: { value: 1 } },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    });
+
+    this.points = new THREE.Points(geometry, this.material);
+    // Particles spread all over the play field from a single origin
+    this.points.frustumCulled = false;
+    // Match the size attenuation of PointsMaterial: world size times half the buffer height
+    this.points.onBeforeRender = (renderer) => {
+      this.material.uniforms.uScale.value = renderer.getDrawingBufferSize(this.bufferSize).y / 2;
+    };
+    scene.add(this.points);
+
+    for (let i = 0; i < FLASH_LIGHTS; i++) {
+      const light = new THREE.PointLight(0xffffff, 0, 1);
+      scene.add(light);
+      this.flashes.push({ light, intensity: 0, timeLeft: 0, duration: 1 });
+    }
+  }
+
+  private createAttribute(
+    geometry: THREE.BufferGeometry,
+    name: string,
+    itemSize: number
+  ): THREE.BufferAttribute {
+    const attribute = new THREE.BufferAttribute(
+      new Float32Array(this.capacity * itemSize),
+      itemSize
+    );
+    attribute.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute(name, attribute);
+    return attribute;
+  }
+
+  getPreset(kind: ParticlePresetKind): Readonly<ParticlePreset> {
+    return this.presets[kind];
+  }
+
+  // Emit a preset's particles at a position. `scale` grows the count, size,
+  // speed, lifetime and flash for bigger effects, such as a boss explosion.
+  emit(
+    kind: ParticlePresetKind,
+    position: { x: number; y: number; z: number },
+    color: THREE.ColorRepresentation,
+    scale: number = 1
+  ): void {
+    if (!this.enabled) return;
+
+    const preset = this.presets[kind];
+    const random = this.random;
+    const root = Math.sqrt(scale);
+    const count = Math.min(Math.round(preset.count * scale), this.capacity);
+    this.color.set(color);
+
+    const first = this.next;
+    for (let i = 0; i < count; i++) {
+      const slot = this.next;
+      this.next = (this.next + 1) % this.capacity;
+
+      // Random direction on the sphere
+      const theta = random.range(0, Math.PI * 2);
+      const phi = random.range(0, Math.PI);
+      const speed = random.range(preset.speed[0], preset.speed[1]) * root;
+
+      this.origins.setXYZ(slot, position.x, position.y, position.z);
+      this.motions.setXYZW(
+        slot,
+        Math.sin(phi) * Math.cos(theta) * speed,
+        Math.sin(phi) * Math.sin(theta) * speed,
+        Math.cos(phi) * speed,
+        preset.gravity
+      );
+      this.lives.setXYZW(
+        slot,
+        this.time,
+        random.range(preset.lifetime[0], preset.lifetime[1]) * root,
+        preset.size[0] * root,
+        preset.size[1] * root
+      );
+      this.colors.setXYZW(slot, this.color.r, this.color.g, this.color.b, preset.opacity);
+    }
+    this.markWritten(first, count);
+
+    if (preset.flash) {
+      this.startFlash(position, preset.flash, scale);
+    }
+  }
+
+  // Upload only the slots just written, in two ranges if they wrapped around
+  private markWritten(first: number, count: number): void {
+    if (count === 0) return;
+
+    const ranges =
+      first + count <= this.capacity
+        ? [[first, count]]
+        : [
+            [first, this.capacity - first],
+            [0, first + count - this.capacity],
+          ];
+    for (const attribute of [this.origins, this.motions, this.lives, this.colors]) {
+      for (const [start, length] of ranges) {
+        attribute.addUpdateRange(start * attribute.itemSize, length * attribute.itemSize);
+      }
+      attribute.needsUpdate = true;
+    }
+  }
+
+  // Light up the next light of the pool, taking over the oldest flash if all are in use
+  private startFlash(
+    position: { x: number; y: number; z: number },
+    flash: NonNullable<ParticlePreset['flash']>,
+    scale: number
+  ): void {
+    const slot = this.flashes[this.nextFlash];
+    this.nextFlash = (this.nextFlash + 1) % this.flashes.length;
+
+    slot.light.position.set(position.x, position.y, position.z);
+    slot.light.color.copy(this.color);
+    slot.light.distance = flash.distance * scale;
+    slot.intensity = flash.intensity * scale;
+    slot.duration = flash.duration * Math.sqrt(scale);
+    slot.timeLeft = slot.duration;
+    slot.light.intensity = slot.intensity;
+  }
+
+  // Advance particle time by a simulation tick and fade the flashes
+  update(deltaTime: number): void {
+    this.time += deltaTime;
+    this.material.uniforms.uTime.value = this.time;
+
+    for (const flash of this.flashes) {
+      if (flash.timeLeft <= 0) continue;
+      flash.timeLeft = Math.max(flash.timeLeft - deltaTime, 0);
+      flash.light.intensity = (flash.intensity * flash.timeLeft) / flash.duration;
+    }
+  }
+
+  // Kill every particle and flash, e.g. when a game restarts or a level starts
+  clear(): void {
+    this.lives.array.fill(-1);
+    this.lives.clearUpdateRanges();
+    this.lives.needsUpdate = true;
+    for (const flash of this.flashes) {
+      flash.timeLeft = 0;
+      flash.light.intensity = 0;
+    }
+  }
+
+  dispose(): void {
+    this.scene.remove(this.points);
+    this.points.geometry.dispose();
+    this.material.dispose();
+    for (const { light } of this.flashes) {
+      this.scene.remove(light);
+      light.dispose();
+    }
+    this.flashes = [];
+  }
+}
@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { Alien } from './Alien';
+import { Mothership } from './Mothership';
+import { BossPart } from './Boss';
+import { Bunker } from './Bunker';
+import { Paddle } from './Paddle';
+import { GameSimulation } from './gameSimulation';
+import { SimplePhysics } from './simplePhysics';
+
+// Physics backends move the free balls each tick and report what they touch.
+// The game rules (scoring, destroying aliens, aiming off the paddle) stay in
+// GameSimulation, which reacts to the reported contacts.
+export type PhysicsBackendKind = 'simple' | 'rapier';
+
+// Something a ball bounced off during a step. The normal points from the
+// surface towards the ball.
+export type BallContact =
+  | { kind: 'wall'; normal: THREE.Vector2 }
+  | { kind: 'paddle'; paddle: Paddle; normal: THREE.Vector2 }
+  | { kind: 'alien'; alien: Alien; normal: THREE.Vector2 }
+  | { kind: 'mothership'; mothership: Mothership; normal: THREE.Vector2 }
+  | { kind: 'boss'; part: BossPart; normal: THREE.Vector2 }
+  | { kind: 'bunker'; bunker: Bunker; cell: number; normal: THREE.Vector2 };
+
+export interface PhysicsBackend {
+  readonly kind: PhysicsBackendKind;
+
+  // Move every ball that is not attached to a paddle through one tick,
+  // calling GameSimulation.handleBallContact for each contact
+  step(deltaTime: number): void;
+
+  // Throw the remains of a destroyed alien into the world (cosmetic only)
+  spawnDebris(alien: Alien): void;
+
+  // Interpolate any meshes the backend owns between the last two ticks
+  updateMeshes(alpha: number): void;
+
+  dispose(): void;
+}
+
+type PhysicsBackendFactory = (game: GameSimulation) => PhysicsBackend;
+
+// The simple backend is always available. Rapier ships as WebAssembly, so it
+// is only loaded on request by loadPhysicsBackend.
+const backendFactories: Partial<Record<PhysicsBackendKind, PhysicsBackendFactory>> = {
+  simple: (game) => new SimplePhysics(game),
+};
+
+// Load the code for a backend. Must finish before a simulation using that
+// backend is created.
+export async function loadPhysicsBackend(kind: PhysicsBackendKind): Promise<void> {
+  if (kind === 'rapier' && !backendFactories.rapier) {
+    const { RapierPhysics } = await import('./rapierPhysics');
+    backendFactories.rapier = (game) => new RapierPhysics(game);
+  }
+}
+
+export function createPhysicsBackend(
+  kind: PhysicsBackendKind,
+  game: GameSimulation
+): PhysicsBackend {
+  const factory = backendFactories[kind];
+  if (!factory) {
+    throw new Error(`Physics backend "${kind}" is not loaded; await loadPhysicsBackend() first`);
+  }
+  return factory(game);
+}
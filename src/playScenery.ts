@@ -0,0 +1,285 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { Scheduler, easings } from './scheduler';
+
+// Scenery shared by every state that shows the play field: lights, ground,
+// starfield, walls and the orbiting camera. None of it affects gameplay.
+
+const WALL_THICKNESS = 1.0;
+
+// Add everything that surrounds the play field to the scene. Its animations
+// run on the given scheduler, so they stop with the state that shows them.
+export function createPlayScenery(
+  scene: THREE.Scene,
+  worldSize: number,
+  scheduler: Scheduler
+): void {
+  scene.background = new THREE.Color(0x000022); // Deep space blue
+
+  // Add lighting for the game scene
+  setupLighting(scene);
+
+  // Create surface mesh
+  createSurfaceMesh(scene, worldSize, scheduler);
+
+  // Create walls
+  createWalls(scene, worldSize);
+}
+
+// Camera looking at the play field, with orbit controls so the player can rotate and zoom
+export function createPlayCamera(renderer: THREE.WebGLRenderer | undefined): {
+  camera: THREE.PerspectiveCamera;
+  controls: OrbitControls | null;
+} {
+  // Set up camera with increased far plane
+  const camera = new THREE.PerspectiveCamera(
+    60, // FOV
+    window.innerWidth / window.innerHeight,
+    0.1,
+    2000
+  );
+
+  // Position the camera to view the game area
+  camera.position.set(0, 15, 20);
+  camera.lookAt(0, 8, 0);
+
+  // Add camera controls to allow user to rotate and zoom
+  let controls: OrbitControls | null = null;
+  if (renderer) {
+    controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+    controls.dampingFactor = 0.05;
+    controls.screenSpacePanning = false;
+    controls.minDistance = 15;
+    controls.maxDistance = 40;
+    controls.maxPolarAngle = Math.PI / 2 - 0.1; // Prevent going below ground
+
+    // Set initial position for best game viewing
+    controls.target.set(0, 8, 0);
+  }
+
+  return { camera, controls };
+}
+
+// Build the boundary walls around the play field
+function createWalls(scene: THREE.Scene, worldSize: number): void {
+  // Calculate half size for the world
+  const halfSize = worldSize / 2;
+
+  // Create materials for the walls
+  const wallMaterial = new THREE.MeshStandardMaterial({
+    color: 0x444488,
+    emissive: 0x111133,
+    metalness: 0.3,
+    roughness: 0.7,
+  });
+
+  // Create THREE wall meshes and physics bodies
+
+  // Left Wall
+  const leftWallGeometry = new THREE.BoxGeometry(WALL_THICKNESS, 30, worldSize);
+  const leftWallMesh = new THREE.Mesh(leftWallGeometry, wallMaterial);
+  leftWallMesh.position.set(-halfSize - WALL_THICKNESS / 2, 15, 0);
+  scene.add(leftWallMesh);
+
+  // Right Wall
+  const rightWallGeometry = new THREE.BoxGeometry(WALL_THICKNESS, 30, worldSize);
+  const rightWallMesh = new THREE.Mesh(rightWallGeometry, wallMaterial);
+  rightWallMesh.position.set(halfSize + WALL_THICKNESS / 2, 15, 0);
+  scene.add(rightWallMesh);
+
+  // Top Wall
+  const topWallGeometry = new THREE.BoxGeometry(
+    worldSize + WALL_THICKNESS * 2,
+    WALL_THICKNESS,
+    worldSize
+  );
+  const topWallMesh = new THREE.Mesh(topWallGeometry, wallMaterial);
+  topWallMesh.position.set(0, 30, 0);
+  scene.add(topWallMesh);
+
+  // Note: We don't need to create explicit physics bodies for walls
+  // since the simulation handles world boundaries automatically
+}
+
+// Set up lighting for the game scene
+function setupLighting(scene: THREE.Scene): void {
+  // Ambient light for overall scene brightness
+  const ambientLight = new THREE.AmbientLight(0x444466, 1.0);
+  scene.add(ambientLight);
+
+  // Main directional light to cast shadows
+  const directionalLight = new THREE.DirectionalLight(0xffffff, 1.5);
+  directionalLight.position.set(0, 30, 10);
+  directionalLight.castShadow = true;
+
+  // Configure shadow properties
+  directionalLight.shadow.mapSize.width = 2048;
+  directionalLight.shadow.mapSize.height = 2048;
+  directionalLight.shadow.camera.near = 0.5;
+  directionalLight.shadow.camera.far = 50;
+
+  // Set up shadow camera frustum
+  const d = 30;
+  directionalLight.shadow.camera.left = -d;
+  directionalLight.shadow.camera.right = d;
+  directionalLight.shadow.camera.top = d;
+  directionalLight.shadow.camera.bottom = -d;
+
+  scene.add(directionalLight);
+
+  // Add point lights for dramatic effect
+  const pointLight1 = new THREE.PointLight(0x0077ff, 2, 20);
+  pointLight1.position.set(-10, 10, 5);
+  scene.add(pointLight1);
+
+  const pointLight2 = new THREE.PointLight(0xff3300, 2, 20);
+  pointLight2.position.set(10, 10, 5);
+  scene.add(pointLight2);
+}
+
+// Create a surface-level mesh to represent the ground/base
+function createSurfaceMesh(scene: THREE.Scene, worldSize: number, scheduler: Scheduler): void {
+  // Create a ground plane with dark material
+  const groundSize = worldSize;
+  const groundGeometry = new THREE.PlaneGeometry(groundSize, groundSize);
+
+  // Rotate plane to be horizontal
+  groundGeometry.rotateX(-Math.PI / 2);
+
+  // Create ground material with a grid pattern
+  const gridTexture = new THREE.TextureLoader().load(
+    'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAYAAACqaXHeAAAACXBIWXMAAAsTAAALEwEAmpwYAAAF8WlUWHRYTUw6Y29tLmFkb2JlLnhtcAAAAAAAPD94cGFja2V0IGJlZ2luPSLvu78iIGlkPSJXNU0wTXBDZWhpSHpyZVN6TlRjemtjOWQiPz4gPHg6eG1wbWV0YSB4bWxuczpxPSJhZG9iZTpuczptZXRhLyIgeDp4bXB0az0iQWRvYmUgWE1QIENvcmUgNi4wLWMwMDIgNzkuMTY0NDg4LCAyMDIwLzA3LzEwLTIyOjA2OjUzICAgICAgICAiPiA8cmRmOlJERiB4bWxuczpyZGY9Imh0dHA6Ly93d3cudzMub3JnLzE5OTkvMDIvMjItcmRmLXN5bnRheC1ucyMiPiA8cmRmOkRlc2NyaXB0aW9uIHJkZjphYm91dD0iIiB4bWxuczpxbXA9Imh0dHA6Ly9ucy5hZG9iZS5jb20veGFwLzEuMC8iIHhtbG5zOmRjPSJodHRwOi8vcHVybC5vcmcvZGMvZWxlbWVudHMvMS4xLyIgeG1sbnM6cGhvdG9zaG9wPSJodHRwOi8vbnMuYWRvYmUuY29tL3Bob3Rvc2hvcC8xLjAvIiB4bWxuczpxbXBNTT0iaHR0cDovL25zLmFkb2JlLmNvbS94YXAvMS4wL21tLyIgeG1sbnM6c3RFdnQ9Imh0dHA6Ly9ucy5hZG9iZS5jb20veGFwLzEuMC9zVHlwZS9SZXNvdXJjZUV2ZW50IyIgeG1wOkNyZWF0b3JUb29sPSJBZG9iZSBQaG90b3Nob3AgQ0MgKFdpbmRvd3MpIiB4bXA6Q3JlYXRlRGF0ZT0iMjAyMC0wOC0xMFQxMjo1MjozNyswMjowMCIgeG1wOk1vZGlmeURhdGU9IjIwMjAtMDgtMTBUMTI6NTU6NDMrMDI6MDAiIHhtcDpNZXRhZGF0YURhdGU9IjIwMjAtMDgtMTBUMTI6NTU6NDMrMDI6MDAiIGRjOmZvcm1hdD0iaW1hZ2UvcG5nIiBwaG90b3Nob3A6Q29sb3JNb2RlPSIzIiB4bXBNTTpJbnN0YW5jZUlEPSJ4bXAuaWQ6NDJmNjFmNzUtNzBlZS00YTRhLThlNzAtZjAzMTI4MGNlNGE4OCIgeG1wTU06RG9jdW1lbnRJRD0ieG1wLmRpZDpjNzNmNjkyYi00MDdlLTQzOTAtODBlNC1jNzVlYmU0ZTRmZDYiPiA8eG1wTU06SGlzdG9yeT4gPHJkZjpTZXE+IDxyZGY6bGkgc3RFdnQ6YWN0aW9uPSJjcmVhdGVkIiBzdEV2dDppbnN0YW5jZUlEPSJ4bXAuaWQ6YzczZjY5MmItNDA3ZS00MzkwLTgwZTQtYzc1ZWJlNGU0ZmQ2IiBzdEV2dDp3aGVuPSIyMDIwLTA4LTEwVDEyOjU1OjQzKzAyOjAwIiBzdEV2dDpzb2Z0d2FyZUFnZW50PSJBZG9iZSBQaG90b3Nob3AgQ0MgKFdpbmRvd3MpIiBzdEV2dDpjaGFuZ2VkPSIvIi8+IDwvcmRmOlNlcT4gPC94bXBNTTpIaXN0b3J5PiA8L3JkZjpEZXNjcmlwdGlvbj4gPC9yZGY6UkRGPiA8L3g6eG1wbWV0YT4gPD94cGFja2V0IGVuZD0iciI/Ps3gIaEAAAFRSURBVHja7dpBDoMgEAVQ6L3qCt3D/U/gHu5dV5jYGI3owEyVCfMXJhiG8QvVaPR8nJcB8I+AAiiAAvgdIAfNGxF9XtNvXdYp/fQkACnFVNYlvX7TJU3Hf3QBZPt0gGTzwQBq9PQTwOzRmwDMHr1qAFUIFkAVggVQhWABXCEYAL2IzAJQSsoNMDN+HMAMAgZQQlgA7SCVgHtCqAFmEVgAsSOsAlQhWgBViB5AEaIHQIIo2YSQIEo2ISSIr06CCKJkE8KFCAsQQoQFCCHCAnQR2QCeEKEALUQ4QA0RDlBDhAPkjehlKhzA+kj9tAs8IGrWRx4QTYMYGsQiPe1qvl9tAD6ivgJrfV+H+P41Ig6dg/MQMeicnIOIQefkHEQMOifnIGLQOTkHkUZnA+IqXYN4ZLIHcZWWgXhk62A/AAAAAAAAAAAAzMcNlrWuLcW3oLkAAAAASUVORK5CYII='
+  );
+
+  // Set texture repeating
+  gridTexture.wrapS = THREE.RepeatWrapping;
+  gridTexture.wrapT = THREE.RepeatWrapping;
+  gridTexture.repeat.set(groundSize / 5, groundSize / 5);
+
+  // Create ground material with grid texture
+  const groundMaterial = new THREE.MeshStandardMaterial({
+    map: gridTexture,
+    color: 0x110022, // Dark purple for space feel
+    roughness: 0.8,
+    metalness: 0.2,
+  });
+
+  // Create the ground mesh
+  const groundMesh = new THREE.Mesh(groundGeometry, groundMaterial);
+  groundMesh.receiveShadow = true;
+  groundMesh.position.y = 0;
+
+  // Add ground mesh to the scene
+  scene.add(groundMesh);
+
+  // Add stars to the background
+  createStarfield(scene, scheduler);
+}
+
+// Create a starfield for the background
+function createStarfield(scene: THREE.Scene, scheduler: Scheduler): void {
+  const starCount = 2000;
+  const starGeometry = new THREE.BufferGeometry();
+  const starPositions = new Float32Array(starCount * 3);
+  const starColors = new Float32Array(starCount * 3);
+
+  // Random star positions in a large sphere around the scene
+  const radius = 500;
+  for (let i = 0; i < starCount; i++) {
+    // Random spherical coordinates
+    const theta = Math.random() * Math.PI * 2;
+    const phi = Math.acos(2 * Math.random() - 1);
+    const r = radius * Math.cbrt(Math.random()); // Cube root for more uniform distribution
+
+    // Convert to cartesian coordinates
+    starPositions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+    starPositions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    starPositions[i * 3 + 2] = r * Math.cos(phi);
+
+    // Random star colors (mostly white, some blue/red)
+    const colorChoice = Math.random();
+    if (colorChoice < 0.8) {
+      // White to light blue
+      starColors[i * 3] = 0.8 + Math.random() * 0.2;
+      starColors[i * 3 + 1] = 0.8 + Math.random() * 0.2;
+      starColors[i * 3 + 2] = 0.9 + Math.random() * 0.1;
+    } else if (colorChoice < 0.95) {
+      // Red/orange
+      starColors[i * 3] = 0.8 + Math.random() * 0.2;
+      starColors[i * 3 + 1] = 0.3 + Math.random() * 0.5;
+      starColors[i * 3 + 2] = 0.2 + Math.random() * 0.2;
+    } else {
+      // Bright blue
+      starColors[i * 3] = 0.2 + Math.random() * 0.2;
+      starColors[i * 3 + 1] = 0.5 + Math.random() * 0.3;
+      starColors[i * 3 + 2] = 0.8 + Math.random() * 0.2;
+    }
+  }
+
+  starGeometry.setAttribute('position', new THREE.BufferAttribute(starPositions, 3));
+  starGeometry.setAttribute('color', new THREE.BufferAttribute(starColors, 3));
+
+  const starMaterial = new THREE.PointsMaterial({
+    size: 1.5,
+    vertexColors: true,
+    transparent: true,
+    opacity: 0.8,
+  });
+
+  const stars = new THREE.Points(starGeometry, starMaterial);
+  scene.add(stars);
+
+  // Add a few brighter stars that twinkle
+  createTwinklingStars(scene, scheduler);
+}
+
+// Create some larger stars that twinkle
+function createTwinklingStars(scene: THREE.Scene, scheduler: Scheduler): void {
+  const twinkleCount = 50;
+  const twinkleGeometry = new THREE.BufferGeometry();
+  const twinklePositions = new Float32Array(twinkleCount * 3);
+
+  // Random positions for twinkling stars
+  const radius = 300;
+  for (let i = 0; i < twinkleCount; i++) {
+    const theta = Math.random() * Math.PI * 2;
+    const phi = Math.acos(2 * Math.random() - 1);
+    const r = radius * Math.random();
+
+    twinklePositions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+    twinklePositions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    twinklePositions[i * 3 + 2] = r * Math.cos(phi);
+  }
+
+  twinkleGeometry.setAttribute('position', new THREE.BufferAttribute(twinklePositions, 3));
+
+  // Create materials with different colors
+  const materials = [
+    new THREE.PointsMaterial({ color: 0xffffff, size: 3, transparent: true }),
+    new THREE.PointsMaterial({ color: 0x88ccff, size: 2.5, transparent: true }),
+    new THREE.PointsMaterial({ color: 0xffcc88, size: 2.7, transparent: true }),
+  ];
+
+  // Create different star groups with different materials
+  for (const material of materials) {
+    const twinkleStars = new THREE.Points(twinkleGeometry, material);
+    scene.add(twinkleStars);
+
+    // Create twinkling animation
+    const minOpacity = 0.2 + Math.random() * 0.3;
+    const maxOpacity = 0.7 + Math.random() * 0.3;
+    const twinkleSpeed = 0.3 + Math.random() * 0.7;
+
+    // Animate opacity back and forth for twinkling effect
+    scheduler.tween({
+      from: minOpacity,
+      to: maxOpacity,
+      duration: Math.PI / twinkleSpeed,
+      ease: easings.easeInOutSine,
+      repeat: Infinity,
+      yoyo: true,
+      onUpdate: (opacity) => (material.opacity = opacity),
+    });
+  }
+}
@@ -76,7 +76,7 @@ export class PreMarquee implements IGameState {
     this.gameStateManager.switchToPlay();
   }
 
-  update(deltaTime: number): void {
+  update(_deltaTime: number): void {
     // No updates needed for the pre-marquee state
   }
 
@@ -0,0 +1,60 @@
+// Seedable pseudo-random number generator (mulberry32). Small and fast, and
+// the same seed always produces the same sequence on every platform.
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Next number in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Number in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [min, max)
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length)];
+  }
+}
+
+// Mix a seed with a stream id so each stream gets an unrelated sequence
+function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Random streams for one match. Anything that can change the outcome of the
+// game draws from `gameplay`; purely visual effects draw from `cosmetic`, so
+// turning effects on or off never changes what happens in the game.
+export class RandomService {
+  public readonly seed: number;
+  public readonly gameplay: SeededRandom;
+  public readonly cosmetic: SeededRandom;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.gameplay = new SeededRandom(deriveSeed(this.seed, 1));
+    this.cosmetic = new SeededRandom(deriveSeed(this.seed, 2));
+  }
+}
+
+// Fresh seed for a new match
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
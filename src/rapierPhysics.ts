@@ -0,0 +1,651 @@
+import * as THREE from 'three';
+import * as RAPIER from '@dimforge/rapier3d';
+import { Alien } from './Alien';
+import { getAlienTypeDefinition } from './alienTypes';
+import { Ball } from './Ball';
+import { Mothership } from './Mothership';
+import { Boss, BossPart } from './Boss';
+import { Bunker } from './Bunker';
+import { Paddle } from './Paddle';
+import { CollisionShape } from './collision';
+import { GameSimulation } from './gameSimulation';
+import { BallContact, PhysicsBackend } from './physics';
+
+// Collision groups: which kinds of body touch which
+const GROUP_BALL = 0x0001;
+const GROUP_PADDLE = 0x0002;
+const GROUP_ALIEN = 0x0004;
+const GROUP_WALL = 0x0008;
+const GROUP_BUNKER = 0x0010;
+
+function collisionGroups(membership: number, filter: number): number {
+  return (membership << 16) | filter;
+}
+
+// Depth of walls and paddles along Z; play happens at z = 0
+const BODY_DEPTH = 2;
+const WALL_THICKNESS = 1;
+
+const DEBRIS_PIECES = 6;
+const DEBRIS_LIFETIME = 3; // Seconds before a piece is removed
+
+interface Debris {
+  body: RAPIER.RigidBody;
+  mesh: THREE.Mesh;
+  age: number;
+  previousPosition: THREE.Vector3;
+  previousRotation: THREE.Quaternion;
+}
+
+// The game object a collider belongs to
+type ColliderOwner =
+  | { kind: 'ball'; ball: Ball }
+  | { kind: 'paddle'; paddle: Paddle }
+  | { kind: 'alien'; alien: Alien }
+  | { kind: 'mothership'; mothership: Mothership }
+  | { kind: 'boss'; part: BossPart }
+  | { kind: 'bunker'; bunker: Bunker; cell: number }
+  | { kind: 'wall' };
+
+// A ball touching another collider, keyed by the pair of collider handles
+interface ActiveContact {
+  ballHandle: number;
+  otherHandle: number;
+  reported: boolean;
+  ended: boolean; // Separated during the last step; dropped once checked
+}
+
+// Rapier world in which balls are dynamic bodies, paddles and aliens are
+// kinematic bodies following the simulation, and walls and bunkers are fixed. Contacts come
+// from Rapier's collision events. Destroyed aliens break into debris that
+// tumbles under gravity and piles up on the ground.
+export class RapierPhysics implements PhysicsBackend {
+  readonly kind = 'rapier';
+  private game: GameSimulation;
+  private world: RAPIER.World;
+  private eventQueue: RAPIER.EventQueue;
+  // Debris is cosmetic, so it lives in a world of its own with just the walls
+  // and the ground: bodies in the game's world would change how its balls are
+  // solved, and with it the game, depending on whether effects are on
+  private debrisWorld: RAPIER.World;
+
+  private ballBodies: Map<Ball, RAPIER.RigidBody> = new Map();
+  private paddleBodies: Map<Paddle, RAPIER.RigidBody> = new Map();
+  private alienBodies: Map<Alien, RAPIER.RigidBody> = new Map();
+  private mothershipBody: { mothership: Mothership; body: RAPIER.RigidBody } | null = null;
+  private bossBody: {
+    boss: Boss;
+    body: RAPIER.RigidBody;
+    colliders: Map<BossPart, RAPIER.Collider[]>;
+  } | null = null;
+  private bunkerBodies: Map<
+    Bunker,
+    { body: RAPIER.RigidBody; colliders: Map<number, RAPIER.Collider> }
+  > = new Map();
+  private colliderOwners: Map<number, ColliderOwner> = new Map();
+  private activeContacts: Map<string, ActiveContact> = new Map();
+  private debris: Debris[] = [];
+  // Every piece shares one unit box, scaled to size, and the material of its colour
+  private debrisGeometry: THREE.BoxGeometry = new THREE.BoxGeometry(1, 1, 1);
+  private debrisMaterials: Map<number, THREE.MeshStandardMaterial> = new Map();
+
+  constructor(game: GameSimulation) {
+    this.game = game;
+    this.world = new RAPIER.World({ x: 0, y: 0, z: 0 });
+    this.eventQueue = new RAPIER.EventQueue(true);
+    this.debrisWorld = new RAPIER.World({ x: 0, y: -9.81, z: 0 });
+
+    this.createWalls();
+  }
+
+  // Left, right and top walls in both worlds, plus ground for debris only.
+  // The bottom stays open to balls so a missed ball falls out of play.
+  private createWalls(): void {
+    const { minX, maxX, minY, maxY } = this.game.worldBounds;
+    const height = maxY - minY;
+    const width = maxX - minX;
+    const halfThickness = WALL_THICKNESS / 2;
+    const wallGroups = collisionGroups(GROUP_WALL, GROUP_BALL);
+
+    const slab = (x: number, y: number, hx: number, hy: number) =>
+      RAPIER.ColliderDesc.cuboid(hx, hy, BODY_DEPTH * 4).setTranslation(x, y, 0);
+
+    const walls = [
+      slab(minX - halfThickness, minY + height / 2, halfThickness, height / 2),
+      slab(maxX + halfThickness, minY + height / 2, halfThickness, height / 2),
+      slab((minX + maxX) / 2, maxY + halfThickness, width / 2, halfThickness),
+    ];
+    for (const wall of walls) {
+      this.debrisWorld.createCollider(wall);
+      const collider = this.world.createCollider(wall.setCollisionGroups(wallGroups));
+      this.colliderOwners.set(collider.handle, { kind: 'wall' });
+    }
+
+    this.debrisWorld.createCollider(
+      slab((minX + maxX) / 2, minY - halfThickness, width / 2, halfThickness)
+    );
+  }
+
+  step(deltaTime: number): void {
+    this.storeDebrisTransforms();
+    this.syncBalls();
+    this.syncPaddles();
+    this.syncAliens();
+    this.syncMothership();
+    this.syncBoss();
+    this.syncBunkers();
+
+    this.world.timestep = deltaTime;
+    this.world.step(this.eventQueue);
+
+    // Copy the solved ball motion back, kept in the play plane
+    this.ballBodies.forEach((body, ball) => {
+      const position = body.translation();
+      const velocity = body.linvel();
+      ball.position.set(position.x, position.y, 0);
+      ball.velocity.set(velocity.x, velocity.y, 0);
+    });
+
+    // Track touching pairs. Rapier reports a contact as soon as the shapes are
+    // within prediction distance, which can be a step before the solver bounces
+    // the ball, so each contact is handed to the game once the ball moves away.
+    this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      const ballHandle = this.colliderOwners.get(handle1)?.kind === 'ball' ? handle1 : handle2;
+      const otherHandle = ballHandle === handle1 ? handle2 : handle1;
+      const key = `${ballHandle}:${otherHandle}`;
+
+      if (started) {
+        this.activeContacts.set(key, { ballHandle, otherHandle, reported: false, ended: false });
+      } else {
+        const contact = this.activeContacts.get(key);
+        if (contact) contact.ended = true;
+      }
+    });
+
+    this.activeContacts.forEach((contact, key) => {
+      if (!contact.reported) {
+        contact.reported = this.reportContact(contact.ballHandle, contact.otherHandle);
+      }
+      const removed =
+        !this.colliderOwners.has(contact.ballHandle) ||
+        !this.colliderOwners.has(contact.otherHandle);
+      if (contact.ended || removed) {
+        this.activeContacts.delete(key);
+      }
+    });
+
+    this.debrisWorld.timestep = deltaTime;
+    this.debrisWorld.step();
+    this.updateDebris(deltaTime);
+  }
+
+  // Hand a contact to the game once the ball bounced off it. Returns whether
+  // the contact was reported.
+  private reportContact(ballHandle: number, otherHandle: number): boolean {
+    const owner = this.colliderOwners.get(ballHandle);
+    const other = this.colliderOwners.get(otherHandle);
+    // Removed bodies, and ball versus ball which the rules don't handle
+    if (owner?.kind !== 'ball' || !other || other.kind === 'ball') return false;
+
+    const ball = owner.ball;
+    const normal = this.contactNormal(ball, ballHandle, otherHandle);
+    if (ball.velocity.x * normal.x + ball.velocity.y * normal.y <= 0) return false;
+
+    let contact: BallContact;
+    switch (other.kind) {
+      case 'paddle':
+        contact = { kind: 'paddle', paddle: other.paddle, normal };
+        break;
+      case 'alien':
+        if (other.alien.isDestroyed) return false;
+        contact = { kind: 'alien', alien: other.alien, normal };
+        break;
+      case 'mothership':
+        if (other.mothership.isDestroyed) return false;
+        contact = { kind: 'mothership', mothership: other.mothership, normal };
+        break;
+      case 'boss':
+        if (other.part.isDestroyed) return false;
+        contact = { kind: 'boss', part: other.part, normal };
+        break;
+      case 'bunker':
+        if (!other.bunker.isSolid(other.cell)) return false;
+        contact = { kind: 'bunker', bunker: other.bunker, cell: other.cell, normal };
+        break;
+      case 'wall':
+        contact = { kind: 'wall', normal };
+        break;
+    }
+
+    this.game.handleBallContact(ball, contact);
+    return true;
+  }
+
+  // Contact normal in the XY plane, pointing from the other collider to the ball
+  private contactNormal(ball: Ball, ballHandle: number, otherHandle: number): THREE.Vector2 {
+    const ballCollider = this.world.getCollider(ballHandle);
+    const otherCollider = this.world.getCollider(otherHandle);
+    const otherPosition = otherCollider.translation();
+    const offset = new THREE.Vector2(
+      ball.position.x - otherPosition.x,
+      ball.position.y - otherPosition.y
+    );
+
+    const normal = new THREE.Vector2();
+    this.world.contactPair(ballCollider, otherCollider, (manifold) => {
+      const manifoldNormal = manifold.normal();
+      normal.set(manifoldNormal.x, manifoldNormal.y);
+    });
+
+    if (normal.lengthSq() === 0) {
+      // No manifold left after the step; fall back to the direction between centres
+      return offset.lengthSq() > 0 ? offset.normalize() : new THREE.Vector2(0, 1);
+    }
+
+    // Manifold normals point away from whichever collider Rapier listed first
+    if (normal.dot(offset) < 0) normal.negate();
+    return normal.normalize();
+  }
+
+  // Create bodies for newly released balls, drop those that were caught or
+  // removed, and hand the current ball state to Rapier
+  private syncBalls(): void {
+    const freeBalls = new Set(this.game.balls.filter((ball) => !ball.isAttachedToPaddle));
+
+    this.ballBodies.forEach((body, ball) => {
+      if (!freeBalls.has(ball)) {
+        this.removeBody(body);
+        this.ballBodies.delete(ball);
+      }
+    });
+
+    for (const ball of freeBalls) {
+      let body = this.ballBodies.get(ball);
+      if (!body) {
+        body = this.world.createRigidBody(
+          RAPIER.RigidBodyDesc.dynamic()
+            .setTranslation(ball.position.x, ball.position.y, 0)
+            .setGravityScale(0)
+            .setCcdEnabled(true)
+            .lockRotations()
+        );
+        body.setEnabledTranslations(true, true, false, true);
+
+        const collider = this.world.createCollider(
+          RAPIER.ColliderDesc.ball(ball.size.radius)
+            .setRestitution(1)
+            .setRestitutionCombineRule(RAPIER.CoefficientCombineRule.Max)
+            .setFriction(0)
+            .setFrictionCombineRule(RAPIER.CoefficientCombineRule.Min)
+            .setCollisionGroups(
+              collisionGroups(GROUP_BALL, GROUP_PADDLE | GROUP_ALIEN | GROUP_WALL | GROUP_BUNKER)
+            )
+            .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS),
+          body
+        );
+        this.colliderOwners.set(collider.handle, { kind: 'ball', ball });
+        this.ballBodies.set(ball, body);
+      }
+
+      // The simulation may have changed the ball since the last step (aiming,
+      // speed limits, resets), so it is the source of truth
+      body.setTranslation({ x: ball.position.x, y: ball.position.y, z: 0 }, true);
+      body.setLinvel({ x: ball.velocity.x, y: ball.velocity.y, z: 0 }, true);
+    }
+  }
+
+  private syncPaddles(): void {
+    const paddles = new Set(this.game.paddles);
+
+    this.paddleBodies.forEach((body, paddle) => {
+      if (!paddles.has(paddle)) {
+        this.removeBody(body);
+        this.paddleBodies.delete(paddle);
+      }
+    });
+
+    for (const paddle of paddles) {
+      let body = this.paddleBodies.get(paddle);
+      if (!body) {
+        body = this.world.createRigidBody(
+          RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
+            paddle.position.x,
+            paddle.position.y,
+            0
+          )
+        );
+        const collider = this.world.createCollider(
+          RAPIER.ColliderDesc.cuboid(
+            paddle.size.width / 2,
+            paddle.size.height / 2,
+            BODY_DEPTH
+          ).setCollisionGroups(collisionGroups(GROUP_PADDLE, GROUP_BALL)),
+          body
+        );
+        this.colliderOwners.set(collider.handle, { kind: 'paddle', paddle });
+        this.paddleBodies.set(paddle, body);
+      }
+
+      body.setNextKinematicTranslation({ x: paddle.position.x, y: paddle.position.y, z: 0 });
+    }
+  }
+
+  private syncAliens(): void {
+    const aliens = new Set(
+      this.game.alienManager.getAliens().filter((alien) => !alien.isDestroyed)
+    );
+
+    this.alienBodies.forEach((body, alien) => {
+      if (!aliens.has(alien)) {
+        this.removeBody(body);
+        this.alienBodies.delete(alien);
+      }
+    });
+
+    for (const alien of aliens) {
+      let body = this.alienBodies.get(alien);
+      if (!body) {
+        body = this.world.createRigidBody(
+          RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
+            alien.position.x,
+            alien.position.y,
+            0
+          )
+        );
+        for (const desc of shapeColliders(alien.collisionShape)) {
+          const collider = this.world.createCollider(
+            desc.setCollisionGroups(collisionGroups(GROUP_ALIEN, GROUP_BALL)),
+            body
+          );
+          this.colliderOwners.set(collider.handle, { kind: 'alien', alien });
+        }
+        this.alienBodies.set(alien, body);
+      }
+
+      body.setNextKinematicTranslation({ x: alien.position.x, y: alien.position.y, z: 0 });
+    }
+  }
+
+  // The mothership is a kinematic body like the aliens, in the same collision group
+  private syncMothership(): void {
+    const mothership = this.game.motherships.getMothership();
+
+    if (this.mothershipBody && this.mothershipBody.mothership !== mothership) {
+      this.removeBody(this.mothershipBody.body);
+      this.mothershipBody = null;
+    }
+    if (!mothership) return;
+
+    if (!this.mothershipBody) {
+      const body = this.world.createRigidBody(
+        RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
+          mothership.position.x,
+          mothership.position.y,
+          0
+        )
+      );
+      for (const desc of shapeColliders(mothership.collisionShape)) {
+        const collider = this.world.createCollider(
+          desc.setCollisionGroups(collisionGroups(GROUP_ALIEN, GROUP_BALL)),
+          body
+        );
+        this.colliderOwners.set(collider.handle, { kind: 'mothership', mothership });
+      }
+      this.mothershipBody = { mothership, body };
+    }
+
+    this.mothershipBody.body.setNextKinematicTranslation({
+      x: mothership.position.x,
+      y: mothership.position.y,
+      z: 0,
+    });
+  }
+
+  // The boss is one kinematic body with a collider per part; destroyed parts
+  // lose their colliders
+  private syncBoss(): void {
+    const boss = this.game.bosses.getBoss();
+    const solidParts = boss ? boss.getSolidParts() : [];
+
+    if (this.bossBody && (this.bossBody.boss !== boss || solidParts.length === 0)) {
+      this.removeBody(this.bossBody.body);
+      this.bossBody = null;
+    }
+    if (!boss || solidParts.length === 0) return;
+
+    if (!this.bossBody) {
+      const body = this.world.createRigidBody(
+        RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
+          boss.position.x,
+          boss.position.y,
+          0
+        )
+      );
+      const colliders = new Map<BossPart, RAPIER.Collider[]>();
+      for (const part of solidParts) {
+        colliders.set(
+          part,
+          shapeColliders(part.collisionShape).map((desc) => {
+            const collider = this.world.createCollider(
+              desc.setCollisionGroups(collisionGroups(GROUP_ALIEN, GROUP_BALL)),
+              body
+            );
+            this.colliderOwners.set(collider.handle, { kind: 'boss', part });
+            return collider;
+          })
+        );
+      }
+      this.bossBody = { boss, body, colliders };
+    }
+
+    this.bossBody.colliders.forEach((colliders, part) => {
+      if (!part.isDestroyed) return;
+      for (const collider of colliders) {
+        this.colliderOwners.delete(collider.handle);
+        this.world.removeCollider(collider, false);
+      }
+      this.bossBody!.colliders.delete(part);
+    });
+
+    this.bossBody.body.setNextKinematicTranslation({
+      x: boss.position.x,
+      y: boss.position.y,
+      z: 0,
+    });
+  }
+
+  // Each bunker is a fixed body with a box collider per cell; destroyed cells
+  // lose their colliders
+  private syncBunkers(): void {
+    const bunkers = new Set(this.game.bunkers.getBunkers());
+
+    this.bunkerBodies.forEach(({ body }, bunker) => {
+      if (!bunkers.has(bunker)) {
+        this.removeBody(body);
+        this.bunkerBodies.delete(bunker);
+      }
+    });
+
+    for (const bunker of bunkers) {
+      let entry = this.bunkerBodies.get(bunker);
+      if (!entry) {
+        const body = this.world.createRigidBody(
+          RAPIER.RigidBodyDesc.fixed().setTranslation(bunker.position.x, bunker.position.y, 0)
+        );
+        const colliders = new Map<number, RAPIER.Collider>();
+        const halfSize = bunker.cellSize / 2;
+        for (let cell = 0; cell < bunker.columns * bunker.rows; cell++) {
+          if (!bunker.isSolid(cell)) continue;
+          const position = bunker.getCellPosition(cell);
+          const collider = this.world.createCollider(
+            RAPIER.ColliderDesc.cuboid(halfSize, halfSize, BODY_DEPTH / 2)
+              .setTranslation(position.x - bunker.position.x, position.y - bunker.position.y, 0)
+              .setCollisionGroups(collisionGroups(GROUP_BUNKER, GROUP_BALL)),
+            body
+          );
+          this.colliderOwners.set(collider.handle, { kind: 'bunker', bunker, cell });
+          colliders.set(cell, collider);
+        }
+        entry = { body, colliders };
+        this.bunkerBodies.set(bunker, entry);
+      }
+
+      entry.colliders.forEach((collider, cell) => {
+        if (bunker.isSolid(cell)) return;
+        this.colliderOwners.delete(collider.handle);
+        this.world.removeCollider(collider, false);
+        entry!.colliders.delete(cell);
+      });
+    }
+  }
+
+  private removeBody(body: RAPIER.RigidBody): void {
+    for (let i = 0; i < body.numColliders(); i++) {
+      this.colliderOwners.delete(body.collider(i).handle);
+    }
+    this.world.removeRigidBody(body);
+  }
+
+  spawnDebris(alien: Alien): void {
+    const color = getAlienTypeDefinition(alien.type).color;
+    const pieceSize = alien.size.width * 0.25;
+    const random = this.game.random.cosmetic;
+
+    for (let i = 0; i < DEBRIS_PIECES; i++) {
+      const position = new THREE.Vector3(
+        alien.position.x + random.range(-0.3, 0.3),
+        alien.position.y + random.range(-0.3, 0.3),
+        random.range(-0.3, 0.3)
+      );
+
+      const body = this.debrisWorld.createRigidBody(
+        RAPIER.RigidBodyDesc.dynamic()
+          .setTranslation(position.x, position.y, position.z)
+          .setLinvel(random.range(-4, 4), random.range(1, 6), random.range(-3, 3))
+          .setAngvel({
+            x: random.range(-10, 10),
+            y: random.range(-10, 10),
+            z: random.range(-10, 10),
+          })
+      );
+      this.debrisWorld.createCollider(
+        RAPIER.ColliderDesc.cuboid(pieceSize / 2, pieceSize / 2, pieceSize / 2).setRestitution(0.3),
+        body
+      );
+
+      const mesh = new THREE.Mesh(this.debrisGeometry, this.debrisMaterial(color));
+      mesh.scale.setScalar(pieceSize);
+      mesh.position.copy(position);
+      this.game.scene.add(mesh);
+
+      this.debris.push({
+        body,
+        mesh,
+        age: 0,
+        previousPosition: position.clone(),
+        previousRotation: mesh.quaternion.clone(),
+      });
+    }
+  }
+
+  private debrisMaterial(color: number): THREE.MeshStandardMaterial {
+    let material = this.debrisMaterials.get(color);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.3 });
+      this.debrisMaterials.set(color, material);
+    }
+    return material;
+  }
+
+  // Remember where each piece was at the start of the tick
+  private storeDebrisTransforms(): void {
+    for (const piece of this.debris) {
+      const position = piece.body.translation();
+      const rotation = piece.body.rotation();
+      piece.previousPosition.set(position.x, position.y, position.z);
+      piece.previousRotation.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    }
+  }
+
+  // Age debris and remove pieces that have been around long enough
+  private updateDebris(deltaTime: number): void {
+    this.debris = this.debris.filter((piece) => {
+      piece.age += deltaTime;
+      if (piece.age < DEBRIS_LIFETIME) return true;
+
+      this.disposeDebris(piece);
+      return false;
+    });
+  }
+
+  updateMeshes(alpha: number): void {
+    for (const piece of this.debris) {
+      const position = piece.body.translation();
+      const rotation = piece.body.rotation();
+      piece.mesh.position.lerpVectors(
+        piece.previousPosition,
+        new THREE.Vector3(position.x, position.y, position.z),
+        alpha
+      );
+      piece.mesh.quaternion.slerpQuaternions(
+        piece.previousRotation,
+        new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w),
+        alpha
+      );
+    }
+  }
+
+  private disposeDebris(piece: Debris): void {
+    this.debrisWorld.removeRigidBody(piece.body);
+    piece.mesh.removeFromParent();
+  }
+
+  dispose(): void {
+    this.debris.forEach((piece) => this.disposeDebris(piece));
+    this.debris = [];
+    this.debrisGeometry.dispose();
+    this.debrisMaterials.forEach((material) => material.dispose());
+    this.debrisMaterials.clear();
+    this.ballBodies.clear();
+    this.paddleBodies.clear();
+    this.alienBodies.clear();
+    this.mothershipBody = null;
+    this.bossBody = null;
+    this.bunkerBodies.clear();
+    this.colliderOwners.clear();
+    this.activeContacts.clear();
+    this.eventQueue.free();
+    this.world.free();
+    this.debrisWorld.free();
+  }
+}
+
+// Rapier colliders matching a collision shape, positioned relative to the body
+function shapeColliders(shape: CollisionShape): RAPIER.ColliderDesc[] {
+  if (shape.kind === 'compound') {
+    return shape.parts.flatMap(shapeColliders);
+  }
+
+  let desc: RAPIER.ColliderDesc;
+  switch (shape.kind) {
+    case 'circle':
+      desc = RAPIER.ColliderDesc.ball(shape.radius);
+      break;
+    case 'box':
+      desc = RAPIER.ColliderDesc.cuboid(shape.halfWidth, shape.halfHeight, BODY_DEPTH / 2);
+      break;
+    case 'capsule':
+      // Rapier capsules run along Y; turn horizontal ones onto X
+      desc = RAPIER.ColliderDesc.capsule(shape.halfLength, shape.radius);
+      if (shape.axis === 'x') {
+        const rotation = new THREE.Quaternion().setFromAxisAngle(
+          new THREE.Vector3(0, 0, 1),
+          Math.PI / 2
+        );
+        desc.setRotation({ x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w });
+      }
+      break;
+  }
+
+  return [desc.setTranslation(shape.offset?.x ?? 0, shape.offset?.y ?? 0, 0)];
+}
@@ -0,0 +1,174 @@
+import { GameSimulation } from './gameSimulation';
+import { LevelDefinition, parseLevel } from './levels';
+
+// Every player input that can change the outcome of a match
+export type InputCommand =
+  | 'leftDown'
+  | 'leftUp'
+  | 'rightDown'
+  | 'rightUp'
+  | 'action' // Space: start, restart or release the ball
+  | 'release' // Click: release the ball
+  | 'pause'
+  | 'invasionRule'; // M: next invasion rule, on the start screen
+
+// An input and the simulation tick it was applied after
+export interface ReplayEvent {
+  tick: number;
+  command: InputCommand;
+}
+
+export interface Replay {
+  seed: number;
+  ticks: number; // Length of the recording in ticks
+  events: ReplayEvent[];
+  // Custom levels the match was played on, e.g. an editor playtest; the
+  // built-in levels when omitted
+  levels?: LevelDefinition[];
+}
+
+// Single-character codes used in the saved JSON
+const COMMAND_CODES: Record<InputCommand, string> = {
+  leftDown: 'L',
+  leftUp: 'l',
+  rightDown: 'R',
+  rightUp: 'r',
+  action: 'A',
+  release: 'C',
+  pause: 'P',
+  invasionRule: 'I',
+};
+
+const CODE_COMMANDS: Record<string, InputCommand> = Object.fromEntries(
+  Object.entries(COMMAND_CODES).map(([command, code]) => [code, command as InputCommand])
+);
+
+const REPLAY_FORMAT_VERSION = 1;
+
+// Apply an input to the simulation
+export function applyInput(simulation: GameSimulation, command: InputCommand): void {
+  switch (command) {
+    case 'leftDown':
+      simulation.setMovingLeft(true);
+      break;
+    case 'leftUp':
+      simulation.setMovingLeft(false);
+      break;
+    case 'rightDown':
+      simulation.setMovingRight(true);
+      break;
+    case 'rightUp':
+      simulation.setMovingRight(false);
+      break;
+    case 'action':
+      simulation.primaryAction();
+      break;
+    case 'release':
+      simulation.releaseBall();
+      break;
+    case 'pause':
+      simulation.togglePause();
+      break;
+    case 'invasionRule':
+      simulation.cycleInvasionRule();
+      break;
+  }
+}
+
+// Collects the inputs of a session together with the seed and levels it was
+// played with
+export class ReplayRecorder {
+  private seed: number;
+  private levels: LevelDefinition[] | undefined;
+  private events: ReplayEvent[] = [];
+
+  constructor(seed: number, levels?: readonly LevelDefinition[]) {
+    this.seed = seed;
+    this.levels = levels && [...levels];
+  }
+
+  record(tick: number, command: InputCommand): void {
+    this.events.push({ tick, command });
+  }
+
+  // Snapshot of everything recorded so far, ending at the given tick
+  toReplay(ticks: number): Replay {
+    const replay: Replay = { seed: this.seed, ticks, events: [...this.events] };
+    if (this.levels) replay.levels = this.levels;
+    return replay;
+  }
+}
+
+// Walks a replay's events in order, handing out the ones due at each tick
+export class ReplayCursor {
+  private replay: Replay;
+  private nextEvent: number = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  // Apply every input recorded at or before the simulation's current tick
+  applyDueInputs(simulation: GameSimulation): void {
+    const events = this.replay.events;
+    while (this.nextEvent < events.length && events[this.nextEvent].tick <= simulation.tick) {
+      applyInput(simulation, events[this.nextEvent].command);
+      this.nextEvent++;
+    }
+  }
+
+  isFinished(simulation: GameSimulation): boolean {
+    return simulation.tick >= this.replay.ticks;
+  }
+}
+
+// Compact JSON form: ticks are stored as deltas next to single-character codes,
+// e.g. {"v":1,"seed":42,"ticks":900,"input":[[12,"A"],[30,"L"],[18,"l"]]}, plus
+// the level definitions under "levels" for matches on custom levels
+export function serializeReplay(replay: Replay): string {
+  let lastTick = 0;
+  const input = replay.events.map((event) => {
+    const delta = event.tick - lastTick;
+    lastTick = event.tick;
+    return [delta, COMMAND_CODES[event.command]];
+  });
+
+  return JSON.stringify({
+    v: REPLAY_FORMAT_VERSION,
+    seed: replay.seed,
+    ticks: replay.ticks,
+    input,
+    levels: replay.levels,
+  });
+}
+
+export function parseReplay(json: string): Replay {
+  const data = JSON.parse(json);
+
+  if (data?.v !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version: ${data?.v}`);
+  }
+  if (!Number.isInteger(data.seed) || !Number.isInteger(data.ticks) || !Array.isArray(data.input)) {
+    throw new Error('Replay is missing its seed, length or input list');
+  }
+
+  let tick = 0;
+  const events = data.input.map((entry: unknown, index: number) => {
+    if (!Array.isArray(entry) || !Number.isInteger(entry[0]) || !(entry[1] in CODE_COMMANDS)) {
+      throw new Error(`Invalid replay input at index ${index}`);
+    }
+    tick += entry[0];
+    return { tick, command: CODE_COMMANDS[entry[1]] };
+  });
+
+  const replay: Replay = { seed: data.seed, ticks: data.ticks, events };
+  if (data.levels !== undefined) {
+    if (!Array.isArray(data.levels) || data.levels.length === 0) {
+      throw new Error('Replay levels must be a non-empty list');
+    }
+    replay.levels = data.levels.map((level: unknown, index: number) =>
+      parseLevel(level, `Replay level ${index + 1}`)
+    );
+  }
+  return replay;
+}
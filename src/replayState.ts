@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { IGameState } from './gameStates';
+import { GameStateManager } from './gameStateManager';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { GameSimulation, GameState } from './gameSimulation';
+import { DomHud } from './hud';
+import { createPlayCamera, createPlayScenery } from './playScenery';
+import { Replay, ReplayCursor, parseReplay, serializeReplay } from './replay';
+import { LevelDefinition } from './levels';
+import { FloatingTextLayer } from './floatingText';
+import { Scheduler } from './scheduler';
+
+// Plays a recorded match back by feeding its inputs into a fresh simulation
+// built from the same seed. Supports pause, 2x speed and single-tick stepping.
+export class ReplayState implements IGameState {
+  private gameStateManager: GameStateManager;
+  private replay: Replay;
+  private levels: readonly LevelDefinition[] | undefined;
+  private simulation: GameSimulation;
+  private cursor: ReplayCursor;
+
+  private camera: THREE.PerspectiveCamera;
+  private cameraControls: OrbitControls | null = null;
+  private hud: DomHud;
+  private floatingText: FloatingTextLayer;
+  // HUD and scenery animations, advanced with every replayed tick
+  private scheduler: Scheduler = new Scheduler();
+
+  // Playback controls
+  private isPlaying: boolean = true;
+  private speed: number = 1; // Simulation ticks per real tick
+  private pendingSteps: number = 0; // Single ticks requested while paused
+  private statusText: string = '';
+
+  private keydownListener: (event: KeyboardEvent) => void = () => {};
+
+  constructor(
+    gameStateManager: GameStateManager,
+    replay: Replay,
+    levels?: readonly LevelDefinition[]
+  ) {
+    this.gameStateManager = gameStateManager;
+    this.replay = replay;
+    this.levels = levels;
+
+    this.hud = new DomHud(this.scheduler);
+    this.simulation = new GameSimulation({ seed: replay.seed, hud: this.hud, levels });
+    this.cursor = new ReplayCursor(replay);
+
+    const { camera, controls } = createPlayCamera(this.gameStateManager.renderer);
+    this.camera = camera;
+    this.cameraControls = controls;
+    createPlayScenery(this.simulation.scene, this.simulation.config.worldSize, this.scheduler);
+
+    this.floatingText = new FloatingTextLayer(this.simulation.scene, this.scheduler);
+    this.simulation.events.on('mothershipDestroyed', ({ points, position }) => {
+      this.floatingText.show(`+${points}`, position, '#ffdd33');
+    });
+
+    this.setupKeyboardControls();
+    this.updateStatus();
+  }
+
+  private setupKeyboardControls(): void {
+    this.keydownListener = (event: KeyboardEvent) => {
+      if (event.key === ' ') {
+        // Play / pause
+        this.isPlaying = !this.isPlaying;
+      } else if (event.key === 's' || event.key === 'S') {
+        // Toggle between normal and double speed
+        this.speed = this.speed === 1 ? 2 : 1;
+      } else if (event.key === '.' || event.key === 'n' || event.key === 'N') {
+        // Step a single tick
+        this.isPlaying = false;
+        this.pendingSteps++;
+      } else if (event.key === 'x' || event.key === 'X') {
+        downloadReplay(this.replay);
+      } else if (event.key === 'Escape') {
+        this.gameStateManager.switchToPlay(this.levels);
+        return;
+      }
+      this.updateStatus();
+    };
+  }
+
+  // Advance the replayed simulation by one tick
+  private step(deltaTime: number): boolean {
+    if (this.cursor.isFinished(this.simulation)) {
+      this.isPlaying = false;
+      return false;
+    }
+
+    this.cursor.applyDueInputs(this.simulation);
+    this.simulation.update(deltaTime);
+    this.scheduler.paused = this.simulation.getState() === GameState.PAUSED;
+    this.scheduler.update(deltaTime);
+    return true;
+  }
+
+  private updateStatus(): void {
+    const seconds = (ticks: number) =>
+      (ticks * this.simulation.config.fixedTimeStep).toFixed(1).padStart(5, ' ');
+    const progress = `${seconds(this.simulation.tick)}s / ${seconds(this.replay.ticks)}s`;
+    const mode = this.cursor.isFinished(this.simulation)
+      ? 'FINISHED'
+      : this.isPlaying
+        ? `PLAYING ${this.speed}x`
+        : 'PAUSED';
+
+    const text = `REPLAY ${progress} ${mode} | SPACE: play/pause | S: 2x speed | N: step | X: save | ESC: exit`;
+    if (text !== this.statusText) {
+      this.statusText = text;
+      this.hud.setInstructions(text);
+    }
+  }
+
+  update(deltaTime: number): void {
+    const steps = this.isPlaying ? this.speed : this.pendingSteps;
+    this.pendingSteps = 0;
+
+    for (let i = 0; i < steps; i++) {
+      if (!this.step(deltaTime)) break;
+    }
+
+    this.updateStatus();
+  }
+
+  render(renderer: THREE.WebGLRenderer, alpha: number): void {
+    // While paused no new ticks arrive, so show the latest one as is
+    this.simulation.updateMeshes(this.isPlaying ? alpha : 1);
+
+    if (this.cameraControls) {
+      this.cameraControls.update();
+    }
+
+    renderer.render(this.simulation.scene, this.camera);
+  }
+
+  onEnter(): void {
+    document.addEventListener('keydown', this.keydownListener);
+  }
+
+  onExit(): void {
+    document.removeEventListener('keydown', this.keydownListener);
+
+    this.scheduler.cancelAll();
+    this.floatingText.dispose();
+    this.simulation.dispose();
+    if (this.cameraControls) {
+      this.cameraControls.dispose();
+    }
+    this.hud.dispose();
+  }
+}
+
+// Save a replay as a JSON file through the browser's download mechanism
+export function downloadReplay(replay: Replay): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `pongvaders-replay-${replay.seed}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+// Ask the player for a replay file and parse it
+export function promptForReplayFile(): Promise<Replay> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        reject(new Error('No file selected'));
+        return;
+      }
+      try {
+        resolve(parseReplay(await file.text()));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    input.addEventListener('cancel', () => reject(new Error('No file selected')));
+
+    input.click();
+  });
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { Scheduler } from './scheduler';
+
+describe('Scheduler', () => {
+  it('runs a timer once its delay has passed', () => {
+    const scheduler = new Scheduler();
+    let runs = 0;
+    const task = scheduler.after(1, () => runs++);
+
+    scheduler.update(0.6);
+    expect(runs).toBe(0);
+    scheduler.update(0.6);
+    expect(runs).toBe(1);
+    expect(task.isDone).toBe(true);
+
+    scheduler.update(5);
+    expect(runs).toBe(1);
+  });
+
+  it('repeats a timer the given number of times and catches up on long updates', () => {
+    const scheduler = new Scheduler();
+    const runs: number[] = [];
+    scheduler.every(0.5, (run) => runs.push(run), 3);
+
+    scheduler.update(1.1);
+    expect(runs).toEqual([1, 2]);
+    scheduler.update(10);
+    expect(runs).toEqual([1, 2, 3]);
+  });
+
+  it('stops every timer and tween while paused', () => {
+    const scheduler = new Scheduler();
+    let runs = 0;
+    const values: number[] = [];
+    scheduler.after(1, () => runs++);
+    scheduler.tween({ from: 0, to: 1, duration: 1, onUpdate: (value) => values.push(value) });
+
+    scheduler.update(0.5);
+    scheduler.paused = true;
+    scheduler.update(5);
+    expect(runs).toBe(0);
+    expect(values).toEqual([0, 0.5]);
+
+    // Resuming picks up where the pause left off
+    scheduler.paused = false;
+    scheduler.update(0.4);
+    expect(runs).toBe(0);
+    scheduler.update(0.1);
+    expect(runs).toBe(1);
+    expect(values.at(-1)).toBe(1);
+  });
+
+  it('follows the time scale', () => {
+    const scheduler = new Scheduler();
+    let runs = 0;
+    scheduler.after(1, () => runs++);
+
+    scheduler.timeScale = 0.5;
+    scheduler.update(1.5);
+    expect(runs).toBe(0);
+
+    scheduler.timeScale = 2;
+    scheduler.update(0.25);
+    expect(runs).toBe(1);
+  });
+
+  it('tweens with easing and yoyo repeats, then completes', () => {
+    const scheduler = new Scheduler();
+    const values: number[] = [];
+    let completed = false;
+    scheduler.tween({
+      from: 0,
+      to: 10,
+      duration: 1,
+      ease: (t) => t * t,
+      repeat: 1,
+      yoyo: true,
+      onUpdate: (value) => values.push(value),
+      onComplete: () => (completed = true),
+    });
+
+    scheduler.update(0.5);
+    scheduler.update(1);
+    expect(values).toEqual([0, 2.5, 2.5]);
+    expect(completed).toBe(false);
+
+    scheduler.update(0.5);
+    expect(values.at(-1)).toBe(0);
+    expect(completed).toBe(true);
+  });
+
+  it('never runs a cancelled task', () => {
+    const scheduler = new Scheduler();
+    let runs = 0;
+    let updates = 0;
+    const timer = scheduler.after(1, () => runs++);
+    const tween = scheduler.tween({ from: 0, to: 1, duration: 1, onUpdate: () => updates++ });
+
+    timer.cancel();
+    tween.cancel();
+    scheduler.update(2);
+
+    expect(runs).toBe(0);
+    expect(updates).toBe(1); // Only the starting value
+    expect(timer.isDone).toBe(true);
+    expect(tween.isDone).toBe(true);
+  });
+
+  it('drops every pending task on cancelAll', () => {
+    const scheduler = new Scheduler();
+    let runs = 0;
+    const tasks = [scheduler.after(1, () => runs++), scheduler.every(0.1, () => runs++)];
+
+    scheduler.cancelAll();
+    scheduler.update(5);
+
+    expect(runs).toBe(0);
+    expect(tasks.every((task) => task.isDone)).toBe(true);
+
+    // The scheduler still takes new tasks afterwards
+    scheduler.after(1, () => runs++);
+    scheduler.update(1);
+    expect(runs).toBe(1);
+  });
+
+  it('starts tasks added during an update on the next update', () => {
+    const scheduler = new Scheduler();
+    let inner = 0;
+    scheduler.after(1, () => scheduler.after(0.5, () => inner++));
+
+    scheduler.update(3);
+    expect(inner).toBe(0);
+    scheduler.update(0.5);
+    expect(inner).toBe(1);
+  });
+});
@@ -0,0 +1,153 @@
+// Shapes of a tween's progress over time, from 0 to 1
+export type Easing = (t: number) => number;
+
+export const easings: Record<'linear' | 'easeInQuad' | 'easeOutQuad' | 'easeInOutSine', Easing> = {
+  linear: (t) => t,
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => t * (2 - t),
+  easeInOutSine: (t) => (1 - Math.cos(Math.PI * t)) / 2,
+};
+
+// Handle to a timer or tween, for cancelling it early
+export interface ScheduledTask {
+  cancel(): void;
+  readonly isDone: boolean;
+}
+
+export interface TweenOptions {
+  from: number;
+  to: number;
+  duration: number; // Seconds for one run from `from` to `to`
+  ease?: Easing; // Linear when omitted
+  repeat?: number; // Extra runs after the first; Infinity loops until cancelled
+  yoyo?: boolean; // Every other run goes back from `to` to `from`
+  onUpdate(value: number): void;
+  onComplete?(): void;
+}
+
+interface Task extends ScheduledTask {
+  advance(deltaTime: number): void;
+}
+
+// Runs `callback` every `interval` seconds, `times` times in all. Long updates
+// catch up on every run they covered.
+class Timer implements Task {
+  public isDone: boolean = false;
+  private interval: number;
+  private times: number;
+  private callback: (run: number) => void;
+  private elapsed: number = 0;
+  private runs: number = 0;
+
+  constructor(interval: number, times: number, callback: (run: number) => void) {
+    this.interval = interval;
+    this.times = times;
+    this.callback = callback;
+  }
+
+  advance(deltaTime: number): void {
+    this.elapsed += deltaTime;
+    while (!this.isDone && this.elapsed >= this.interval) {
+      this.elapsed -= this.interval;
+      this.runs++;
+      if (this.runs >= this.times) this.isDone = true;
+      this.callback(this.runs);
+      // A zero interval runs once per update
+      if (this.interval <= 0) break;
+    }
+  }
+
+  cancel(): void {
+    this.isDone = true;
+  }
+}
+
+class Tween implements Task {
+  public isDone: boolean = false;
+  private options: TweenOptions;
+  private elapsed: number = 0;
+  private run: number = 0;
+
+  constructor(options: TweenOptions) {
+    this.options = options;
+    options.onUpdate(options.from);
+  }
+
+  advance(deltaTime: number): void {
+    const { duration, repeat = 0 } = this.options;
+    this.elapsed += deltaTime;
+    while (this.elapsed >= duration && this.run < repeat) {
+      this.elapsed -= duration;
+      this.run++;
+    }
+
+    const finished = this.elapsed >= duration;
+    this.options.onUpdate(this.valueAt(finished ? 1 : this.elapsed / duration));
+    if (finished) {
+      this.isDone = true;
+      this.options.onComplete?.();
+    }
+  }
+
+  private valueAt(progress: number): number {
+    const { from, to, ease = easings.linear, yoyo } = this.options;
+    const forward = !yoyo || this.run % 2 === 0;
+    const eased = ease(forward ? progress : 1 - progress);
+    return from + (to - from) * eased;
+  }
+
+  cancel(): void {
+    this.isDone = true;
+  }
+}
+
+// Timers and tweens driven by the game loop instead of setTimeout, setInterval
+// or requestAnimationFrame, so they stop while paused, follow the time scale
+// and go away with whatever owns the scheduler. Tasks added while the
+// scheduler is updating start counting on the next update.
+export class Scheduler {
+  public paused: boolean = false;
+  public timeScale: number = 1;
+  private tasks: Task[] = [];
+
+  // Call `callback` once, `delay` seconds from now
+  after(delay: number, callback: () => void): ScheduledTask {
+    return this.add(new Timer(delay, 1, callback));
+  }
+
+  // Call `callback` every `interval` seconds, with the number of the run
+  // starting at 1, until it has run `times` times or is cancelled
+  every(
+    interval: number,
+    callback: (run: number) => void,
+    times: number = Infinity
+  ): ScheduledTask {
+    return this.add(new Timer(interval, times, callback));
+  }
+
+  // Animate a number; onUpdate gets the starting value straight away
+  tween(options: TweenOptions): ScheduledTask {
+    return this.add(new Tween(options));
+  }
+
+  private add(task: Task): ScheduledTask {
+    this.tasks.push(task);
+    return task;
+  }
+
+  update(deltaTime: number): void {
+    if (this.paused) return;
+
+    const scaled = deltaTime * this.timeScale;
+    for (const task of [...this.tasks]) {
+      if (!task.isDone) task.advance(scaled);
+    }
+    this.tasks = this.tasks.filter((task) => !task.isDone);
+  }
+
+  // Drop every pending timer and tween without running them
+  cancelAll(): void {
+    this.tasks.forEach((task) => task.cancel());
+    this.tasks = [];
+  }
+}
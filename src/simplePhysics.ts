@@ -0,0 +1,162 @@
+import { Alien } from './Alien';
+import { Ball } from './Ball';
+import { Mothership } from './Mothership';
+import { BossPart } from './Boss';
+import { Bunker } from './Bunker';
+import { Paddle } from './Paddle';
+import { Sweep, sweepVsBox, sweepVsWalls } from './collision';
+import { GameSimulation } from './gameSimulation';
+import { PhysicsBackend } from './physics';
+
+// Most contacts a ball resolves in one tick before giving up on the rest of its move
+const MAX_BOUNCES_PER_TICK = 4;
+
+// Hand-written swept collision against walls, paddles, bunkers and alien shapes. Fully
+// deterministic and dependency free, so it is the default and the backend
+// headless runs and replays rely on.
+export class SimplePhysics implements PhysicsBackend {
+  readonly kind = 'simple';
+  private game: GameSimulation;
+
+  constructor(game: GameSimulation) {
+    this.game = game;
+  }
+
+  step(deltaTime: number): void {
+    for (const ball of this.game.balls) {
+      if (!ball.isAttachedToPaddle) {
+        this.moveBall(ball, deltaTime);
+      }
+    }
+  }
+
+  // Alien explosions already cover destroyed aliens; there is no debris to simulate
+  spawnDebris(_alien: Alien): void {}
+
+  updateMeshes(_alpha: number): void {}
+
+  dispose(): void {}
+
+  // Move a ball through one tick with swept collision detection. The ball
+  // travels to the earliest contact, bounces and carries on with the time that
+  // is left, so fast balls can't tunnel through the paddle or an alien and can
+  // bounce several times in one tick.
+  private moveBall(ball: Ball, deltaTime: number): void {
+    const radius = ball.size.radius;
+    let remaining = 1; // Fraction of the tick still to travel
+
+    for (let bounce = 0; bounce < MAX_BOUNCES_PER_TICK && remaining > 0; bounce++) {
+      const sweep: Sweep = {
+        start: ball.position,
+        delta: {
+          x: ball.velocity.x * deltaTime * remaining,
+          y: ball.velocity.y * deltaTime * remaining,
+        },
+        radius,
+      };
+
+      // Find the earliest contact among walls, paddles, bunkers, aliens, the
+      // mothership and the boss
+      let hit = sweepVsWalls(sweep, this.game.worldBounds);
+      let hitAlien: Alien | null = null;
+      let hitPaddle: Paddle | null = null;
+      let hitMothership: Mothership | null = null;
+      let hitBossPart: BossPart | null = null;
+      let hitBunker: { bunker: Bunker; cell: number } | null = null;
+
+      for (const paddle of this.game.paddles) {
+        const paddleHit = sweepVsBox(
+          sweep,
+          paddle.position,
+          paddle.size.width / 2,
+          paddle.size.height / 2
+        );
+        if (paddleHit && (!hit || paddleHit.time < hit.time)) {
+          hit = paddleHit;
+          hitPaddle = paddle;
+        }
+      }
+
+      const bunkerHit = this.game.bunkers.sweepBall(sweep);
+      if (bunkerHit && (!hit || bunkerHit.hit.time < hit.time)) {
+        hit = bunkerHit.hit;
+        hitBunker = { bunker: bunkerHit.bunker, cell: bunkerHit.cell };
+        hitPaddle = null;
+      }
+
+      const alienHit = this.game.alienManager.sweepBall(sweep);
+      if (alienHit && (!hit || alienHit.hit.time < hit.time)) {
+        hit = alienHit.hit;
+        hitAlien = alienHit.alien;
+        hitBunker = null;
+        hitPaddle = null;
+      }
+
+      const mothershipHit = this.game.motherships.sweepBall(sweep);
+      if (mothershipHit && (!hit || mothershipHit.hit.time < hit.time)) {
+        hit = mothershipHit.hit;
+        hitMothership = mothershipHit.mothership;
+        hitAlien = null;
+        hitBunker = null;
+        hitPaddle = null;
+      }
+
+      const bossHit = this.game.bosses.sweepBall(sweep);
+      if (bossHit && (!hit || bossHit.hit.time < hit.time)) {
+        hit = bossHit.hit;
+        hitBossPart = bossHit.part;
+        hitMothership = null;
+        hitAlien = null;
+        hitBunker = null;
+        hitPaddle = null;
+      }
+
+      if (!hit) {
+        // Nothing in the way: travel the rest of the tick
+        ball.position.x += sweep.delta.x;
+        ball.position.y += sweep.delta.y;
+        break;
+      }
+
+      // Travel to the point of contact and push out of any existing overlap
+      ball.position.x += sweep.delta.x * hit.time + hit.normal.x * hit.penetration;
+      ball.position.y += sweep.delta.y * hit.time + hit.normal.y * hit.penetration;
+      remaining *= 1 - hit.time;
+
+      // Reflect the velocity if the ball is moving into the surface
+      const dot = ball.velocity.x * hit.normal.x + ball.velocity.y * hit.normal.y;
+      if (dot < 0) {
+        ball.velocity.x -= 2 * dot * hit.normal.x;
+        ball.velocity.y -= 2 * dot * hit.normal.y;
+      }
+
+      // Aliens, bunkers and the mothership are hit even by a grazing touch;
+      // walls, paddles and the boss only count when the ball actually bounced
+      if (hitAlien) {
+        this.game.handleBallContact(ball, { kind: 'alien', alien: hitAlien, normal: hit.normal });
+      } else if (hitMothership) {
+        this.game.handleBallContact(ball, {
+          kind: 'mothership',
+          mothership: hitMothership,
+          normal: hit.normal,
+        });
+      } else if (hitBunker) {
+        this.game.handleBallContact(ball, { kind: 'bunker', ...hitBunker, normal: hit.normal });
+      } else if (dot < 0 && hitBossPart) {
+        this.game.handleBallContact(ball, { kind: 'boss', part: hitBossPart, normal: hit.normal });
+      } else if (dot < 0 && hitPaddle) {
+        this.game.handleBallContact(ball, {
+          kind: 'paddle',
+          paddle: hitPaddle,
+          normal: hit.normal,
+        });
+      } else if (dot < 0) {
+        this.game.handleBallContact(ball, { kind: 'wall', normal: hit.normal });
+      }
+    }
+
+    // Keep the ball in the play plane
+    ball.position.z = 0;
+    ball.velocity.z = 0;
+  }
+}
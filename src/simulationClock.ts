@@ -0,0 +1,39 @@
+// Fixed-step simulation clock. Real frame time is accumulated and consumed in
+// constant-size ticks so the game plays the same at 30 FPS as it does at 144 FPS.
+export class SimulationClock {
+  public readonly stepSize: number;
+  private maxFrameTime: number;
+  private accumulator: number = 0;
+  private tickCount: number = 0;
+
+  constructor(stepSize: number, maxFrameTime: number) {
+    this.stepSize = stepSize;
+    this.maxFrameTime = maxFrameTime;
+  }
+
+  // Run as many fixed steps as the accumulated frame time allows. Returns the
+  // interpolation factor (0..1) between the previous and the current tick.
+  advance(frameTime: number, step: (stepSize: number) => void): number {
+    // Clamp long frames (tab switches, debugger pauses) so we don't try to
+    // catch up with hundreds of ticks in a single frame
+    this.accumulator += Math.min(frameTime, this.maxFrameTime);
+
+    while (this.accumulator >= this.stepSize) {
+      step(this.stepSize);
+      this.accumulator -= this.stepSize;
+      this.tickCount++;
+    }
+
+    return this.accumulator / this.stepSize;
+  }
+
+  // Number of ticks simulated since the clock was created or reset
+  get ticks(): number {
+    return this.tickCount;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+    this.tickCount = 0;
+  }
+}
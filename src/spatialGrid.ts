@@ -0,0 +1,103 @@
+import { Bounds } from './collision';
+
+// Uniform grid broadphase. Items are registered under every cell their bounds
+// overlap, and a query only visits the cells its own bounds overlap, so the
+// cost depends on how crowded an area is rather than on the total item count.
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cells: Map<number, T[]> = new Map();
+  private itemCells: Map<T, number[]> = new Map();
+
+  // Incremented per query so an item spanning several cells is returned once
+  private queryStamp: number = 0;
+  private itemStamps: Map<T, number> = new Map();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.itemCells.size;
+  }
+
+  // Add an item, or move it if it is already in the grid
+  insert(item: T, bounds: Bounds): void {
+    this.remove(item);
+
+    const keys: number[] = [];
+    this.forEachCell(bounds, (key) => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push(item);
+      keys.push(key);
+    });
+
+    this.itemCells.set(item, keys);
+    this.itemStamps.set(item, this.queryStamp);
+  }
+
+  remove(item: T): void {
+    const keys = this.itemCells.get(item);
+    if (!keys) return;
+
+    for (const key of keys) {
+      const cell = this.cells.get(key)!;
+      cell.splice(cell.indexOf(item), 1);
+      if (cell.length === 0) {
+        this.cells.delete(key);
+      }
+    }
+
+    this.itemCells.delete(item);
+    this.itemStamps.delete(item);
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.itemCells.clear();
+    this.itemStamps.clear();
+  }
+
+  // Every item whose registered bounds may overlap the given bounds. Results
+  // are candidates only; the caller runs the exact test.
+  query(bounds: Bounds): T[] {
+    const stamp = ++this.queryStamp;
+    const results: T[] = [];
+
+    this.forEachCell(bounds, (key) => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+
+      for (const item of cell) {
+        if (this.itemStamps.get(item) !== stamp) {
+          this.itemStamps.set(item, stamp);
+          results.push(item);
+        }
+      }
+    });
+
+    return results;
+  }
+
+  private forEachCell(bounds: Bounds, callback: (key: number) => void): void {
+    const minCellX = Math.floor(bounds.minX / this.cellSize);
+    const maxCellX = Math.floor(bounds.maxX / this.cellSize);
+    const minCellY = Math.floor(bounds.minY / this.cellSize);
+    const maxCellY = Math.floor(bounds.maxY / this.cellSize);
+
+    for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+      for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+        callback(cellKey(cellX, cellY));
+      }
+    }
+  }
+}
+
+// Pack two cell coordinates into one map key. Coordinates are offset so that
+// negative cells stay distinct; the play field spans far fewer than 2^15 cells.
+function cellKey(cellX: number, cellY: number): number {
+  return (cellX + 32768) * 65536 + (cellY + 32768);
+}
@@ -0,0 +1,468 @@
+import * as THREE from 'three';
+import { Alien } from './Alien';
+import { SwarmPatternDefinition, SwarmPatternKind } from './levels';
+
+// One swarm step as a pattern sees it
+export interface SwarmStep {
+  aliens: readonly Alien[]; // Living aliens, divers included; their slots are moved
+  elapsed: number; // Seconds since the last step, i.e. the current step interval
+  horizontalSpeed: number;
+  moveDownAmount: number;
+  bounds: { min: number; max: number }; // Limits for the aliens' outer edges
+}
+
+// A way of moving the swarm. AlienManager calls step every step interval; the
+// pattern moves the aliens' formation slots and the aliens follow them. Slots
+// only move on steps, so the broadphase stays valid in between, and
+// AlienManager's bottom check and acceleration work the same for every pattern.
+export interface SwarmPattern {
+  readonly kind: SwarmPatternKind;
+  // A new formation, with every slot where the level placed it
+  start(aliens: readonly Alien[]): void;
+  step(swarm: SwarmStep): void;
+  // Push the swarm back up by up to `amount`, but never above where the level
+  // placed it, e.g. after an alien lands
+  raise(aliens: readonly Alien[], amount: number): void;
+}
+
+export function createSwarmPattern(
+  definition: SwarmPatternDefinition = { kind: 'classic' }
+): SwarmPattern {
+  switch (definition.kind) {
+    case 'classic':
+      return new ClassicPattern();
+    case 'sineWave':
+      return new SineWavePattern(
+        definition.amplitude ?? 1,
+        definition.wavelength ?? 8,
+        definition.frequency ?? 0.25
+      );
+    case 'zigZag':
+      return new ZigZagPattern(definition.legLength ?? 4);
+    case 'rotatingRing':
+      return new RotatingRingPattern(definition.spacing ?? 1.8, definition.rotationSpeed ?? 0.6);
+    case 'split':
+      return new SplitPattern();
+    case 'orbit':
+      return new OrbitPattern(definition.radius ?? 3);
+  }
+}
+
+// Direction of alien swarm movement
+type SwarmDirection = 'left' | 'right';
+
+// The arcade original: the whole swarm steps sideways and drops down a row
+// each time it reaches a wall
+class ClassicPattern implements SwarmPattern {
+  readonly kind = 'classic';
+  private currentDirection: SwarmDirection = 'right';
+  private drop: number = 0;
+
+  start(_aliens: readonly Alien[]): void {
+    this.currentDirection = 'right';
+    this.drop = 0;
+  }
+
+  step(swarm: SwarmStep): void {
+    // Calculate movement distance
+    const movementDistance = swarm.horizontalSpeed * swarm.elapsed;
+
+    // Find the alien at the edge in the current direction. Aliens away from
+    // their slot don't count; if every alien is away, their slots steer instead
+    // so the formation doesn't drift off while they are gone.
+    const inFormation = swarm.aliens.filter((alien) => alien.behavior === 'formation');
+    let edgeAlien: Alien | null = null;
+    for (const alien of inFormation.length > 0 ? inFormation : swarm.aliens) {
+      if (
+        !edgeAlien ||
+        (this.currentDirection === 'right'
+          ? alien.slot.x > edgeAlien.slot.x
+          : alien.slot.x < edgeAlien.slot.x)
+      ) {
+        edgeAlien = alien;
+      }
+    }
+
+    // Check if swarm needs to change direction
+    let shouldMoveDown = false;
+    if (edgeAlien) {
+      const position = edgeAlien.slot;
+      const alienHalfWidth = edgeAlien.size.width / 2;
+
+      if (
+        this.currentDirection === 'right' &&
+        position.x + alienHalfWidth + movementDistance > swarm.bounds.max
+      ) {
+        this.currentDirection = 'left';
+        shouldMoveDown = true;
+      } else if (
+        this.currentDirection === 'left' &&
+        position.x - alienHalfWidth - movementDistance < swarm.bounds.min
+      ) {
+        this.currentDirection = 'right';
+        shouldMoveDown = true;
+      }
+    }
+
+    // Move all aliens, or the slots of those away from the formation
+    swarm.aliens.forEach((alien) => {
+      // Move horizontally
+      const movement = this.currentDirection === 'right' ? movementDistance : -movementDistance;
+      alien.moveSideways(movement);
+
+      // Move down if needed
+      if (shouldMoveDown) {
+        alien.moveDown(swarm.moveDownAmount);
+      }
+    });
+    if (shouldMoveDown) {
+      this.drop += swarm.moveDownAmount;
+    }
+  }
+
+  raise(aliens: readonly Alien[], amount: number): void {
+    this.drop -= liftSlots(aliens, amount, this.drop);
+  }
+}
+
+// The classic sweep with a wave travelling along the rows, so each column
+// bobs up and down a little behind its neighbour
+class SineWavePattern implements SwarmPattern {
+  readonly kind = 'sineWave';
+  private amplitude: number;
+  private wavelength: number;
+  private frequency: number;
+  private homes: Map<Alien, THREE.Vector2> = new Map();
+  private sweep: SideSweep = new SideSweep();
+  private phase: number = 0;
+
+  constructor(amplitude: number, wavelength: number, frequency: number) {
+    this.amplitude = amplitude;
+    this.wavelength = wavelength;
+    this.frequency = frequency;
+  }
+
+  start(aliens: readonly Alien[]): void {
+    this.homes = captureHomes(aliens);
+    this.sweep = new SideSweep();
+    this.phase = 0;
+  }
+
+  step(swarm: SwarmStep): void {
+    const extent = swarmExtent(swarm.aliens, (alien) => this.homes.get(alien)!.x);
+    this.sweep.advance(extent, swarm.horizontalSpeed * swarm.elapsed, swarm);
+    this.phase += swarm.elapsed * this.frequency * Math.PI * 2;
+
+    for (const alien of swarm.aliens) {
+      const home = this.homes.get(alien)!;
+      const wave = Math.sin(this.phase - (home.x / this.wavelength) * Math.PI * 2);
+      alien.moveSlotTo(
+        home.x + this.sweep.offset,
+        home.y - this.sweep.drop + wave * this.amplitude
+      );
+    }
+  }
+
+  raise(aliens: readonly Alien[], amount: number): void {
+    this.sweep.drop -= liftSlots(aliens, amount, this.sweep.drop);
+  }
+}
+
+// Diagonal legs: the swarm descends steadily while it moves and turns back
+// every legLength, or sooner at a wall, dropping moveDownAmount per leg
+class ZigZagPattern implements SwarmPattern {
+  readonly kind = 'zigZag';
+  private legLength: number;
+  private homes: Map<Alien, THREE.Vector2> = new Map();
+  private offset: number = 0;
+  private drop: number = 0;
+  private direction: 1 | -1 = 1;
+  private legTravelled: number = 0;
+
+  constructor(legLength: number) {
+    this.legLength = legLength;
+  }
+
+  start(aliens: readonly Alien[]): void {
+    this.homes = captureHomes(aliens);
+    this.offset = 0;
+    this.drop = 0;
+    this.direction = 1;
+    this.legTravelled = 0;
+  }
+
+  step(swarm: SwarmStep): void {
+    const distance = swarm.horizontalSpeed * swarm.elapsed;
+    const extent = swarmExtent(swarm.aliens, (alien) => this.homes.get(alien)!.x);
+    if (
+      this.legTravelled + distance > this.legLength ||
+      crossesWall(extent, this.offset + this.direction * distance, swarm.bounds)
+    ) {
+      this.direction = this.direction === 1 ? -1 : 1;
+      this.legTravelled = 0;
+    }
+
+    this.offset += this.direction * distance;
+    this.legTravelled += distance;
+    this.drop += (swarm.moveDownAmount * distance) / this.legLength;
+
+    for (const alien of swarm.aliens) {
+      const home = this.homes.get(alien)!;
+      alien.moveSlotTo(home.x + this.offset, home.y - this.drop);
+    }
+  }
+
+  raise(aliens: readonly Alien[], amount: number): void {
+    this.drop -= liftSlots(aliens, amount, this.drop);
+  }
+}
+
+// Seconds the aliens take to move from the level's formation onto the rings
+const RING_FORM_UP_TIME = 3;
+
+// The aliens regroup into concentric rings around the formation's centre,
+// spinning in alternate directions, while the rings sweep side to side like
+// the classic swarm
+class RotatingRingPattern implements SwarmPattern {
+  readonly kind = 'rotatingRing';
+  private spacing: number;
+  private rotationSpeed: number;
+  private homes: Map<Alien, THREE.Vector2> = new Map();
+  private rings: Map<Alien, { radius: number; angle: number; direction: 1 | -1 }> = new Map();
+  private center: THREE.Vector2 = new THREE.Vector2();
+  private sweep: SideSweep = new SideSweep();
+  private rotation: number = 0;
+  private time: number = 0;
+
+  constructor(spacing: number, rotationSpeed: number) {
+    this.spacing = spacing;
+    this.rotationSpeed = rotationSpeed;
+  }
+
+  start(aliens: readonly Alien[]): void {
+    this.homes = captureHomes(aliens);
+    this.center = centroid([...this.homes.values()]);
+    this.sweep = new SideSweep();
+    this.rotation = 0;
+    this.time = 0;
+
+    // Fill rings from the inside out, as many aliens per ring as fit at the
+    // spacing, spreading the last ring's aliens evenly around it
+    this.rings.clear();
+    let placed = 0;
+    for (let ring = 1; placed < aliens.length; ring++) {
+      const radius = ring * this.spacing;
+      const capacity = Math.floor((2 * Math.PI * radius) / this.spacing);
+      const count = Math.min(capacity, aliens.length - placed);
+      for (let i = 0; i < count; i++) {
+        this.rings.set(aliens[placed + i], {
+          radius,
+          angle: (i / count) * Math.PI * 2,
+          direction: ring % 2 === 1 ? 1 : -1,
+        });
+      }
+      placed += count;
+    }
+  }
+
+  step(swarm: SwarmStep): void {
+    this.time += swarm.elapsed;
+    this.rotation += this.rotationSpeed * swarm.elapsed;
+    const formUp = Math.min(this.time / RING_FORM_UP_TIME, 1);
+
+    // While forming up, the swarm spans somewhere between the formation and the rings
+    const homeExtent = swarmExtent(swarm.aliens, (alien) => this.homes.get(alien)!.x);
+    const outerRadius = Math.max(...swarm.aliens.map((alien) => this.rings.get(alien)!.radius));
+    const ringExtent = swarmExtent(swarm.aliens, () => this.center.x);
+    ringExtent.min -= outerRadius;
+    ringExtent.max += outerRadius;
+    const extent = {
+      min: THREE.MathUtils.lerp(homeExtent.min, ringExtent.min, formUp),
+      max: THREE.MathUtils.lerp(homeExtent.max, ringExtent.max, formUp),
+    };
+    this.sweep.advance(extent, swarm.horizontalSpeed * swarm.elapsed, swarm);
+
+    for (const alien of swarm.aliens) {
+      const home = this.homes.get(alien)!;
+      const ring = this.rings.get(alien)!;
+      const angle = ring.angle + ring.direction * this.rotation;
+      const ringX = this.center.x + Math.cos(angle) * ring.radius;
+      const ringY = this.center.y + Math.sin(angle) * ring.radius;
+      alien.moveSlotTo(
+        THREE.MathUtils.lerp(home.x, ringX, formUp) + this.sweep.offset,
+        THREE.MathUtils.lerp(home.y, ringY, formUp) - this.sweep.drop
+      );
+    }
+  }
+
+  raise(aliens: readonly Alien[], amount: number): void {
+    this.sweep.drop -= liftSlots(aliens, amount, this.sweep.drop);
+  }
+}
+
+// The formation splits down the middle; the halves part towards the walls,
+// close up again and drop a row each time they meet
+class SplitPattern implements SwarmPattern {
+  readonly kind = 'split';
+  private homes: Map<Alien, THREE.Vector2> = new Map();
+  private sides: Map<Alien, 1 | -1> = new Map();
+  private separation: number = 0; // How far each half has moved from the middle
+  private direction: 1 | -1 = 1;
+  private drop: number = 0;
+
+  start(aliens: readonly Alien[]): void {
+    this.homes = captureHomes(aliens);
+    const middle = centroid([...this.homes.values()]).x;
+    this.sides.clear();
+    this.homes.forEach((home, alien) => this.sides.set(alien, home.x < middle ? -1 : 1));
+    this.separation = 0;
+    this.direction = 1;
+    this.drop = 0;
+  }
+
+  step(swarm: SwarmStep): void {
+    // Each half can part until its outer alien reaches its wall
+    let maxSeparation = Infinity;
+    for (const alien of swarm.aliens) {
+      const x = this.homes.get(alien)!.x;
+      const halfWidth = alien.size.width / 2;
+      maxSeparation = Math.min(
+        maxSeparation,
+        this.sides.get(alien) === -1
+          ? x - halfWidth - swarm.bounds.min
+          : swarm.bounds.max - x - halfWidth
+      );
+    }
+    maxSeparation = Math.max(maxSeparation, 0);
+
+    const distance = swarm.horizontalSpeed * swarm.elapsed;
+    this.separation += this.direction * distance;
+    if (this.direction === 1 && this.separation >= maxSeparation) {
+      this.separation = maxSeparation;
+      this.direction = -1;
+    } else if (this.direction === -1 && this.separation <= 0) {
+      this.separation = 0;
+      this.direction = 1;
+      this.drop += swarm.moveDownAmount;
+    }
+
+    for (const alien of swarm.aliens) {
+      const home = this.homes.get(alien)!;
+      alien.moveSlotTo(home.x + this.sides.get(alien)! * this.separation, home.y - this.drop);
+    }
+  }
+
+  raise(aliens: readonly Alien[], amount: number): void {
+    this.drop -= liftSlots(aliens, amount, this.drop);
+  }
+}
+
+// The whole formation circles around its starting point on a flattened
+// ellipse, as wide as the walls allow, and drops after every lap
+class OrbitPattern implements SwarmPattern {
+  readonly kind = 'orbit';
+  private radius: number;
+  private homes: Map<Alien, THREE.Vector2> = new Map();
+  private angle: number = 0;
+  private lapDrop: number = 0; // How far the laps so far have dropped the swarm
+  private lift: number = 0; // How far it was pushed back up since
+
+  constructor(radius: number) {
+    this.radius = radius;
+  }
+
+  start(aliens: readonly Alien[]): void {
+    this.homes = captureHomes(aliens);
+    this.angle = 0;
+    this.lapDrop = 0;
+    this.lift = 0;
+  }
+
+  step(swarm: SwarmStep): void {
+    // Travel the circle at the swarm's speed
+    this.angle += (swarm.horizontalSpeed * swarm.elapsed) / this.radius;
+    const laps = Math.floor(this.angle / (Math.PI * 2));
+    this.lapDrop = laps * swarm.moveDownAmount;
+
+    const extent = swarmExtent(swarm.aliens, (alien) => this.homes.get(alien)!.x);
+    const room = Math.min(extent.min - swarm.bounds.min, swarm.bounds.max - extent.max);
+    const radiusX = THREE.MathUtils.clamp(room, 0, this.radius);
+    const radiusY = this.radius / 2;
+
+    // Starts at the formation's own position and heads right and down
+    const offsetX = Math.sin(this.angle) * radiusX;
+    const offsetY = (Math.cos(this.angle) - 1) * radiusY - this.lapDrop + this.lift;
+
+    for (const alien of swarm.aliens) {
+      const home = this.homes.get(alien)!;
+      alien.moveSlotTo(home.x + offsetX, home.y + offsetY);
+    }
+  }
+
+  raise(aliens: readonly Alien[], amount: number): void {
+    this.lift += liftSlots(aliens, amount, this.lapDrop - this.lift);
+  }
+}
+
+// Sideways sweep between the walls shared by patterns that move like the
+// classic swarm: a horizontal offset that turns at the walls, and the total
+// drop from the turns so far
+class SideSweep {
+  offset: number = 0;
+  drop: number = 0;
+  private direction: 1 | -1 = 1;
+
+  // Move by `distance`, turning and dropping first if that would cross a wall.
+  // `extent` is the swarm's span without the offset.
+  advance(extent: { min: number; max: number }, distance: number, swarm: SwarmStep): void {
+    if (crossesWall(extent, this.offset + this.direction * distance, swarm.bounds)) {
+      this.direction = this.direction === 1 ? -1 : 1;
+      this.drop += swarm.moveDownAmount;
+    }
+    this.offset += this.direction * distance;
+  }
+}
+
+// Whether a span moved by `offset` reaches past either wall
+function crossesWall(
+  extent: { min: number; max: number },
+  offset: number,
+  bounds: { min: number; max: number }
+): boolean {
+  return extent.max + offset > bounds.max || extent.min + offset < bounds.min;
+}
+
+// Horizontal span of the aliens' outer edges, with each alien's centre at x(alien)
+function swarmExtent(
+  aliens: readonly Alien[],
+  x: (alien: Alien) => number
+): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const alien of aliens) {
+    min = Math.min(min, x(alien) - alien.size.width / 2);
+    max = Math.max(max, x(alien) + alien.size.width / 2);
+  }
+  return { min, max };
+}
+
+// Move every slot up by as much of `amount` as the swarm has dropped so far,
+// and return how far that was
+function liftSlots(aliens: readonly Alien[], amount: number, dropped: number): number {
+  const lift = Math.min(amount, Math.max(dropped, 0));
+  for (const alien of aliens) {
+    alien.moveSlotTo(alien.slot.x, alien.slot.y + lift);
+  }
+  return lift;
+}
+
+// Every alien's slot at the start of the level
+function captureHomes(aliens: readonly Alien[]): Map<Alien, THREE.Vector2> {
+  return new Map(aliens.map((alien) => [alien, alien.slot.clone()]));
+}
+
+function centroid(points: THREE.Vector2[]): THREE.Vector2 {
+  const center = new THREE.Vector2();
+  points.forEach((point) => center.add(point));
+  return points.length > 0 ? center.divideScalar(points.length) : center;
+}
@@ -2,10 +2,22 @@
 import * as THREE from 'three';
 
 export interface GameObject {
-  mesh: THREE.Mesh;
+  mesh?: THREE.Mesh; // Left out by objects drawn by a shared renderer, such as aliens
   position: THREE.Vector3;
   velocity: THREE.Vector3;
   size: { width: number; height: number; depth: number } | { radius: number };
   update?: (delta: number) => void;
   onCollision?: (other: GameObject) => void;
 }
+
+// Presentation of the score, lives, level, boss health and centre-screen
+// messages. The simulation only talks to this interface so it can run without a DOM.
+export interface GameHud {
+  setScore(score: number): void;
+  setLives(lives: number): void;
+  setLevel(level: number): void;
+  setBossHealth(health: number | null): void; // 0 to 1, or null to hide the bar
+  setShield(shield: number | null): void; // 0 to 1, or null when the shield isn't in play
+  showMessage(message: string): void;
+  hideMessage(): void;
+}
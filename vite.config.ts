@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import wasm from 'vite-plugin-wasm';
 import topLevelAwait from 'vite-plugin-top-level-await';
@@ -16,4 +17,12 @@ export default defineConfig({
       '@dimforge/rapier3d': resolve(__dirname, 'node_modules/@dimforge/rapier3d'),
     },
   },
+  test: {
+    // Rapier only names an ES module entry, which Node can't resolve on its
+    // own; point at it and let the wasm plugin load it in tests too
+    alias: {
+      '@dimforge/rapier3d': resolve(__dirname, 'node_modules/@dimforge/rapier3d/rapier.js'),
+    },
+    server: { deps: { inline: ['@dimforge/rapier3d'] } },
+  },
 });